@@ -3,8 +3,11 @@
  * @description This module provides functionality for managing API endpoints and making HTTP requests.
  */
 
-import { ApiError, NetworkError } from './errors';
+import { ApiError, NetworkError, ParseError } from './errors';
+import { rootCause } from './customerror';
+import { ErrorTracker } from './errortracker';
 import { Logger } from './logger';
+import { Result, attemptAsync, normalizeError } from './result';
 
 /**
  * Represents an API endpoint with its properties.
@@ -49,15 +52,25 @@ export class ApiService {
    */
   private defaultTimeout: number = 30000;
 
+  /**
+   * Records every failed request, if set.
+   * @private
+   * @type {ErrorTracker | undefined}
+   */
+  private errorTracker: ErrorTracker | undefined;
+
   /**
    * Creates an instance of ApiService.
    * @constructor
    * @param {Logger} logger - The logger instance to use for logging API-related activities.
-   * @param {number} [defaultTimeout=30000] - The default timeout for API requests in milliseconds.
+   * @param {number|Object} [defaultTimeout=30000] - The default timeout for API requests in milliseconds,
+   * or configuration loaded with `loadConfig(apiConfigSchema)` providing API_TIMEOUT_MS.
+   * @param {ErrorTracker} [errorTracker] - Records every ApiError, NetworkError and ParseError with the endpoint that failed.
    */
-  constructor(logger: Logger, defaultTimeout: number = 30000) {
+  constructor(logger: Logger, defaultTimeout: number | { API_TIMEOUT_MS?: number | undefined } = 30000, errorTracker?: ErrorTracker) {
     this.logger = logger;
-    this.defaultTimeout = defaultTimeout;
+    this.errorTracker = errorTracker;
+    this.defaultTimeout = typeof defaultTimeout === 'number' ? defaultTimeout : defaultTimeout.API_TIMEOUT_MS ?? this.defaultTimeout;
   }
 
   /**
@@ -117,7 +130,9 @@ export class ApiService {
    * @param {RequestInit} [options] - Optional fetch options to customize the request.
    * @returns {Promise<any>} The parsed JSON response from the API.
    * @throws {ApiError} If the endpoint is not found or the API request fails.
-   * @throws {NetworkError} If there's a network-related error during the fetch operation.
+   * @throws {NetworkError} If there's a network-related error during the fetch operation, or it times out. Its cause is
+   * the underlying fetch, DNS or socket error, and its detail the message of the deepest cause.
+   * @throws {ParseError} If the response body is not valid JSON. Its cause is the SyntaxError.
    * 
    * @example
    * try {
@@ -128,17 +143,33 @@ export class ApiService {
    * }
    */
   async fetch<T = any>(endpointId: string, options?: RequestInit): Promise<T> {
+    try {
+      return await this.request<T>(endpointId, options);
+    } catch (error: unknown) {
+      this.errorTracker?.track(error, { endpointId, method: options?.method ?? this.endpoints.get(endpointId)?.method });
+      throw error;
+    }
+  }
+
+  /**
+   * Performs the request of `fetch`.
+   * @private
+   * @async
+   * @param {string} endpointId - The ID of the endpoint to fetch from.
+   * @param {RequestInit} [options] - Optional fetch options to customize the request.
+   * @returns {Promise<any>} The parsed JSON response from the API.
+   */
+  private async request<T>(endpointId: string, options?: RequestInit): Promise<T> {
     const endpoint = this.endpoints.get(endpointId);
     if (!endpoint) {
       this.logger.error(`Endpoint not found: ${endpointId}`);
       throw new ApiError(404, `Endpoint not found: ${endpointId}`);
     }
 
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.defaultTimeout);
     try {
       this.logger.info(`Fetching from endpoint: ${endpoint.name}`);
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.defaultTimeout);
-
       const response = await fetch(endpoint.url, {
         method: endpoint.method,
         headers: { ...endpoint.headers, ...options?.headers },
@@ -146,8 +177,6 @@ export class ApiService {
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
         this.logger.error(`API request failed: ${response.statusText}`, { status: response.status });
         throw new ApiError(response.status, `API request failed: ${response.statusText}`);
@@ -159,17 +188,11 @@ export class ApiService {
       if (error instanceof ApiError) {
         throw error;
       }
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        const timeoutError = new NetworkError(`Request timeout for ${endpoint.name}`, 'Request timed out');
-        this.logger.error(timeoutError.message, { endpointName: endpoint.name });
-        throw timeoutError;
-      }
-      const networkError = new NetworkError(
-        `Network error while fetching ${endpoint.name}`,
-        error instanceof Error ? error.message : String(error)
-      );
-      this.logger.error(networkError.message, { endpointName: endpoint.name });
-      throw networkError;
+      const failure = toRequestFailure(error, endpoint, controller.signal.aborted);
+      this.logger.error(failure.message, { endpointName: endpoint.name });
+      throw failure;
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
@@ -238,4 +261,107 @@ export class ApiService {
   async delete<T = any>(endpointId: string, options?: RequestInit): Promise<T> {
     return this.fetch<T>(endpointId, { ...options, method: 'DELETE' });
   }
-}
\ No newline at end of file
+
+  /**
+   * Fetches data like `fetch`, but returns failures as an Err rather than throwing them.
+   * @method
+   * @async
+   * @param {string} endpointId - The ID of the endpoint to fetch from.
+   * @param {RequestInit} [options] - Optional fetch options to customize the request.
+   * @returns {Promise<Result<T, ApiError | NetworkError | ParseError>>} The parsed JSON response, or the ApiError, NetworkError or ParseError.
+   *
+   * @example
+   * const result = await apiService.tryFetch<User[]>('users');
+   * const users = result.match({
+   *   ok: users => users,
+   *   err: error => (error instanceof ApiError && error.status === 404 ? [] : showOutage(error)),
+   * });
+   */
+  async tryFetch<T = any>(endpointId: string, options?: RequestInit): Promise<Result<T, ApiError | NetworkError | ParseError>> {
+    return attemptAsync(() => this.fetch<T>(endpointId, options), toApiFailure);
+  }
+
+  /**
+   * Performs a GET request like `get`, returning failures as an Err.
+   * @method
+   * @async
+   * @param {string} endpointId - The ID of the endpoint to fetch from.
+   * @param {RequestInit} [options] - Optional fetch options to customize the request.
+   * @returns {Promise<Result<T, ApiError | NetworkError | ParseError>>} The parsed JSON response, or the error.
+   */
+  async tryGet<T = any>(endpointId: string, options?: RequestInit): Promise<Result<T, ApiError | NetworkError | ParseError>> {
+    return attemptAsync(() => this.get<T>(endpointId, options), toApiFailure);
+  }
+
+  /**
+   * Performs a POST request like `post`, returning failures as an Err.
+   * @method
+   * @async
+   * @param {string} endpointId - The ID of the endpoint to post to.
+   * @param {any} body - The body of the POST request.
+   * @param {RequestInit} [options] - Optional fetch options to customize the request.
+   * @returns {Promise<Result<TResponse, ApiError | NetworkError | ParseError>>} The parsed JSON response, or the error.
+   */
+  async tryPost<TResponse = any, TBody = any>(endpointId: string, body: TBody, options?: RequestInit): Promise<Result<TResponse, ApiError | NetworkError | ParseError>> {
+    return attemptAsync(() => this.post<TResponse, TBody>(endpointId, body, options), toApiFailure);
+  }
+
+  /**
+   * Performs a PUT request like `put`, returning failures as an Err.
+   * @method
+   * @async
+   * @param {string} endpointId - The ID of the endpoint to put to.
+   * @param {any} body - The body of the PUT request.
+   * @param {RequestInit} [options] - Optional fetch options to customize the request.
+   * @returns {Promise<Result<TResponse, ApiError | NetworkError | ParseError>>} The parsed JSON response, or the error.
+   */
+  async tryPut<TResponse = any, TBody = any>(endpointId: string, body: TBody, options?: RequestInit): Promise<Result<TResponse, ApiError | NetworkError | ParseError>> {
+    return attemptAsync(() => this.put<TResponse, TBody>(endpointId, body, options), toApiFailure);
+  }
+
+  /**
+   * Performs a DELETE request like `delete`, returning failures as an Err.
+   * @method
+   * @async
+   * @param {string} endpointId - The ID of the endpoint to delete from.
+   * @param {RequestInit} [options] - Optional fetch options to customize the request.
+   * @returns {Promise<Result<T, ApiError | NetworkError | ParseError>>} The parsed JSON response, or the error.
+   */
+  async tryDelete<T = any>(endpointId: string, options?: RequestInit): Promise<Result<T, ApiError | NetworkError | ParseError>> {
+    return attemptAsync(() => this.delete<T>(endpointId, options), toApiFailure);
+  }
+}
+
+/**
+ * Narrows what `ApiService.fetch` threw to the errors it documents. It only throws ApiErrors, NetworkErrors and
+ * ParseErrors, so anything else is wrapped in a NetworkError defensively.
+ * @param {unknown} thrown - The thrown value
+ * @returns {ApiError | NetworkError | ParseError} The error
+ */
+function toApiFailure(thrown: unknown): ApiError | NetworkError | ParseError {
+  if (thrown instanceof ApiError || thrown instanceof NetworkError || thrown instanceof ParseError) {
+    return thrown;
+  }
+  return new NetworkError('Request failed', thrown instanceof Error ? thrown.message : String(thrown), { cause: thrown });
+}
+
+/**
+ * Turns what fetching or reading a response threw into the error `ApiService.fetch` throws, using `normalizeError`.
+ * A body that is not JSON becomes a ParseError. Anything else failed on the way to the endpoint and becomes a
+ * NetworkError naming the endpoint, whose detail is the message of the deepest cause.
+ * @param {unknown} thrown - The thrown value
+ * @param {ApiEndpoint} endpoint - The endpoint
+ * @param {boolean} timedOut - Whether the request was aborted by the timeout
+ * @returns {NetworkError | ParseError} The error, with the thrown value as its cause
+ */
+function toRequestFailure(thrown: unknown, endpoint: ApiEndpoint, timedOut: boolean): NetworkError | ParseError {
+  if (timedOut) {
+    return new NetworkError(`Request timeout for ${endpoint.name}`, 'Request timed out', { cause: thrown });
+  }
+  const normalized = normalizeError(thrown);
+  if (normalized instanceof ParseError) {
+    return new ParseError(`Invalid JSON response from ${endpoint.name}`, endpoint.url, { cause: thrown });
+  }
+  const root = rootCause(thrown);
+  return new NetworkError(`Network error while fetching ${endpoint.name}`, root instanceof Error ? root.message : String(root), { cause: thrown });
+}
@@ -0,0 +1,426 @@
+/**
+ * @module audit
+ * @description This module provides a tamper-evident audit trail. Every record carries the hash of the previous
+ * record, so changing, removing or reordering records breaks the chain, which `verifyAuditLog` detects.
+ * The chain continues across restarts and across rotated (and compressed) files.
+ */
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { Logger } from './logger';
+import { getRequestContext } from './context';
+import { CustomError } from './customerror';
+import { LogDirectoryNotFoundError, LogFileOperationError } from './errors';
+import { LogRotationOptions, RotatingFileTransport, listRotatedFiles } from './rotation';
+import { serializeValue } from './serialization';
+
+/**
+ * One record of the audit trail, as written to the audit file.
+ * @typedef {Object} AuditRecord
+ * @property {number} seq - The position of the record in the chain, starting at 0
+ * @property {string} timestamp - When the record was written, in ISO 8601
+ * @property {string} event - What happened, e.g. 'user.login' or 'config.changed'
+ * @property {string} [context] - The context of the logger the audit log belongs to
+ * @property {Object} details - The details of the event, merged with the current request context
+ * @property {string} prev - The hash of the previous record
+ * @property {string} hash - The hash of this record
+ */
+export interface AuditRecord {
+    seq: number;
+    timestamp: string;
+    event: string;
+    context?: string;
+    details: Record<string, unknown>;
+    prev: string;
+    hash: string;
+}
+
+/**
+ * Options for an audit log.
+ * @typedef {Object} AuditLogOptions
+ * @property {string} [filePath] - The audit file. Defaults to audit.log next to the logger's files.
+ * @property {boolean} [recursive] - Whether to create the directory of the audit file
+ * @property {LogRotationOptions} [rotation] - Rotate the audit file. Avoid `maxFiles` and `maxAge` if the whole chain must stay verifiable.
+ * @property {boolean} [mirror=true] - Also write each record to the logger at the 'audit' level
+ * @property {Function} [onError] - Receives write and rotation failures, and the repair of a record cut off by a crash. Defaults to logging them to the console.
+ */
+export interface AuditLogOptions {
+    filePath?: string;
+    recursive?: boolean;
+    rotation?: LogRotationOptions;
+    mirror?: boolean;
+    onError?: (error: LogFileOperationError | Error) => void;
+}
+
+/**
+ * The result of a successful verification.
+ * @typedef {Object} AuditVerification
+ * @property {number} records - The number of records checked
+ * @property {string[]} files - The files checked, oldest first
+ * @property {boolean} complete - Whether the chain starts at its first record. False when the oldest files were pruned and `allowPruned` is set.
+ * @property {number} [lastSeq] - The position of the newest record
+ * @property {string} [lastHash] - The hash of the newest record
+ */
+export interface AuditVerification {
+    records: number;
+    files: string[];
+    complete: boolean;
+    lastSeq?: number;
+    lastHash?: string;
+}
+
+/**
+ * Options for verifying an audit log.
+ * @typedef {Object} AuditVerifyOptions
+ * @property {boolean} [allowPruned=false] - Accept a chain whose oldest remaining record is not record 0,
+ * because rotated files were pruned with `maxFiles` or `maxAge`
+ * @property {{ seq: number, hash: string }} [anchor] - A record known to exist, such as the `seq` and `lastHash` of an
+ * earlier verification (`{ seq: lastSeq, hash: lastHash }`). The chain must reach it with the same hash, so records removed from the end are detected.
+ */
+export interface AuditVerifyOptions {
+    allowPruned?: boolean;
+    anchor?: { seq: number; hash: string };
+}
+
+/**
+ * The `prev` hash of the first record of a chain
+ * @constant
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+const MESSAGE = Symbol.for('message');
+
+/**
+ * Writes hash-chained audit records to an append-only file.
+ *
+ * @class
+ *
+ * @example
+ * const audit = new AuditLog(logger, { filePath: 'logs/audit.log', rotation: { interval: 'daily', compress: true } });
+ * audit.record('user.login', { userId: 'u1' });
+ *
+ * try {
+ *   authorize(user, 'invoices', 'delete');
+ * } catch (error) {
+ *   if (error instanceof AuthorizationError) {
+ *     audit.record('access.denied', { userId: user.id, resource: error.resource, action: error.action });
+ *   }
+ *   throw error;
+ * }
+ */
+export class AuditLog {
+    /**
+     * The path of the active audit file
+     * @type {string}
+     */
+    public readonly filePath: string;
+
+    private readonly transport: RotatingFileTransport;
+    private readonly mirror: boolean;
+    private seq: number;
+    private prev: string;
+
+    /**
+     * Creates an instance of AuditLog. The chain continues from the newest record already on disk.
+     * A record cut off by a crash at the end of the audit file is removed and reported to `onError`.
+     * @constructor
+     * @param {Logger} logger - The logger the audit log belongs to
+     * @param {AuditLogOptions} [options] - The audit file and its rotation
+     * @throws {LogDirectoryNotFoundError} If the directory does not exist and `recursive` is not set
+     * @throws {LogFileOperationError} If the existing audit file cannot be read or opened, or its last complete record cannot be parsed
+     */
+    constructor(private readonly logger: Logger<string>, options: AuditLogOptions = {}) {
+        this.filePath = options.filePath ?? path.join(path.dirname(logger.getLogFiles().combined), 'audit.log');
+        this.mirror = options.mirror ?? true;
+
+        const dir = path.dirname(this.filePath);
+        if (!fs.existsSync(dir)) {
+            if (options.recursive) {
+                fs.mkdirSync(dir, { recursive: true });
+            } else {
+                throw new LogDirectoryNotFoundError(`Log directory does not exist: ${dir}`, dir);
+            }
+        }
+
+        const report = (error: Error): void => {
+            if (options.onError) {
+                options.onError(error);
+            } else if (error instanceof CustomError) {
+                error.log(console);
+            } else {
+                console.error(error);
+            }
+        };
+
+        const last = AuditLog.lastRecord(this.filePath, report);
+        this.seq = last ? last.seq + 1 : 0;
+        this.prev = last ? last.hash : AUDIT_GENESIS_HASH;
+
+        this.transport = new RotatingFileTransport({ filename: this.filePath, ...options.rotation });
+        this.transport.on('error', report);
+    }
+
+    /**
+     * @method record
+     * @description Appends a record to the audit trail
+     * @param {string} event - What happened, e.g. 'user.login'
+     * @param {Object} [details] - The details of the event. Fields of the current request context are added.
+     * The details are serialized like log metadata and redacted with the logger's redaction.
+     * @returns {AuditRecord} The written record
+     */
+    public record(event: string, details: Record<string, unknown> = {}): AuditRecord {
+        const context = this.logger.getContext();
+        const body = {
+            seq: this.seq,
+            timestamp: new Date().toISOString(),
+            event,
+            ...(context && { context }),
+            details: this.logger.redact(serializeValue({ ...getRequestContext(), ...details }) as Record<string, unknown>),
+            prev: this.prev,
+        };
+        const record: AuditRecord = { ...body, hash: hashRecord(body) };
+
+        this.transport.log({ [MESSAGE]: JSON.stringify(record) }, () => undefined);
+        this.seq++;
+        this.prev = record.hash;
+
+        if (this.mirror) {
+            this.logger.audit(event, { ...record.details, auditSeq: record.seq });
+        }
+        return record;
+    }
+
+    /**
+     * @method flush
+     * @description Waits until every record has been written
+     * @returns {Promise<void>}
+     */
+    public flush(): Promise<void> {
+        return this.transport.flush();
+    }
+
+    /**
+     * @method close
+     * @description Writes the pending records and closes the audit file
+     * @returns {Promise<void>}
+     */
+    public close(): Promise<void> {
+        return this.transport.close();
+    }
+
+    /**
+     * @private
+     * @static
+     * @method lastRecord
+     * @description Finds the newest record in the active file or, if it is empty, in the newest rotated file.
+     * An unreadable last line without a line break was cut off while being written; it is truncated from the active file.
+     * @param {string} filePath - The path of the active audit file
+     * @param {Function} report - Receives the repair of a cut-off record
+     * @returns {AuditRecord | undefined} The newest record, if any
+     * @throws {LogFileOperationError} If the newest complete record cannot be parsed, or a cut-off record cannot be removed
+     */
+    private static lastRecord(filePath: string, report: (error: LogFileOperationError) => void): AuditRecord | undefined {
+        for (const file of [filePath, ...rotatedAuditFiles(filePath).reverse()]) {
+            const lines = readLines(file);
+            let line = lines[lines.length - 1];
+            if (line !== undefined && file === filePath && parseRecord(line) === undefined) {
+                const { size, complete } = completeLength(file);
+                if (complete < size) {
+                    try {
+                        fs.truncateSync(file, complete);
+                    } catch (error) {
+                        throw new LogFileOperationError(`Failed to remove the cut-off audit record: ${(error as Error).message}`, file, 'write');
+                    }
+                    report(new LogFileOperationError(`Removed an audit record cut off while being written (line ${lines.length})`, file, 'write'));
+                    lines.pop();
+                    line = lines[lines.length - 1];
+                }
+            }
+            if (line !== undefined) {
+                const record = parseRecord(line);
+                if (record === undefined) {
+                    throw new LogFileOperationError(`Audit log ends with an unreadable record (line ${lines.length})`, file, 'verify');
+                }
+                return record;
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * @function parseRecord
+ * @description Parses one line of an audit file
+ * @param {string} line - The line
+ * @returns {AuditRecord | undefined} The record, or undefined if the line is not valid JSON
+ */
+function parseRecord(line: string): AuditRecord | undefined {
+    try {
+        return JSON.parse(line) as AuditRecord;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * @function completeLength
+ * @description Measures the part of a file that ends with a line break
+ * @param {string} file - The file
+ * @returns {{ size: number, complete: number }} The size of the file and the length of its complete lines, in bytes
+ */
+function completeLength(file: string): { size: number; complete: number } {
+    const content = fs.readFileSync(file);
+    return { size: content.length, complete: content.lastIndexOf(0x0a) + 1 };
+}
+
+/**
+ * @function verifyAuditLog
+ * @description Checks the hash chain of an audit file and its rotated files, oldest first. The chain must start at
+ * record 0 unless `allowPruned` is set. Records removed from the end leave a valid chain behind, so they are only
+ * detected with an `anchor` recorded earlier.
+ * @param {string} filePath - The path of the active audit file
+ * @param {AuditVerifyOptions} [options] - Whether pruned files are expected, and a record the chain must reach
+ * @returns {Promise<AuditVerification>} What was verified
+ * @throws {LogFileOperationError} At the first broken or missing link, naming the file and line
+ *
+ * @example
+ * try {
+ *   const { records } = await verifyAuditLog('logs/audit.log');
+ * } catch (error) {
+ *   // LogFileOperationError: Audit record 42 was modified (line 7) (File: logs/audit.20240101-000000.log, Operation: verify)
+ * }
+ */
+export async function verifyAuditLog(filePath: string, options: AuditVerifyOptions = {}): Promise<AuditVerification> {
+    const { allowPruned = false, anchor } = options;
+    const files = auditFiles(filePath);
+    const result: AuditVerification = { records: 0, files, complete: true };
+    let previous: AuditRecord | undefined;
+
+    for (const file of files) {
+        const lines = await readLinesAsync(file);
+        for (const [index, line] of lines.entries()) {
+            const fail = (reason: string): never => {
+                throw new LogFileOperationError(`${reason} (line ${index + 1})`, file, 'verify');
+            };
+
+            let record: AuditRecord;
+            try {
+                record = JSON.parse(line);
+            } catch {
+                return fail('Audit record is not valid JSON');
+            }
+            const { hash, ...body } = record;
+            if (typeof hash !== 'string' || hashRecord(body) !== hash) {
+                fail(`Audit record ${record.seq} was modified`);
+            }
+
+            if (previous) {
+                if (record.prev !== previous.hash || record.seq !== previous.seq + 1) {
+                    fail(`Audit record ${record.seq} does not follow record ${previous.seq}: records are missing or reordered`);
+                }
+            } else if (record.seq === 0) {
+                if (record.prev !== AUDIT_GENESIS_HASH) {
+                    fail('The first audit record does not start the chain');
+                }
+            } else if (allowPruned) {
+                result.complete = false;
+            } else {
+                fail(`The oldest audit record is record ${record.seq}: the records before it are missing`);
+            }
+            if (anchor && record.seq === anchor.seq && record.hash !== anchor.hash) {
+                fail(`Audit record ${record.seq} does not match the expected hash`);
+            }
+
+            previous = record;
+            result.records++;
+        }
+    }
+
+    if (anchor && (!previous || previous.seq < anchor.seq)) {
+        throw new LogFileOperationError(`The audit log ends before the expected record ${anchor.seq}: records were removed from the end`, filePath, 'verify');
+    }
+    if (previous) {
+        result.lastSeq = previous.seq;
+        result.lastHash = previous.hash;
+    }
+    return result;
+}
+
+/**
+ * @function hashRecord
+ * @description Hashes the fields of a record, which include the hash of the previous record
+ * @param {Object} body - The record without its hash
+ * @returns {string} The SHA-256 hash, hex encoded
+ */
+function hashRecord(body: Omit<AuditRecord, 'hash'>): string {
+    return crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+/**
+ * @function rotatedAuditFiles
+ * @description Lists the rotated audit files, oldest first.
+ * A compressed file whose uncompressed original still exists is being written and is skipped.
+ * @param {string} filePath - The path of the active audit file
+ * @returns {string[]} The files
+ */
+function rotatedAuditFiles(filePath: string): string[] {
+    return listRotatedFiles(filePath).filter(file => !(file.endsWith('.gz') && fs.existsSync(file.slice(0, -3))));
+}
+
+/**
+ * @function auditFiles
+ * @description Lists the rotated audit files, oldest first, followed by the active file if it exists
+ * @param {string} filePath - The path of the active audit file
+ * @returns {string[]} The files
+ */
+function auditFiles(filePath: string): string[] {
+    const rotated = rotatedAuditFiles(filePath);
+    return fs.existsSync(filePath) ? [...rotated, filePath] : rotated;
+}
+
+/**
+ * @function readLines
+ * @description Reads the non-empty lines of a plain or gzipped file
+ * @param {string} file - The file
+ * @returns {string[]} The lines
+ * @throws {LogFileOperationError} If the file cannot be read
+ */
+function readLines(file: string): string[] {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    try {
+        const content = fs.readFileSync(file);
+        return splitLines(file.endsWith('.gz') ? zlib.gunzipSync(content) : content);
+    } catch (error) {
+        throw new LogFileOperationError(`Failed to read audit log: ${(error as Error).message}`, file, 'read');
+    }
+}
+
+/**
+ * @function readLinesAsync
+ * @description Reads the non-empty lines of a plain or gzipped file without blocking
+ * @param {string} file - The file
+ * @returns {Promise<string[]>} The lines
+ * @throws {LogFileOperationError} If the file cannot be read
+ */
+async function readLinesAsync(file: string): Promise<string[]> {
+    try {
+        const content = await fs.promises.readFile(file);
+        return splitLines(file.endsWith('.gz') ? zlib.gunzipSync(content) : content);
+    } catch (error) {
+        throw new LogFileOperationError(`Failed to read audit log: ${(error as Error).message}`, file, 'read');
+    }
+}
+
+/**
+ * @function splitLines
+ * @description Splits file content into its non-empty lines
+ * @param {Buffer} content - The content
+ * @returns {string[]} The lines
+ */
+function splitLines(content: Buffer): string[] {
+    return content.toString('utf8').split(/\r?\n/).filter(line => line.trim() !== '');
+}
@@ -0,0 +1,172 @@
+/**
+ * @module config
+ * @description This module loads typed configuration from `.env` files and `process.env` against a declared schema.
+ * Values are coerced to numbers, booleans, durations and enums, defaults are applied, and every invalid key
+ * is reported at once in a single ConfigurationError.
+ */
+
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import { ConfigurationError, ConfigurationIssue } from './errors';
+import { parseAge } from './rotation';
+
+/**
+ * The declaration of one configuration key.
+ * @typedef {Object} ConfigField
+ * @property {'string'|'number'|'boolean'|'duration'|'enum'} type - How the raw value is coerced. Durations accept milliseconds or values such as '30s', '5m', '2h'.
+ * @property {string[]} [values] - The allowed values of an enum
+ * @property {*} [default] - The value used when the key is not set
+ * @property {boolean} [required=false] - Whether the key must be set when there is no default
+ * @property {string} [env] - The environment variable to read, when it differs from the key
+ */
+export type ConfigField =
+    | { type: 'string'; default?: string; required?: boolean; env?: string }
+    | { type: 'number'; default?: number; required?: boolean; env?: string }
+    | { type: 'boolean'; default?: boolean; required?: boolean; env?: string }
+    | { type: 'duration'; default?: number | string; required?: boolean; env?: string }
+    | { type: 'enum'; values: readonly string[]; default?: string; required?: boolean; env?: string };
+
+/**
+ * A configuration schema, keyed by configuration key.
+ * @typedef {Object<string, ConfigField>} ConfigSchema
+ */
+export type ConfigSchema = Record<string, ConfigField>;
+
+/**
+ * The coerced type of a configuration field.
+ */
+export type ConfigValue<F extends ConfigField> =
+    F extends { type: 'number' | 'duration' } ? number :
+    F extends { type: 'boolean' } ? boolean :
+    F extends { type: 'enum'; values: readonly (infer V)[] } ? V :
+    string;
+
+/**
+ * The configuration object produced by a schema. Keys that are neither required nor defaulted may be undefined.
+ */
+export type Config<S extends ConfigSchema> = {
+    readonly [K in keyof S]: S[K] extends { required: true } | { default: unknown } ? ConfigValue<S[K]> : ConfigValue<S[K]> | undefined;
+};
+
+/**
+ * Options for loading configuration.
+ * @typedef {Object} LoadConfigOptions
+ * @property {string|string[]} [path='.env'] - The .env files to read. Missing files are skipped; earlier files take precedence.
+ * @property {Record<string, string|undefined>} [env=process.env] - The environment, which takes precedence over the files
+ */
+export interface LoadConfigOptions {
+    path?: string | string[];
+    env?: Record<string, string | undefined>;
+}
+
+/**
+ * Logger settings read from the environment: LOG_LEVEL, LOG_DIR, LOG_FORMAT and LOG_DEBUG.
+ * @constant
+ */
+export const loggerConfigSchema = {
+    LOG_LEVEL: { type: 'enum', values: ['fatal', 'error', 'warn', 'audit', 'info', 'http', 'verbose', 'debug', 'trace', 'silly'], default: 'info' },
+    LOG_DIR: { type: 'string', default: 'logs' },
+    LOG_FORMAT: { type: 'enum', values: ['text', 'json', 'otel'], default: 'text' },
+    LOG_DEBUG: { type: 'string' },
+} as const satisfies ConfigSchema;
+
+/**
+ * ApiService settings read from the environment: API_TIMEOUT_MS.
+ * @constant
+ */
+export const apiConfigSchema = {
+    API_TIMEOUT_MS: { type: 'duration', default: 30000 },
+} as const satisfies ConfigSchema;
+
+/**
+ * @function loadConfig
+ * @description Reads configuration from .env files and the environment, validates and coerces it against a schema
+ * @param {ConfigSchema} schema - The declared keys
+ * @param {LoadConfigOptions} [options] - Where to read values from
+ * @returns {Readonly<Config>} The frozen configuration object
+ * @throws {ConfigurationError} Listing every missing or invalid key in `issues`
+ *
+ * @example
+ * const config = loadConfig({ ...loggerConfigSchema, ...apiConfigSchema, PORT: { type: 'number', default: 3000 } });
+ * const logger = Logger.fromConfig(config, 'App');
+ * const api = new ApiService(logger, config);
+ */
+export function loadConfig<S extends ConfigSchema>(schema: S, options: LoadConfigOptions = {}): Config<S> {
+    const files = [options.path ?? '.env'].flat();
+    const fromFiles: Record<string, string> = {};
+    for (const file of [...files].reverse()) {
+        if (fs.existsSync(file)) {
+            Object.assign(fromFiles, dotenv.parse(fs.readFileSync(file)));
+        }
+    }
+    const source = { ...fromFiles, ...(options.env ?? process.env) };
+
+    const config: Record<string, unknown> = {};
+    const issues: ConfigurationIssue[] = [];
+    for (const [key, field] of Object.entries(schema)) {
+        const raw = source[field.env ?? key];
+        if (raw === undefined || raw === '') {
+            if (field.default !== undefined) {
+                config[key] = field.type === 'duration' ? coerce(field, String(field.default)) : field.default;
+            } else if (field.required) {
+                issues.push({ key, message: 'is required' });
+            }
+            continue;
+        }
+        try {
+            config[key] = coerce(field, raw);
+        } catch (error) {
+            issues.push({ key, message: (error as Error).message });
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new ConfigurationError(
+            `Invalid configuration: ${issues.map(issue => `${issue.key} ${issue.message}`).join('; ')}`,
+            issues.length === 1 ? issues[0]!.key : undefined,
+            issues
+        );
+    }
+
+    return Object.freeze(config) as Config<S>;
+}
+
+/**
+ * @function coerce
+ * @description Converts a raw string into the type declared by a field
+ * @param {ConfigField} field - The declaration
+ * @param {string} raw - The raw value
+ * @returns {unknown} The coerced value
+ * @throws {Error} Describing why the value is invalid
+ */
+function coerce(field: ConfigField, raw: string): unknown {
+    const value = raw.trim();
+    switch (field.type) {
+        case 'number': {
+            const number = Number(value);
+            if (value === '' || isNaN(number)) {
+                throw new Error(`must be a number, got '${raw}'`);
+            }
+            return number;
+        }
+        case 'boolean': {
+            const normalized = value.toLowerCase();
+            if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+            if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+            throw new Error(`must be a boolean, got '${raw}'`);
+        }
+        case 'duration':
+            try {
+                return parseAge(value);
+            } catch {
+                throw new Error(`must be a duration such as 500, '30s' or '5m', got '${raw}'`);
+            }
+        case 'enum':
+            if (!field.values.includes(value)) {
+                throw new Error(`must be one of ${field.values.join(', ')}, got '${raw}'`);
+            }
+            return value;
+        default:
+            return raw;
+    }
+}
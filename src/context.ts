@@ -0,0 +1,55 @@
+/**
+ * @module context
+ * @description This module provides a request-scoped store based on AsyncLocalStorage.
+ * Fields placed in the store are merged into every Logger entry written while the request is being handled.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Fields stored for the duration of a request, e.g. a request ID or the authenticated user.
+ * @typedef {Object} RequestContext
+ */
+export type RequestContext = Record<string, unknown>;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * @function runWithRequestContext
+ * @description Runs a function with the given fields as its request context.
+ * Fields of an enclosing context are inherited unless overridden.
+ * @param {RequestContext} fields - The fields to make available to everything the function calls
+ * @param {Function} fn - The function to run
+ * @returns {T} The return value of the function
+ *
+ * @example
+ * runWithRequestContext({ requestId: 'abc' }, () => logger.info('Handled')); // entry includes requestId
+ */
+export function runWithRequestContext<T>(fields: RequestContext, fn: () => T): T {
+    return storage.run({ ...storage.getStore(), ...fields }, fn);
+}
+
+/**
+ * @function getRequestContext
+ * @description Returns the fields of the current request context
+ * @returns {RequestContext | undefined} The current fields, or undefined outside of a request context
+ */
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+/**
+ * @function setRequestContext
+ * @description Adds fields to the current request context, e.g. the user ID once authentication has run.
+ * Does nothing outside of a request context.
+ * @param {RequestContext} fields - The fields to add
+ * @returns {boolean} True if the fields were added, false if there is no current request context
+ */
+export function setRequestContext(fields: RequestContext): boolean {
+    const store = storage.getStore();
+    if (!store) {
+        return false;
+    }
+    Object.assign(store, fields);
+    return true;
+}
@@ -1,3 +1,10 @@
+import { serializeValue } from './serialization';
+
+/**
+ * Fields `fromJSON` never copies: they would replace the prototype or the stack of the rebuilt error
+ */
+const UNSAFE_FIELDS = new Set(['__proto__', 'constructor', 'prototype', 'stack']);
+
 /**
  * CustomError is an abstract base class for creating custom error types.
  * It extends the built-in Error class and provides additional functionality.
@@ -23,24 +30,202 @@
  * }
  */
 export abstract class CustomError extends Error {
+    /**
+     * The stable, machine-readable code of the error class, e.g. 'BEV_RATE_LIMIT'.
+     * Subclasses without one get a code derived from their class name, e.g. 'PAYMENT_DECLINED_ERROR'.
+     * @static
+     * @type {string | undefined}
+     */
+    static readonly code?: string;
+
+    /**
+     * The HTTP status `errorHandler` answers with for errors of the class, e.g. 404.
+     * The built-in errors are mapped by `errorHandler` itself.
+     * @static
+     * @type {number | undefined}
+     */
+    static readonly httpStatus?: number;
+
+    /**
+     * The message key of the class's errors unless one is passed to the constructor, e.g. 'beverost.rateLimit'.
+     * The parameters of the message are then the fields of the error.
+     * @static
+     * @type {string | undefined}
+     */
+    static readonly messageKey?: string;
+
+    /**
+     * The registered error classes, keyed by code
+     * @private
+     * @static
+     */
+    private static readonly registry = new Map<string, CustomErrorClass>();
+
+    /**
+     * The stable, machine-readable code of the error, e.g. 'BEV_RATE_LIMIT'
+     * @type {string}
+     */
+    public readonly code: string;
+
+    /**
+     * The key of the localized, client-facing message, e.g. 'shop.orderNotFound'. See `Localizer`.
+     * @type {string | undefined}
+     */
+    declare public readonly messageKey?: string;
+
+    /**
+     * The parameters inserted into the localized message, e.g. `{ orderId: 'o-7' }`
+     * @type {Object<string, unknown> | undefined}
+     */
+    declare public readonly messageParams?: Record<string, unknown>;
+
+    /**
+     * The stable code of the error's class, e.g. 'BEV_NETWORK'. The same as `code`, except on a NetworkError created
+     * with a detail, whose deprecated `code` still holds that detail. `toJSON`, `errorHandler` and `ErrorTracker` use it.
+     * @type {string}
+     */
+    public get classCode(): string {
+        return CustomError.codeOf(this.constructor as CustomErrorClass, this.name);
+    }
+
     /**
      * Creates an instance of CustomError.
      * 
      * @param {string} name - The name of the error. This should typically be the class name.
      * @param {string} message - A descriptive message for the error.
+     * @param {CustomErrorOptions} [options] - The error that caused this one, as `{ cause }`, and the key and parameters of the localized message.
      * 
      * @constructor
      * 
      * @description
-     * The constructor initializes the error with a name and message. It also ensures
+     * The constructor initializes the error with a name, message, code, cause and message key. It also ensures
      * that the prototype chain is correctly set up for proper instanceof checks.
      */
-    constructor(name: string, message: string) {
-        super(message);
+    constructor(name: string, message: string, options?: CustomErrorOptions) {
+        super(message, options);
         this.name = name;
+        this.code = CustomError.codeOf(new.target, name);
+        if (options?.messageKey !== undefined) {
+            Object.assign(this, { messageKey: options.messageKey, ...(options.messageParams && { messageParams: options.messageParams }) });
+        }
         Object.setPrototypeOf(this, new.target.prototype);
     }
 
+    /**
+     * Converts the error into a plain object for JSON: its name, code, message, the fields of its class and its cause.
+     * The stack is left out, so the result is safe to send to clients.
+     * 
+     * @returns {CustomErrorJSON} The plain object
+     * 
+     * @example
+     * JSON.stringify(new RateLimitError('Too many requests', 30));
+     * // {"name":"RateLimitError","code":"BEV_RATE_LIMIT","message":"Too many requests","retryAfter":30}
+     */
+    public toJSON(): CustomErrorJSON {
+        const json: CustomErrorJSON = { name: this.name, code: this.classCode, message: this.message };
+        for (const [key, value] of Object.entries(this)) {
+            if (!(key in json)) {
+                json[key] = value;
+            }
+        }
+        if (this.cause !== undefined) {
+            json.cause = serializeValue(this.cause, { stack: false });
+        }
+        return json;
+    }
+
+    /**
+     * Describes the cause chain for `log()` implementations, e.g. '; caused by NetworkError: fetch failed; caused by Error: ECONNREFUSED'.
+     * 
+     * @protected
+     * @returns {string} The description, or an empty string if the error has no cause
+     */
+    protected describeCauses(): string {
+        return causeChain(this).slice(1)
+            .map(cause => `; caused by ${cause instanceof Error ? `${cause.name}: ${cause.message}` : String(cause)}`)
+            .join('');
+    }
+
+    /**
+     * Registers error classes so that `fromJSON` can rebuild them. The built-in errors are registered already.
+     * 
+     * @static
+     * @param {...CustomErrorClass} classes - The error classes
+     * @throws {TypeError} If another class is registered under the same code
+     * 
+     * @example
+     * class PaymentDeclinedError extends CustomError {
+     *   static readonly code = 'PAY_DECLINED';
+     *   constructor(message: string, public readonly reason?: string) {
+     *     super('PaymentDeclinedError', message);
+     *   }
+     *   log(logger: any) {
+     *     logger.error(`Payment declined: ${this.message}`);
+     *   }
+     * }
+     * CustomError.register(PaymentDeclinedError);
+     */
+    public static register(...classes: CustomErrorClass[]): void {
+        for (const errorClass of classes) {
+            const code = CustomError.codeOf(errorClass, errorClass.name);
+            const registered = CustomError.registry.get(code);
+            if (registered && registered !== errorClass) {
+                throw new TypeError(`Error code '${code}' is already registered to ${registered.name}`);
+            }
+            CustomError.registry.set(code, errorClass);
+        }
+    }
+
+    /**
+     * Rebuilds an error from the output of `toJSON`, e.g. on the other side of a queue, worker thread or HTTP hop.
+     * The class is looked up by code, so the result is an instance of the original subclass with its fields and cause.
+     * Constructors are not called. Errors of unregistered classes are rebuilt as plain `Error`s with the same fields.
+     * Fields named `__proto__`, `constructor` or `prototype` are ignored, and the rebuilt error keeps its own stack.
+     * 
+     * @static
+     * @param {CustomErrorJSON | string} json - The plain object, or its JSON text
+     * @returns {Error} The rebuilt error
+     * 
+     * @example
+     * const error = CustomError.fromJSON(message.error);
+     * if (error instanceof RateLimitError) {
+     *   setTimeout(retry, (error.retryAfter ?? 1) * 1000);
+     * }
+     */
+    public static fromJSON(json: CustomErrorJSON | string): Error {
+        const { name, code, message, cause, ...fields } = typeof json === 'string' ? JSON.parse(json) as CustomErrorJSON : json;
+        const errorClass = typeof code === 'string' ? CustomError.registry.get(code) : undefined;
+        // Creates an instance of the class with a fresh stack, without running its constructor
+        const error: Error = Reflect.construct(Error, [message], (errorClass ?? Error) as unknown as new () => Error);
+        // Defines rather than assigns the fields, so that '__proto__' in the input cannot replace the prototype
+        for (const [key, value] of Object.entries({ name, ...(code !== undefined && { code }), ...fields })) {
+            if (!UNSAFE_FIELDS.has(key)) {
+                Object.defineProperty(error, key, { value, writable: true, enumerable: true, configurable: true });
+            }
+        }
+        if (cause !== undefined) {
+            Object.defineProperty(error, 'cause', {
+                value: isErrorJSON(cause) ? CustomError.fromJSON(cause) : cause,
+                writable: true,
+                configurable: true,
+            });
+        }
+        return error;
+    }
+
+    /**
+     * Returns the code of an error class: its static `code`, or one derived from its name
+     * 
+     * @private
+     * @static
+     * @param {CustomErrorClass} errorClass - The error class
+     * @param {string} fallbackName - The name to derive the code from if the class is anonymous
+     * @returns {string} The code
+     */
+    private static codeOf(errorClass: CustomErrorClass, fallbackName: string): string {
+        return errorClass.code ?? (errorClass.name || fallbackName).replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+    }
+
     /**
      * Abstract method for logging the error.
      * 
@@ -55,3 +240,101 @@ export abstract class CustomError extends Error {
      */
     abstract log(logger: any): void;
 }
+
+/**
+ * The JSON form of a CustomError, as produced by `toJSON`.
+ * @typedef {Object} CustomErrorJSON
+ * @property {string} name - The name of the error
+ * @property {string} code - The stable code of the error
+ * @property {string} message - The message of the error
+ * @property {unknown} [cause] - The cause, converted to JSON
+ */
+export interface CustomErrorJSON {
+    name: string;
+    code: string;
+    message: string;
+    cause?: unknown;
+    [field: string]: unknown;
+}
+
+/**
+ * The options of CustomError constructors.
+ * @typedef {Object} CustomErrorOptions
+ * @property {unknown} [cause] - The error that caused this one
+ * @property {string} [messageKey] - The key of the localized, client-facing message. The `message` stays the text for logs.
+ * @property {Object<string, unknown>} [messageParams] - The parameters of the localized message
+ */
+export interface CustomErrorOptions extends ErrorOptions {
+    messageKey?: string;
+    messageParams?: Record<string, unknown>;
+}
+
+/**
+ * A CustomError subclass, possibly with a static `code`, `httpStatus` and `messageKey`.
+ */
+export type CustomErrorClass = (abstract new (...args: any[]) => CustomError) & {
+    readonly code?: string | undefined;
+    readonly httpStatus?: number | undefined;
+    readonly messageKey?: string | undefined;
+};
+
+/**
+ * @function wrapError
+ * @description Creates an error of the given class whose cause is the original error
+ * @param {unknown} error - The original error
+ * @param {Function} ErrorClass - The class of the new error
+ * @param {...any} args - The arguments of the class's constructor, without the options
+ * @returns {CustomError} The new error
+ *
+ * @example
+ * try {
+ *   await db.query(sql);
+ * } catch (error) {
+ *   throw wrapError(error, DatabaseError, 'Failed to load orders', 'select');
+ * }
+ */
+export function wrapError<C extends new (...args: any[]) => CustomError>(error: unknown, ErrorClass: C, ...args: ConstructorParameters<C>): InstanceType<C> {
+    const wrapped = new ErrorClass(...args) as InstanceType<C>;
+    Object.defineProperty(wrapped, 'cause', { value: error, writable: true, configurable: true });
+    return wrapped;
+}
+
+/**
+ * @function rootCause
+ * @description Follows the `cause` chain of an error to its end
+ * @param {unknown} error - The error
+ * @returns {unknown} The deepest cause, or the error itself if it has no cause
+ *
+ * @example
+ * rootCause(networkError); // Error: connect ECONNREFUSED 10.0.0.1:443
+ */
+export function rootCause(error: unknown): unknown {
+    const chain = causeChain(error);
+    return chain[chain.length - 1];
+}
+
+/**
+ * @function causeChain
+ * @description Lists an error followed by its causes, stopping at the first repeated error
+ * @param {unknown} error - The error
+ * @returns {unknown[]} The error and its causes
+ */
+function causeChain(error: unknown): unknown[] {
+    const chain = [error];
+    let current = error;
+    while (current instanceof Error && current.cause !== undefined && !chain.includes(current.cause)) {
+        current = current.cause;
+        chain.push(current);
+    }
+    return chain;
+}
+
+/**
+ * @function isErrorJSON
+ * @description Checks whether a value looks like a serialized error
+ * @param {unknown} value - The value
+ * @returns {boolean}
+ */
+function isErrorJSON(value: unknown): value is CustomErrorJSON {
+    return typeof value === 'object' && value !== null && typeof (value as CustomErrorJSON).message === 'string' && typeof (value as CustomErrorJSON).name === 'string';
+}
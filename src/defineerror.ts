@@ -0,0 +1,129 @@
+/**
+ * @module defineerror
+ * @description This module provides `defineError`, which creates CustomError subclasses from a declaration:
+ * name, code, HTTP status, typed fields and a message template. The classes are registered for `CustomError.fromJSON`
+ * and answered with their status by `errorHandler`.
+ */
+
+import { CustomError, CustomErrorOptions } from './customerror';
+import { formatMessage } from './localization';
+import { ObjectOutput, Shape } from './validation';
+
+/**
+ * Fields every CustomError has, which a declared field would overwrite
+ */
+const RESERVED_FIELDS = new Set(['message', 'name', 'code', 'cause', 'stack', 'messageKey', 'messageParams']);
+
+/**
+ * The declaration of an error class.
+ * @typedef {Object} ErrorDefinition
+ * @property {string} name - The class name, e.g. 'OrderNotFoundError'
+ * @property {string} [code] - The stable code. Defaults to the name in UPPER_SNAKE case, e.g. 'ORDER_NOT_FOUND_ERROR'.
+ * @property {number} [httpStatus] - The status `errorHandler` answers with. Defaults to 500.
+ * @property {Shape} [fields] - The schema of each field, e.g. `{ orderId: schema.string() }`, which types the constructor and instances.
+ * The schemas are for types only: values are not validated at runtime, so that creating an error never throws another.
+ * The fields of CustomError (message, name, code, cause, stack, messageKey and messageParams) cannot be declared.
+ * @property {string} message - The message, where `{field}` inserts the value of a field, e.g. 'Order {orderId} not found'
+ * @property {string} [messageKey] - The key of the localized message, whose parameters are the fields. See `Localizer`.
+ */
+export interface ErrorDefinition<S extends Shape> {
+    name: string;
+    code?: string;
+    httpStatus?: number;
+    fields?: S;
+    message: string;
+    messageKey?: string;
+}
+
+/**
+ * An instance of a class created by `defineError`, with its fields.
+ */
+export type DefinedError<S extends Shape> = CustomError & Readonly<ObjectOutput<S>>;
+
+/**
+ * The constructor arguments of a class created by `defineError`. The fields may be left out if none is required.
+ */
+export type DefinedErrorArgs<S extends Shape> = object extends ObjectOutput<S>
+    ? [fields?: ObjectOutput<S>, options?: CustomErrorOptions]
+    : [fields: ObjectOutput<S>, options?: CustomErrorOptions];
+
+/**
+ * A class created by `defineError`.
+ */
+export interface DefinedErrorClass<S extends Shape> {
+    new (...args: DefinedErrorArgs<S>): DefinedError<S>;
+    readonly prototype: DefinedError<S>;
+    readonly code?: string | undefined;
+    readonly httpStatus?: number | undefined;
+}
+
+/**
+ * @function defineError
+ * @description Creates a CustomError subclass. Its constructor takes the fields and optional `CustomErrorOptions`, the message is
+ * rendered from the template, and `log()` writes the message followed by the fields the template does not mention.
+ * The class is registered for `CustomError.fromJSON`, so defining two classes with the same code throws.
+ * The field schemas only type the class; the values passed to the constructor are copied without validation.
+ * @param {ErrorDefinition} definition - The name, code, HTTP status, fields and message template
+ * @returns {DefinedErrorClass} The error class
+ * @throws {TypeError} If a field is named like a field of CustomError, or another class is registered under the same code
+ *
+ * @example
+ * export const OrderNotFoundError = defineError({
+ *   name: 'OrderNotFoundError',
+ *   code: 'SHOP_ORDER_NOT_FOUND',
+ *   httpStatus: 404,
+ *   fields: { orderId: schema.string(), storeId: schema.number().optional() },
+ *   message: 'Order {orderId} not found',
+ * });
+ * export type OrderNotFound = InstanceType<typeof OrderNotFoundError>;
+ *
+ * throw new OrderNotFoundError({ orderId: 'o-7' }, { cause: error });
+ */
+export function defineError<S extends Shape = Record<never, never>>(definition: ErrorDefinition<S>): DefinedErrorClass<S> {
+    const { name, message } = definition;
+    const keys = Object.keys(definition.fields ?? {});
+    const reserved = keys.filter(key => RESERVED_FIELDS.has(key));
+    if (reserved.length > 0) {
+        throw new TypeError(`${name} cannot declare the reserved field${reserved.length === 1 ? '' : 's'} ${reserved.join(', ')}`);
+    }
+    const logged = keys.filter(key => !message.includes(`{${key}}`));
+
+    const DefinedErrorClass = class extends CustomError {
+        constructor(fields: Record<string, unknown> = {}, options?: CustomErrorOptions) {
+            super(name, formatMessage(message, fields), {
+                ...(definition.messageKey && { messageKey: definition.messageKey, messageParams: fields }),
+                ...options,
+            });
+            for (const key of keys) {
+                if (fields[key] !== undefined) {
+                    (this as Record<string, unknown>)[key] = fields[key];
+                }
+            }
+        }
+
+        log(logger: any): void {
+            const values = logged
+                .filter(key => (this as Record<string, unknown>)[key] !== undefined)
+                .map(key => `${labelOf(key)}: ${String((this as Record<string, unknown>)[key])}`);
+            logger.error(`${labelOf(name)}: ${this.message}${values.length > 0 ? ` (${values.join(', ')})` : ''}${this.describeCauses()}`);
+        }
+    };
+    Object.defineProperty(DefinedErrorClass, 'name', { value: name });
+    Object.assign(DefinedErrorClass, {
+        ...(definition.code && { code: definition.code }),
+        ...(definition.httpStatus && { httpStatus: definition.httpStatus }),
+    });
+
+    CustomError.register(DefinedErrorClass);
+    return DefinedErrorClass as unknown as DefinedErrorClass<S>;
+}
+
+/**
+ * @function labelOf
+ * @description Turns a class or field name into a label, e.g. 'OrderNotFoundError' into 'Order Not Found Error'
+ * @returns {string}
+ */
+function labelOf(name: string): string {
+    const spaced = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+    return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
@@ -0,0 +1,178 @@
+/**
+ * @module errorhandler
+ * @description This module provides an Express error-handling middleware that turns errors into RFC 7807
+ * `application/problem+json` responses, with the status and headers matching each CustomError subclass.
+ */
+
+import { STATUS_CODES } from 'http';
+import { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
+import { CustomError, CustomErrorClass } from './customerror';
+import { ApiError, AuthenticationError, AuthorizationError, RateLimitError, UnexpectedError, ValidationError, ValidationIssue } from './errors';
+import { ErrorTracker } from './errortracker';
+import { Localizer } from './localization';
+import { Logger } from './logger';
+
+/**
+ * An RFC 7807 problem details object.
+ * @typedef {Object} ProblemDetails
+ * @property {string} type - A URI identifying the problem type, 'about:blank' by default
+ * @property {string} title - The reason phrase of the status
+ * @property {number} status - The HTTP status
+ * @property {string} [detail] - The error's localized or own message. In production, the own message of an unexpected error is hidden.
+ * @property {string} [instance] - The request URL
+ * @property {string} [code] - The stable code of a CustomError
+ * @property {string} [requestId] - The request ID set by the beverost middleware
+ * @property {string[]} [fields] - The invalid fields of a ValidationError
+ * @property {ValidationIssue[]} [issues] - The issues of a ValidationError: path, rule, expected value and received type, redacted by the logger
+ * @property {number} [retryAfter] - The seconds to wait after a RateLimitError
+ * @property {string} [stack] - The stack trace, outside production only
+ */
+export interface ProblemDetails {
+    type: string;
+    title: string;
+    status: number;
+    detail?: string;
+    instance?: string;
+    code?: string;
+    requestId?: string;
+    fields?: string[];
+    issues?: ValidationIssue[];
+    retryAfter?: number;
+    stack?: string;
+    [extension: string]: unknown;
+}
+
+/**
+ * Options for the error-handling middleware.
+ * @typedef {Object} ErrorHandlerOptions
+ * @property {Logger|Console} [logger=console] - Receives every error, through the error's own `log()` method for CustomErrors
+ * @property {boolean} [production] - Hide stacks and the messages of unexpected errors: UnexpectedErrors, errors that are not CustomErrors and errors answered with a 5xx status. Defaults to NODE_ENV being 'production'.
+ * @property {string} [typeBaseUrl] - Problem types become this URL followed by the lower-case error code, e.g. 'https://errors.example.com/bev_rate_limit'
+ * @property {string} [authenticateChallenge='Bearer'] - The WWW-Authenticate header of 401 responses
+ * @property {Object<string, number>} [statuses] - Statuses by error code, overriding the built-in mapping
+ * @property {ErrorTracker} [tracker] - Records every error with the request method, URL and ID
+ * @property {Localizer} [localizer] - Translates the `detail` of errors with a message key into the locale negotiated from Accept-Language
+ */
+export interface ErrorHandlerOptions {
+    logger?: Logger<string> | Console;
+    production?: boolean;
+    typeBaseUrl?: string;
+    authenticateChallenge?: string;
+    statuses?: Record<string, number>;
+    tracker?: ErrorTracker;
+    localizer?: Localizer;
+}
+
+/**
+ * A problem response: its status, headers and body.
+ * @typedef {Object} ProblemResponse
+ * @property {number} status - The HTTP status
+ * @property {Object<string, string>} headers - Headers to set besides Content-Type, such as Retry-After or Content-Language
+ * @property {ProblemDetails} body - The problem details
+ */
+export interface ProblemResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: ProblemDetails;
+}
+
+/**
+ * @function toProblemResponse
+ * @description Maps an error to a problem response.
+ * ValidationError is 422 with its fields and issues, AuthenticationError 401 with a WWW-Authenticate header, AuthorizationError 403,
+ * RateLimitError 429 with a Retry-After header, ApiError its own status, other CustomErrors the static `httpStatus`
+ * of their class, and anything else 500.
+ * @param {unknown} error - The error
+ * With a localizer, the detail of errors with a message key is translated and the response gets a Content-Language header.
+ * @param {ErrorHandlerOptions} [options] - Statuses, problem types, the localizer and whether stacks and internal messages are hidden
+ * @param {Request} [req] - The request, for the `instance` and `requestId` fields and the Accept-Language header
+ * @returns {ProblemResponse} The problem response
+ */
+export function toProblemResponse(error: unknown, options: ErrorHandlerOptions = {}, req?: Request & { requestId?: string }): ProblemResponse {
+    const production = options.production ?? process.env['NODE_ENV'] === 'production';
+    const headers: Record<string, string> = {};
+    const extensions: Partial<ProblemDetails> = {};
+    let status = 500;
+
+    if (error instanceof ValidationError) {
+        status = 422;
+        if (error.fields) extensions.fields = error.fields;
+        if (error.issues) extensions.issues = options.logger instanceof Logger ? options.logger.redact(error.issues) : error.issues;
+    } else if (error instanceof AuthenticationError) {
+        status = 401;
+        headers['WWW-Authenticate'] = options.authenticateChallenge ?? 'Bearer';
+    } else if (error instanceof AuthorizationError) {
+        status = 403;
+    } else if (error instanceof RateLimitError) {
+        status = 429;
+        if (error.retryAfter !== undefined) {
+            headers['Retry-After'] = String(Math.ceil(error.retryAfter));
+            extensions.retryAfter = error.retryAfter;
+        }
+    } else if (error instanceof ApiError && error.status >= 400 && error.status <= 599) {
+        status = error.status;
+    } else if (error instanceof CustomError) {
+        status = (error.constructor as CustomErrorClass).httpStatus ?? status;
+    }
+
+    const code = error instanceof CustomError ? error.classCode : undefined;
+    status = (code !== undefined && options.statuses?.[code]) || status;
+
+    const localized = options.localizer?.localize(error, options.localizer.negotiate(req?.headers['accept-language']));
+    if (options.localizer) {
+        headers['Vary'] = 'Accept-Language';
+    }
+    if (localized) {
+        headers['Content-Language'] = localized.locale;
+    }
+
+    // Messages of 5xx errors describe internal failures, such as a deadlock or an upstream host, rather than the request
+    const expected = error instanceof CustomError && !(error instanceof UnexpectedError) && status < 500;
+    const detail = localized?.text ?? (expected || !production ? (error instanceof Error ? error.message : String(error)) : undefined);
+    const body: ProblemDetails = {
+        type: options.typeBaseUrl && code ? `${options.typeBaseUrl}${code.toLowerCase()}` : 'about:blank',
+        title: STATUS_CODES[status] ?? 'Unknown Error',
+        status,
+        ...(detail !== undefined && { detail }),
+        ...(req && { instance: req.originalUrl ?? req.url }),
+        ...(code && { code }),
+        ...(req?.requestId && { requestId: req.requestId }),
+        ...extensions,
+        ...(!production && error instanceof Error && error.stack && { stack: error.stack }),
+    };
+    return { status, headers, body };
+}
+
+/**
+ * @function errorHandler
+ * @description Creates an Express error-handling middleware that logs and optionally tracks each error, and answers with
+ * `application/problem+json`. CustomErrors are logged through their own `log()` method, other errors with `logger.error`.
+ * Errors raised after the response has started are passed on to Express.
+ * @param {ErrorHandlerOptions} [options] - The logger, statuses, problem types and production mode
+ * @returns {ErrorRequestHandler} The middleware. Register it after every route.
+ *
+ * @example
+ * app.use(beverost);
+ * app.use('/orders', ordersRouter);
+ * app.use(errorHandler({ logger, typeBaseUrl: 'https://errors.example.com/' }));
+ */
+export function errorHandler(options: ErrorHandlerOptions = {}): ErrorRequestHandler {
+    const logger = options.logger ?? console;
+
+    return (error: unknown, req: Request & { requestId?: string }, res: Response, next: NextFunction) => {
+        if (error instanceof CustomError) {
+            error.log(logger);
+        } else {
+            logger.error(error instanceof Error ? error : String(error));
+        }
+        options.tracker?.track(error, { method: req.method, url: req.originalUrl ?? req.url, ...(req.requestId && { requestId: req.requestId }) });
+
+        if (res.headersSent) {
+            next(error);
+            return;
+        }
+
+        const { status, headers, body } = toProblemResponse(error, options, req);
+        res.status(status).set(headers).type('application/problem+json').send(JSON.stringify(body));
+    };
+}
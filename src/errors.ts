@@ -18,28 +18,38 @@
  * - LogDirectoryNotFoundError: Represents errors that occur when a log directory is not found.
  * - LogFileOperationError: Represents errors that occur during log file operations.
  * - LoggerInitializationError: Represents errors that occur during logger initialization.
+ * - UnexpectedError: Represents a thrown value that none of the other classes describes.
  * 
  * These custom error classes allow for more precise error handling and logging throughout the application.
  * They provide additional context and information specific to each error type, enhancing debugging and error reporting capabilities.
  * 
  * Each error class includes a constructor for creating instances with relevant error details and a log method for consistent error logging.
+ * Each class also has a stable `code`, such as 'BEV_RATE_LIMIT', and is registered so that `CustomError.fromJSON` can rebuild it.
+ * Each class has a default message key, such as 'beverost.rateLimit', whose English text is in `DEFAULT_MESSAGES`
+ * and whose parameters are the fields of the error, e.g. `{ retryAfter }`.
+ * Every constructor accepts `CustomErrorOptions` as its last argument, so errors can keep the error that caused them
+ * and a message key for localized client messages.
  */
 
-import { CustomError } from './customerror';
+import { CustomError, CustomErrorOptions } from './customerror';
 
 /**
  * Represents an error that occurs during API operations.
  * @extends CustomError
  */
 export class ApiError extends CustomError {
+    static readonly code = 'BEV_API';
+    static readonly messageKey = 'beverost.api';
+
     /**
      * Creates an instance of ApiError.
      * @param {number} status - The HTTP status code associated with the error.
      * @param {string} message - The error message.
      * @param {string} [requestId] - The optional request ID associated with the API call.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(public readonly status: number, message: string, public readonly requestId?: string) {
-        super('ApiError', message);
+    constructor(public readonly status: number, message: string, public readonly requestId?: string, options?: CustomErrorOptions) {
+        super('ApiError', message, options);
     }
 
     /**
@@ -47,7 +57,7 @@ export class ApiError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`API Error ${this.status}: ${this.message}${this.requestId ? ` (Request ID: ${this.requestId})` : ''}`);
+        logger.error(`API Error ${this.status}: ${this.message}${this.requestId ? ` (Request ID: ${this.requestId})` : ''}${this.describeCauses()}`);
     }
 }
 
@@ -56,13 +66,28 @@ export class ApiError extends CustomError {
  * @extends CustomError
  */
 export class NetworkError extends CustomError {
+    static readonly code = 'BEV_NETWORK';
+    static readonly messageKey = 'beverost.network';
+
+    /**
+     * The detail of the failure if one was given, else 'BEV_NETWORK'.
+     * @deprecated `code` held the detail before errors had stable codes, and still does for compatibility.
+     * Read `detail` for the detail and `classCode` for the stable code.
+     * @type {string}
+     */
+    declare public readonly code: string;
+
     /**
      * Creates an instance of NetworkError.
      * @param {string} message - The error message.
-     * @param {string} [code] - The optional error code associated with the network error.
+     * @param {string} [detail] - The optional detail of the network failure, such as 'TIMEOUT' or the underlying error message.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly code?: string) {
-        super('NetworkError', message);
+    constructor(message: string, public readonly detail?: string, options?: CustomErrorOptions) {
+        super('NetworkError', message, options);
+        if (detail !== undefined) {
+            Object.assign(this, { code: detail });
+        }
     }
 
     /**
@@ -70,7 +95,7 @@ export class NetworkError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`Network Error${this.code ? ` (${this.code})` : ''}: ${this.message}`);
+        logger.error(`Network Error${this.detail ? ` (${this.detail})` : ''}: ${this.message}${this.describeCauses()}`);
     }
 }
 
@@ -79,13 +104,17 @@ export class NetworkError extends CustomError {
  * @extends CustomError
  */
 export class ParseError extends CustomError {
+    static readonly code = 'BEV_PARSE';
+    static readonly messageKey = 'beverost.parse';
+
     /**
      * Creates an instance of ParseError.
      * @param {string} message - The error message.
      * @param {string} [source] - The optional source of the parsing error.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly source?: string) {
-        super('ParseError', message);
+    constructor(message: string, public readonly source?: string, options?: CustomErrorOptions) {
+        super('ParseError', message, options);
     }
 
     /**
@@ -93,22 +122,61 @@ export class ParseError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`Parse Error${this.source ? ` in ${this.source}` : ''}: ${this.message}`);
+        logger.error(`Parse Error${this.source ? ` in ${this.source}` : ''}: ${this.message}${this.describeCauses()}`);
     }
 }
 
+/**
+ * Describes one value that failed validation.
+ * @typedef {Object} ValidationIssue
+ * @property {(string|number)[]} path - Where the value is, e.g. ['body', 'items', 0, 'quantity']
+ * @property {string} rule - The rule that failed, e.g. 'type', 'required', 'min' or 'enum'
+ * @property {unknown} expected - What the rule expected, e.g. 'string', 1 or ['card', 'invoice']
+ * @property {string} received - The type of the value that was received, e.g. 'number', 'null' or 'array'. The value itself is left out.
+ * @property {string} message - What is wrong with the value.
+ */
+export interface ValidationIssue {
+    path: (string | number)[];
+    rule: string;
+    expected: unknown;
+    received: string;
+    message: string;
+}
+
+/**
+ * The options of the ValidationError constructor.
+ * @typedef {Object} ValidationErrorOptions
+ * @property {ValidationIssue[]} [issues] - Every failed value, as produced by schema validation
+ */
+export interface ValidationErrorOptions extends CustomErrorOptions {
+    issues?: ValidationIssue[];
+}
+
 /**
  * Represents an error that occurs during data validation.
  * @extends CustomError
  */
 export class ValidationError extends CustomError {
+    static readonly code = 'BEV_VALIDATION';
+    static readonly messageKey = 'beverost.validation';
+
+    /**
+     * The list of every failed value, as produced by schema validation
+     * @type {ValidationIssue[] | undefined}
+     */
+    declare public readonly issues?: ValidationIssue[];
+
     /**
      * Creates an instance of ValidationError.
      * @param {string} message - The error message.
      * @param {string[]} [fields] - The optional array of field names that failed validation.
+     * @param {ValidationErrorOptions} [options] - The optional issues, cause and message key of the error.
      */
-    constructor(message: string, public readonly fields?: string[]) {
-        super('ValidationError', message);
+    constructor(message: string, public readonly fields?: string[], options?: ValidationErrorOptions) {
+        super('ValidationError', message, options);
+        if (options?.issues) {
+            Object.assign(this, { issues: options.issues });
+        }
     }
 
     /**
@@ -116,7 +184,7 @@ export class ValidationError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`Validation Error: ${this.message}${this.fields ? ` (Fields: ${this.fields.join(', ')})` : ''}`);
+        logger.error(`Validation Error: ${this.message}${this.fields ? ` (Fields: ${this.fields.join(', ')})` : ''}${this.describeCauses()}`);
     }
 }
 
@@ -125,13 +193,17 @@ export class ValidationError extends CustomError {
  * @extends CustomError
  */
 export class AuthenticationError extends CustomError {
+    static readonly code = 'BEV_AUTHENTICATION';
+    static readonly messageKey = 'beverost.authentication';
+
     /**
      * Creates an instance of AuthenticationError.
      * @param {string} message - The error message.
      * @param {string} [userId] - The optional user ID associated with the authentication error.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly userId?: string) {
-        super('AuthenticationError', message);
+    constructor(message: string, public readonly userId?: string, options?: CustomErrorOptions) {
+        super('AuthenticationError', message, options);
     }
 
     /**
@@ -139,7 +211,7 @@ export class AuthenticationError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`Authentication Error: ${this.message}${this.userId ? ` (User ID: ${this.userId})` : ''}`);
+        logger.error(`Authentication Error: ${this.message}${this.userId ? ` (User ID: ${this.userId})` : ''}${this.describeCauses()}`);
     }
 }
 
@@ -148,14 +220,18 @@ export class AuthenticationError extends CustomError {
  * @extends CustomError
  */
 export class AuthorizationError extends CustomError {
+    static readonly code = 'BEV_AUTHORIZATION';
+    static readonly messageKey = 'beverost.authorization';
+
     /**
      * Creates an instance of AuthorizationError.
      * @param {string} message - The error message.
      * @param {string} [resource] - The optional resource that the user is not authorized to access.
      * @param {string} [action] - The optional action that the user is not authorized to perform.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly resource?: string, public readonly action?: string) {
-        super('AuthorizationError', message);
+    constructor(message: string, public readonly resource?: string, public readonly action?: string, options?: CustomErrorOptions) {
+        super('AuthorizationError', message, options);
     }
 
     /**
@@ -163,7 +239,7 @@ export class AuthorizationError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`Authorization Error: ${this.message}${this.resource ? ` (Resource: ${this.resource})` : ''}${this.action ? ` (Action: ${this.action})` : ''}`);
+        logger.error(`Authorization Error: ${this.message}${this.resource ? ` (Resource: ${this.resource})` : ''}${this.action ? ` (Action: ${this.action})` : ''}${this.describeCauses()}`);
     }
 }
 
@@ -172,13 +248,17 @@ export class AuthorizationError extends CustomError {
  * @extends CustomError
  */
 export class RateLimitError extends CustomError {
+    static readonly code = 'BEV_RATE_LIMIT';
+    static readonly messageKey = 'beverost.rateLimit';
+
     /**
      * Creates an instance of RateLimitError.
      * @param {string} message - The error message.
      * @param {number} [retryAfter] - The optional number of seconds after which the client can retry the request.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly retryAfter?: number) {
-        super('RateLimitError', message);
+    constructor(message: string, public readonly retryAfter?: number, options?: CustomErrorOptions) {
+        super('RateLimitError', message, options);
     }
 
     /**
@@ -186,7 +266,7 @@ export class RateLimitError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`Rate Limit Error: ${this.message}${this.retryAfter ? ` (Retry After: ${this.retryAfter}s)` : ''}`);
+        logger.error(`Rate Limit Error: ${this.message}${this.retryAfter ? ` (Retry After: ${this.retryAfter}s)` : ''}${this.describeCauses()}`);
     }
 }
 
@@ -195,13 +275,17 @@ export class RateLimitError extends CustomError {
  * @extends CustomError
  */
 export class DatabaseError extends CustomError {
+    static readonly code = 'BEV_DATABASE';
+    static readonly messageKey = 'beverost.database';
+
     /**
      * Creates an instance of DatabaseError.
      * @param {string} message - The error message.
      * @param {string} [operation] - The optional database operation that caused the error.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly operation?: string) {
-        super('DatabaseError', message);
+    constructor(message: string, public readonly operation?: string, options?: CustomErrorOptions) {
+        super('DatabaseError', message, options);
     }
 
     /**
@@ -209,22 +293,38 @@ export class DatabaseError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`Database Error: ${this.message}${this.operation ? ` (Operation: ${this.operation})` : ''}`);
+        logger.error(`Database Error: ${this.message}${this.operation ? ` (Operation: ${this.operation})` : ''}${this.describeCauses()}`);
     }
 }
 
+/**
+ * Describes one invalid configuration key.
+ * @typedef {Object} ConfigurationIssue
+ * @property {string} key - The configuration key.
+ * @property {string} message - What is wrong with its value.
+ */
+export interface ConfigurationIssue {
+    key: string;
+    message: string;
+}
+
 /**
  * Represents an error that occurs due to configuration issues.
  * @extends CustomError
  */
 export class ConfigurationError extends CustomError {
+    static readonly code = 'BEV_CONFIGURATION';
+    static readonly messageKey = 'beverost.configuration';
+
     /**
      * Creates an instance of ConfigurationError.
      * @param {string} message - The error message.
      * @param {string} [configKey] - The optional configuration key that caused the error.
+     * @param {ConfigurationIssue[]} [issues] - The optional list of every invalid key when several keys were checked at once.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly configKey?: string) {
-        super('ConfigurationError', message);
+    constructor(message: string, public readonly configKey?: string, public readonly issues?: ConfigurationIssue[], options?: CustomErrorOptions) {
+        super('ConfigurationError', message, options);
     }
 
     /**
@@ -232,7 +332,7 @@ export class ConfigurationError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`Configuration Error: ${this.message}${this.configKey ? ` (Config Key: ${this.configKey})` : ''}`);
+        logger.error(`Configuration Error: ${this.message}${this.configKey ? ` (Config Key: ${this.configKey})` : ''}${this.describeCauses()}`);
     }
 }
 
@@ -241,13 +341,17 @@ export class ConfigurationError extends CustomError {
  * @extends CustomError
  */
 export class ExternalServiceError extends CustomError {
+    static readonly code = 'BEV_EXTERNAL_SERVICE';
+    static readonly messageKey = 'beverost.externalService';
+
     /**
      * Creates an instance of ExternalServiceError.
      * @param {string} message - The error message.
      * @param {string} serviceName - The name of the external service that caused the error.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly serviceName: string) {
-        super('ExternalServiceError', message);
+    constructor(message: string, public readonly serviceName: string, options?: CustomErrorOptions) {
+        super('ExternalServiceError', message, options);
     }
 
     /**
@@ -255,7 +359,7 @@ export class ExternalServiceError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     log(logger: any): void {
-        logger.error(`External Service Error (${this.serviceName}): ${this.message}`);
+        logger.error(`External Service Error (${this.serviceName}): ${this.message}${this.describeCauses()}`);
     }
 }
 
@@ -264,13 +368,17 @@ export class ExternalServiceError extends CustomError {
  * @extends CustomError
  */
 export class FileNotFoundError extends CustomError {
+    static readonly code = 'BEV_FILE_NOT_FOUND';
+    static readonly messageKey = 'beverost.fileNotFound';
+
     /**
      * Creates an instance of FileNotFoundError.
      * @param {string} message - The error message.
      * @param {string} [path] - The optional file path that was not found.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly path?: string) {
-        super('FileNotFoundError', message);
+    constructor(message: string, public readonly path?: string, options?: CustomErrorOptions) {
+        super('FileNotFoundError', message, options);
     }
 
     /**
@@ -278,7 +386,7 @@ export class FileNotFoundError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     public log(logger: any): void {
-        logger.error(`File Not Found Error: ${this.message}${this.path ? ` (Path: ${this.path})` : ''}`);
+        logger.error(`File Not Found Error: ${this.message}${this.path ? ` (Path: ${this.path})` : ''}${this.describeCauses()}`);
     }
 }
 
@@ -287,13 +395,17 @@ export class FileNotFoundError extends CustomError {
  * @extends CustomError
  */
 export class LogDirectoryNotFoundError extends CustomError {
+    static readonly code = 'BEV_LOG_DIRECTORY_NOT_FOUND';
+    static readonly messageKey = 'beverost.logDirectoryNotFound';
+
     /**
      * Creates an instance of LogDirectoryNotFoundError.
      * @param {string} message - The error message.
      * @param {string} directoryPath - The path of the log directory that was not found.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly directoryPath: string) {
-        super('LogDirectoryNotFoundError', message);
+    constructor(message: string, public readonly directoryPath: string, options?: CustomErrorOptions) {
+        super('LogDirectoryNotFoundError', message, options);
     }
 
     /**
@@ -301,7 +413,7 @@ export class LogDirectoryNotFoundError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     public log(logger: any): void {
-        logger.error(`Log Directory Not Found Error: ${this.message} (Directory: ${this.directoryPath})`);
+        logger.error(`Log Directory Not Found Error: ${this.message} (Directory: ${this.directoryPath})${this.describeCauses()}`);
     }
 }
 
@@ -310,14 +422,18 @@ export class LogDirectoryNotFoundError extends CustomError {
  * @extends CustomError
  */
 export class LogFileOperationError extends CustomError {
+    static readonly code = 'BEV_LOG_FILE_OPERATION';
+    static readonly messageKey = 'beverost.logFileOperation';
+
     /**
      * Creates an instance of LogFileOperationError.
      * @param {string} message - The error message.
      * @param {string} filePath - The path of the log file that caused the error.
      * @param {string} [operation] - The optional operation that was being performed on the log file.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly filePath: string, public readonly operation?: string) {
-        super('LogFileOperationError', message);
+    constructor(message: string, public readonly filePath: string, public readonly operation?: string, options?: CustomErrorOptions) {
+        super('LogFileOperationError', message, options);
     }
 
     /**
@@ -325,7 +441,7 @@ export class LogFileOperationError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     public log(logger: any): void {
-        logger.error(`Log File Operation Error: ${this.message} (File: ${this.filePath}${this.operation ? `, Operation: ${this.operation}` : ''})`);
+        logger.error(`Log File Operation Error: ${this.message} (File: ${this.filePath}${this.operation ? `, Operation: ${this.operation}` : ''})${this.describeCauses()}`);
     }
 }
 
@@ -334,13 +450,17 @@ export class LogFileOperationError extends CustomError {
  * @extends CustomError
  */
 export class LoggerInitializationError extends CustomError {
+    static readonly code = 'BEV_LOGGER_INITIALIZATION';
+    static readonly messageKey = 'beverost.loggerInitialization';
+
     /**
      * Creates an instance of LoggerInitializationError.
      * @param {string} message - The error message.
      * @param {string} [component] - The optional component that failed during logger initialization.
+     * @param {CustomErrorOptions} [options] - The optional cause and message key of the error.
      */
-    constructor(message: string, public readonly component?: string) {
-        super('LoggerInitializationError', message);
+    constructor(message: string, public readonly component?: string, options?: CustomErrorOptions) {
+        super('LoggerInitializationError', message, options);
     }
 
     /**
@@ -348,6 +468,51 @@ export class LoggerInitializationError extends CustomError {
      * @param {any} logger - The logger object used for logging the error.
      */
     public log(logger: any): void {
-        logger.error(`Logger Initialization Error: ${this.message}${this.component ? ` (Component: ${this.component})` : ''}`);
+        logger.error(`Logger Initialization Error: ${this.message}${this.component ? ` (Component: ${this.component})` : ''}${this.describeCauses()}`);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Represents a thrown value that none of the other error classes describes, such as a TypeError from a bug
+ * or a string thrown by a library. The thrown value is kept as the cause.
+ * @extends CustomError
+ */
+export class UnexpectedError extends CustomError {
+    static readonly code = 'BEV_UNEXPECTED';
+    static readonly messageKey = 'beverost.unexpected';
+
+    /**
+     * Creates an instance of UnexpectedError.
+     * @param {string} message - The error message.
+     * @param {CustomErrorOptions} [options] - The thrown value as the cause, and the optional message key of the error.
+     */
+    constructor(message: string, options?: CustomErrorOptions) {
+        super('UnexpectedError', message, options);
+    }
+
+    /**
+     * Logs the unexpected error details.
+     * @param {any} logger - The logger object used for logging the error.
+     */
+    public log(logger: any): void {
+        logger.error(`Unexpected Error: ${this.message}${this.describeCauses()}`);
+    }
+}
+
+CustomError.register(
+    ApiError,
+    NetworkError,
+    ParseError,
+    ValidationError,
+    AuthenticationError,
+    AuthorizationError,
+    RateLimitError,
+    DatabaseError,
+    ConfigurationError,
+    ExternalServiceError,
+    FileNotFoundError,
+    LogDirectoryNotFoundError,
+    LogFileOperationError,
+    LoggerInitializationError,
+    UnexpectedError
+);
@@ -0,0 +1,359 @@
+/**
+ * @module errortracker
+ * @description This module provides an in-process error tracker. Errors are grouped by a fingerprint of their class,
+ * code and normalized stack frames, and each group keeps its count, first and last occurrence and a few samples.
+ * Groups can be queried at any time and summarized periodically through a Logger.
+ */
+
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { types } from 'util';
+import { CustomError } from './customerror';
+import { Logger } from './logger';
+import { RedactionOptions, Redactor, createRedactor } from './redaction';
+import { normalizeError } from './result';
+import { SerializedError, serializeError } from './serialization';
+
+/**
+ * Options for an ErrorTracker.
+ * @typedef {Object} ErrorTrackerOptions
+ * @property {number} [maxGroups=500] - The number of groups kept. The group seen least recently is dropped first.
+ * @property {number} [maxSamples=5] - The number of recent samples kept per group
+ * @property {number} [stackFrames=5] - The number of top stack frames in the fingerprint
+ * @property {Logger} [logger] - Receives the periodic summaries. Its redaction also applies to the samples unless `redact` is set.
+ * @property {RedactionOptions} [redact] - What to redact from the messages, errors and contexts of the samples
+ * @property {number} [summaryIntervalMs] - Log a summary of the errors tracked since the previous one at this interval. Needs `logger`.
+ * @property {number} [summaryLimit=5] - The number of groups listed in each summary
+ */
+export interface ErrorTrackerOptions {
+    maxGroups?: number;
+    maxSamples?: number;
+    stackFrames?: number;
+    logger?: Logger<string>;
+    redact?: RedactionOptions;
+    summaryIntervalMs?: number;
+    summaryLimit?: number;
+}
+
+/**
+ * One tracked occurrence of an error.
+ * @typedef {Object} ErrorSample
+ * @property {Date} timestamp - When the error was tracked
+ * @property {SerializedError} error - The error with its fields, stack and causes
+ * @property {Object} [context] - What was passed along with the error, e.g. the request
+ */
+export interface ErrorSample {
+    timestamp: Date;
+    error: SerializedError;
+    context?: Record<string, unknown>;
+}
+
+/**
+ * The errors sharing one fingerprint.
+ * @typedef {Object} ErrorGroup
+ * @property {string} fingerprint - The fingerprint
+ * @property {string} name - The error class, e.g. 'DatabaseError'
+ * @property {string} [code] - The error code, e.g. 'BEV_DATABASE' or 'ECONNREFUSED'
+ * @property {string} message - The message of the latest occurrence
+ * @property {string[]} frames - The normalized stack frames in the fingerprint
+ * @property {number} count - The number of occurrences
+ * @property {Date} firstSeen - The first occurrence
+ * @property {Date} lastSeen - The latest occurrence
+ * @property {ErrorSample[]} samples - The latest occurrences, oldest first
+ */
+export interface ErrorGroup {
+    fingerprint: string;
+    name: string;
+    code?: string;
+    message: string;
+    frames: string[];
+    count: number;
+    firstSeen: Date;
+    lastSeen: Date;
+    samples: ErrorSample[];
+}
+
+/**
+ * A query for error groups.
+ * @typedef {Object} ErrorGroupQuery
+ * @property {string} [name] - Only groups of this error class
+ * @property {string} [code] - Only groups with this code
+ * @property {Date} [since] - Only groups seen at or after this time
+ * @property {string} [sortBy='count'] - 'count' for the most frequent groups first, 'lastSeen' for the most recent
+ * @property {number} [limit] - The maximum number of groups
+ */
+export interface ErrorGroupQuery {
+    name?: string;
+    code?: string;
+    since?: Date;
+    sortBy?: 'count' | 'lastSeen';
+    limit?: number;
+}
+
+/**
+ * Totals of an ErrorTracker.
+ * @typedef {Object} ErrorTrackerStats
+ * @property {number} total - The number of errors tracked
+ * @property {number} groups - The number of groups kept
+ * @property {number} evictedGroups - The number of groups dropped to stay within `maxGroups`
+ */
+export interface ErrorTrackerStats {
+    total: number;
+    groups: number;
+    evictedGroups: number;
+}
+
+/**
+ * Groups errors by fingerprint and keeps statistics about each group.
+ *
+ * @class
+ *
+ * @example
+ * const tracker = new ErrorTracker({ logger, summaryIntervalMs: 60_000 });
+ * app.use(errorHandler({ logger, tracker }));
+ * const apiService = new ApiService(logger, 30000, tracker);
+ *
+ * tracker.groups({ limit: 3 }); // the three most frequent errors
+ */
+export class ErrorTracker {
+    private readonly groupsByFingerprint = new Map<string, ErrorGroup>();
+    private readonly options: Required<Omit<ErrorTrackerOptions, 'logger' | 'redact' | 'summaryIntervalMs'>>;
+    private readonly logger: Logger<string> | undefined;
+    private readonly timer: NodeJS.Timeout | undefined;
+    private total = 0;
+    private evictedGroups = 0;
+    private countsAtLastSummary = new Map<string, number>();
+
+    /**
+     * Masks sensitive data in samples before they are stored
+     * @private
+     */
+    private readonly redact: Redactor;
+
+    /**
+     * The group and sample of each error object tracked, so that tracking it again adds no occurrence
+     * @private
+     */
+    private trackedErrors = new WeakMap<Error, { fingerprint: string; sample: ErrorSample }>();
+
+    /**
+     * Creates an instance of ErrorTracker.
+     * @param {ErrorTrackerOptions} [options] - The bounds of the store, the redaction of samples and the periodic summaries
+     */
+    constructor(options: ErrorTrackerOptions = {}) {
+        this.options = {
+            maxGroups: options.maxGroups ?? 500,
+            maxSamples: options.maxSamples ?? 5,
+            stackFrames: options.stackFrames ?? 5,
+            summaryLimit: options.summaryLimit ?? 5,
+        };
+        this.logger = options.logger;
+        const logger = options.logger;
+        this.redact = options.redact ? createRedactor(options.redact) : <T>(value: T): T => (logger ? logger.redact(value) : value);
+        if (options.logger && options.summaryIntervalMs) {
+            this.timer = setInterval(() => this.logSummary(), options.summaryIntervalMs);
+            this.timer.unref();
+        }
+    }
+
+    /**
+     * @method track
+     * @description Records an error. Values that are not errors are first turned into a CustomError with `normalizeError`.
+     * An error object that was tracked before, e.g. by both ApiService and errorHandler, is counted once; the context
+     * passed again is added to its sample. The message, error and context of samples are redacted.
+     * @param {unknown} error - The error
+     * @param {Object} [context] - Details kept with the sample, e.g. the request method and URL
+     * @returns {string} The fingerprint of the error's group
+     */
+    public track(error: unknown, context?: Record<string, unknown>): string {
+        const tracked = error instanceof Error || types.isNativeError(error) ? error : normalizeError(error);
+        const previous = this.trackedErrors.get(tracked);
+        if (previous) {
+            if (context) {
+                previous.sample.context = { ...previous.sample.context, ...this.redact(context) };
+            }
+            return previous.fingerprint;
+        }
+
+        const frames = normalizeFrames(tracked.stack, this.options.stackFrames);
+        const code = codeOf(tracked);
+        const fingerprint = fingerprintOf(tracked.name, code, frames);
+        const now = new Date();
+        const message = this.redact(tracked.message);
+
+        let group = this.groupsByFingerprint.get(fingerprint);
+        if (group) {
+            this.groupsByFingerprint.delete(fingerprint);
+        } else {
+            group = { fingerprint, name: tracked.name, ...(code && { code }), message, frames, count: 0, firstSeen: now, lastSeen: now, samples: [] };
+        }
+        group.count++;
+        group.lastSeen = now;
+        group.message = message;
+        const sample: ErrorSample = { timestamp: now, error: this.redact(serializeError(tracked)), ...(context && { context: this.redact(context) }) };
+        group.samples.push(sample);
+        this.trackedErrors.set(tracked, { fingerprint, sample });
+        if (group.samples.length > this.options.maxSamples) {
+            group.samples.shift();
+        }
+
+        // Re-inserting keeps the map ordered from least to most recently seen
+        this.groupsByFingerprint.set(fingerprint, group);
+        this.total++;
+        for (const stale of this.groupsByFingerprint.keys()) {
+            if (this.groupsByFingerprint.size <= this.options.maxGroups) {
+                break;
+            }
+            this.groupsByFingerprint.delete(stale);
+            this.countsAtLastSummary.delete(stale);
+            this.evictedGroups++;
+        }
+        return fingerprint;
+    }
+
+    /**
+     * @method groups
+     * @description Lists error groups, the most frequent first unless `sortBy` says otherwise
+     * @param {ErrorGroupQuery} [query] - Filters, order and limit
+     * @returns {ErrorGroup[]} Copies of the matching groups
+     */
+    public groups(query: ErrorGroupQuery = {}): ErrorGroup[] {
+        const matching = [...this.groupsByFingerprint.values()]
+            .filter(group => (query.name === undefined || group.name === query.name)
+                && (query.code === undefined || group.code === query.code)
+                && (query.since === undefined || group.lastSeen >= query.since))
+            .sort((a, b) => query.sortBy === 'lastSeen'
+                ? b.lastSeen.getTime() - a.lastSeen.getTime()
+                : b.count - a.count || b.lastSeen.getTime() - a.lastSeen.getTime());
+        return matching.slice(0, query.limit).map(copyGroup);
+    }
+
+    /**
+     * @method group
+     * @description Returns one error group
+     * @param {string} fingerprint - The fingerprint returned by `track`
+     * @returns {ErrorGroup | undefined} A copy of the group, or undefined if it is not kept
+     */
+    public group(fingerprint: string): ErrorGroup | undefined {
+        const group = this.groupsByFingerprint.get(fingerprint);
+        return group && copyGroup(group);
+    }
+
+    /**
+     * @method stats
+     * @description Returns the totals of the tracker
+     * @returns {ErrorTrackerStats}
+     */
+    public stats(): ErrorTrackerStats {
+        return { total: this.total, groups: this.groupsByFingerprint.size, evictedGroups: this.evictedGroups };
+    }
+
+    /**
+     * @method logSummary
+     * @description Logs the groups with new errors since the previous summary, the most frequent first. Nothing is
+     * logged if there were none. Called at `summaryIntervalMs`.
+     */
+    public logSummary(): void {
+        const increases = [...this.groupsByFingerprint.values()]
+            .map(group => ({ group, count: group.count - (this.countsAtLastSummary.get(group.fingerprint) ?? 0) }))
+            .filter(({ count }) => count > 0)
+            .sort((a, b) => b.count - a.count);
+        this.countsAtLastSummary = new Map([...this.groupsByFingerprint.values()].map(group => [group.fingerprint, group.count]));
+        if (!this.logger || increases.length === 0) {
+            return;
+        }
+
+        const total = increases.reduce((sum, { count }) => sum + count, 0);
+        const top = increases.slice(0, this.options.summaryLimit).map(({ group, count }) => ({
+            fingerprint: group.fingerprint,
+            name: group.name,
+            ...(group.code && { code: group.code }),
+            message: group.message,
+            count,
+        }));
+        this.logger.warn(`Tracked ${total} errors in ${increases.length} groups since the last summary`, { errorGroups: top });
+    }
+
+    /**
+     * @method reset
+     * @description Forgets every group and resets the totals
+     */
+    public reset(): void {
+        this.groupsByFingerprint.clear();
+        this.countsAtLastSummary.clear();
+        this.trackedErrors = new WeakMap();
+        this.total = 0;
+        this.evictedGroups = 0;
+    }
+
+    /**
+     * @method stop
+     * @description Stops the periodic summaries
+     */
+    public stop(): void {
+        clearInterval(this.timer);
+    }
+}
+
+/**
+ * @function codeOf
+ * @description Returns the code of an error: the stable code of a CustomError, or the code of a Node.js error
+ * @returns {string | undefined}
+ */
+function codeOf(error: Error): string | undefined {
+    if (error instanceof CustomError) {
+        return error.classCode;
+    }
+    const code = (error as NodeJS.ErrnoException).code;
+    return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * @function normalizeFrames
+ * @description Extracts the top frames of a stack trace without line and column numbers, with paths relative to
+ * the working directory and without Node.js internals, so a fingerprint survives unrelated edits and deployments
+ * @param {string} [stack] - The stack trace
+ * @param {number} limit - The number of frames
+ * @returns {string[]} Frames such as 'OrderService.load (src/orders.ts)'
+ */
+function normalizeFrames(stack: string | undefined, limit: number): string[] {
+    return (stack ?? '').split('\n')
+        .map(line => line.trim())
+        .filter(line => line.startsWith('at ') && !line.includes('node:internal') && !line.includes('(internal/'))
+        .slice(0, limit)
+        .map(line => {
+            const match = /^at (?:(.+?) \()?(.+?)(?::\d+)*\)?$/.exec(line);
+            const fn = match?.[1] ?? '<anonymous>';
+            const location = (match?.[2] ?? '').replace(/^file:\/\//, '');
+            return `${fn} (${path.isAbsolute(location) ? path.relative(process.cwd(), location) : location})`;
+        });
+}
+
+/**
+ * @function fingerprintOf
+ * @description Hashes the parts of an error that identify its group
+ * @returns {string} 16 hexadecimal characters
+ */
+function fingerprintOf(name: string, code: string | undefined, frames: string[]): string {
+    return createHash('sha1').update([name, code ?? '', ...frames].join('\n')).digest('hex').slice(0, 16);
+}
+
+/**
+ * @function copyGroup
+ * @description Copies a group and its samples so callers cannot change the store
+ * @returns {ErrorGroup}
+ */
+function copyGroup(group: ErrorGroup): ErrorGroup {
+    return {
+        ...group,
+        frames: [...group.frames],
+        firstSeen: new Date(group.firstSeen),
+        lastSeen: new Date(group.lastSeen),
+        samples: group.samples.map(sample => ({
+            ...sample,
+            timestamp: new Date(sample.timestamp),
+            error: { ...sample.error },
+            ...(sample.context && { context: { ...sample.context } }),
+        })),
+    };
+}
@@ -0,0 +1,142 @@
+/**
+ * @module formats
+ * @description This module provides structured Winston formats for Logger transports:
+ * one JSON object per line (NDJSON) with stable field names, and the OpenTelemetry log data model.
+ */
+
+import { format } from 'winston';
+import { serializeValue } from './serialization';
+import { CREATED } from './template';
+
+/**
+ * The output mode of a transport.
+ * - 'text': the template set with `setLogFormat`
+ * - 'json': one JSON object per line with the fields timestamp, level, context, message, service, error and meta
+ * - 'otel': one JSON object per line following the OpenTelemetry log data model
+ * @typedef {'text'|'json'|'otel'} LogOutputFormat
+ */
+export type LogOutputFormat = 'text' | 'json' | 'otel';
+
+/**
+ * A structured log record as written in 'json' mode.
+ * @typedef {Object} JsonLogRecord
+ */
+export interface JsonLogRecord {
+    timestamp?: string;
+    level: string;
+    context?: string;
+    message: string;
+    service?: string;
+    error?: unknown;
+    meta?: Record<string, unknown>;
+}
+
+const MESSAGE = Symbol.for('message');
+
+/**
+ * Fields of a Winston entry that are mapped to dedicated record fields rather than to meta
+ */
+const RESERVED_FIELDS = new Set(['level', 'message', 'timestamp', 'context', 'service', 'error']);
+
+/**
+ * OpenTelemetry severity numbers for the Winston levels
+ */
+const SEVERITY_NUMBERS: Record<string, number> = {
+    silly: 1,
+    trace: 1,
+    debug: 5,
+    verbose: 6,
+    http: 7,
+    info: 9,
+    audit: 10,
+    warn: 13,
+    error: 17,
+    fatal: 21,
+};
+
+/**
+ * @function toJsonRecord
+ * @description Converts a Winston entry into a record with stable field names
+ * @param {any} info - The Winston log entry
+ * @returns {JsonLogRecord} The structured record
+ */
+export function toJsonRecord(info: any): JsonLogRecord {
+    const meta: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(info)) {
+        if (!RESERVED_FIELDS.has(key)) {
+            meta[key] = serializeValue(value);
+        }
+    }
+
+    return {
+        ...(info.timestamp && { timestamp: info.timestamp }),
+        level: info.level,
+        ...(info.context && { context: info.context }),
+        message: info.message,
+        ...(info.service && { service: info.service }),
+        ...(info.error !== undefined && { error: serializeValue(info.error) }),
+        ...(Object.keys(meta).length > 0 && { meta }),
+    };
+}
+
+/**
+ * @function jsonFormat
+ * @description Creates a format that writes each entry as one JSON object per line
+ * @returns {import('logform').Format} The Winston format
+ */
+export function jsonFormat() {
+    return format((info) => {
+        (info as any)[MESSAGE] = JSON.stringify(toJsonRecord(info));
+        return info;
+    })();
+}
+
+/**
+ * @function entryTime
+ * @description Returns when an entry was logged: the time a Logger stored on it, else its timestamp if that can be parsed
+ * @param {any} info - The Winston log entry
+ * @returns {number} Milliseconds since the epoch
+ */
+function entryTime(info: any): number {
+    if (typeof info[CREATED] === 'number') {
+        return info[CREATED];
+    }
+    const parsed = typeof info.timestamp === 'number' ? info.timestamp : Date.parse(info.timestamp);
+    return Number.isFinite(parsed) ? parsed : Date.now();
+}
+
+/**
+ * @function otelFormat
+ * @description Creates a format that writes each entry as a JSON object following the OpenTelemetry log data model.
+ * The context becomes the instrumentation scope, the service the `service.name` resource attribute,
+ * an error the `exception.*` attributes, and any other metadata the record attributes.
+ * The record's Timestamp is the time the entry was logged, not the time it was formatted.
+ * @returns {import('logform').Format} The Winston format
+ */
+export function otelFormat() {
+    return format((info) => {
+        const { level, message, context, service, error, meta } = toJsonRecord(info);
+        const attributes: Record<string, unknown> = { ...meta };
+        delete attributes['traceId'];
+        delete attributes['spanId'];
+        if (error instanceof Object && 'message' in error) {
+            const { name, message: errorMessage, stack } = error as { name?: string; message?: string; stack?: string };
+            Object.assign(attributes, { 'exception.type': name, 'exception.message': errorMessage, 'exception.stacktrace': stack });
+        } else if (error !== undefined) {
+            attributes['exception.message'] = String(error);
+        }
+
+        (info as any)[MESSAGE] = JSON.stringify({
+            Timestamp: `${entryTime(info)}000000`,
+            SeverityText: level.toUpperCase(),
+            SeverityNumber: SEVERITY_NUMBERS[level] ?? SEVERITY_NUMBERS['info'],
+            Body: message,
+            ...(meta?.['traceId'] !== undefined && { TraceId: meta['traceId'] }),
+            ...(meta?.['spanId'] !== undefined && { SpanId: meta['spanId'] }),
+            ...(service && { Resource: { 'service.name': service } }),
+            ...(context && { InstrumentationScope: { Name: context } }),
+            Attributes: attributes,
+        });
+        return info;
+    })();
+}
@@ -4,29 +4,65 @@
  */
 
 export * from './customerror';
+export * from './context';
 export * from './errors';
 export * from './logger';
+export * from './rotation';
+export * from './formats';
+export * from './serialization';
+export * from './redaction';
+export * from './sampling';
+export * from './logreader';
+export * from './config';
+export * from './template';
+export * from './levels';
+export * from './leveloverrides';
+export * from './audit';
+export * from './testing';
+export * from './syslog';
+export * from './result';
+export * from './errortracker';
+export * from './processhandlers';
 export * from './api';
+export * from './errorhandler';
+export * from './validation';
+export * from './defineerror';
+export * from './localization';
 
 import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { runWithRequestContext } from './context';
 
 interface CustomRequest extends Request {
   timestamp?: string;
+  requestId?: string;
 }
 
+// Incoming request IDs are logged and echoed back, so only short IDs without special characters are reused
+const REQUEST_ID_PATTERN = /^[\w.-]{1,128}$/;
+
 export function beverost(req: CustomRequest, res: Response, next: NextFunction) {
   try {
     // Add a timestamp to the request
     req.timestamp = new Date().toISOString();
 
+    // Leave out the query string, which may carry tokens or authorization codes
+    const url = req.url.replace(/\?.*$/s, '');
+
     // Log the incoming request
-    console.log(`[${req.timestamp}] ${req.method} ${req.url}`);
+    console.log(`[${req.timestamp}] ${req.method} ${url}`);
+
+    // Reuse a well-formed request ID from the caller or generate one, and echo it back
+    const incomingId = req.get('X-Request-Id');
+    req.requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+    res.setHeader('X-Request-Id', req.requestId);
 
     // Add a custom header to the response
     res.setHeader('X-Powered-By', 'Beverost Middleware');
 
-    // Continue to the next middleware or route handler
-    next();
+    // Continue to the next middleware or route handler within the request context,
+    // so every Logger entry written while handling the request carries its ID
+    runWithRequestContext({ requestId: req.requestId, method: req.method, url }, () => next());
   } catch (error) {
     // If an error occurs, pass it to the error handling middleware
     next(error);
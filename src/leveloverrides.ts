@@ -0,0 +1,115 @@
+/**
+ * @module leveloverrides
+ * @description This module parses DEBUG-style level overrides, which give selected logger contexts their own level.
+ *
+ * Syntax: patterns separated by commas or spaces.
+ * - `Api*` selects contexts starting with 'Api'; `*` matches any characters, including ':'.
+ * - `Api*=trace` selects them at 'trace' instead of the default override level, 'debug'.
+ * - `-Api:Health` excludes a context. Exclusions win over inclusions.
+ *
+ * A pattern matches a context as a whole, or any trailing part of it starting at a ':' boundary,
+ * so `Billing` matches the child context 'App:Billing'.
+ */
+
+import { LoggerInitializationError } from './errors';
+
+/**
+ * One parsed override.
+ * @typedef {Object} LevelOverride
+ * @property {string} pattern - The pattern as written
+ * @property {string} [level] - The level of the selected contexts. Undefined for exclusions.
+ * @property {boolean} exclude - Whether the pattern excludes contexts
+ */
+export interface LevelOverride {
+    pattern: string;
+    level?: string;
+    exclude: boolean;
+}
+
+/**
+ * Decides the level of each logger context under a set of overrides.
+ *
+ * @class
+ *
+ * @example
+ * const overrides = new LevelOverrides('Api*,Billing=trace,-Api:Health', ['fatal', 'error', 'warn', 'info', 'debug', 'trace']);
+ * overrides.levelFor('ApiClient'); // 'debug'
+ * overrides.levelFor('App:Billing'); // 'trace'
+ * overrides.levelFor('Api:Health'); // undefined
+ */
+export class LevelOverrides {
+    /**
+     * The parsed overrides, in the order written
+     * @type {LevelOverride[]}
+     */
+    public readonly overrides: LevelOverride[];
+
+    private readonly compiled: { override: LevelOverride; pattern: RegExp }[];
+    private readonly cache = new Map<string, string | undefined>();
+
+    /**
+     * Creates an instance of LevelOverrides.
+     * @constructor
+     * @param {string} spec - The overrides, e.g. 'Api*,Billing=trace,-Api:Health'
+     * @param {string[]} levels - The known level names
+     * @param {string} [defaultLevel='debug'] - The level of patterns without '=level'
+     * @throws {LoggerInitializationError} If a pattern is empty or names an unknown level
+     */
+    constructor(public readonly spec: string, levels: string[], defaultLevel: string = 'debug') {
+        this.overrides = spec.split(/[\s,]+/).filter(Boolean).map((entry): LevelOverride => {
+            const exclude = entry.startsWith('-');
+            const [pattern = '', level] = (exclude ? entry.slice(1) : entry).split('=');
+            if (!pattern) {
+                throw new LoggerInitializationError(`Invalid log level override '${entry}': the pattern is empty`, 'levels');
+            }
+            if (exclude) {
+                return { pattern, exclude };
+            }
+            if (!levels.includes(level ?? defaultLevel)) {
+                throw new LoggerInitializationError(`Invalid log level override '${entry}': unknown level '${level ?? defaultLevel}'`, 'levels');
+            }
+            return { pattern, level: level ?? defaultLevel, exclude };
+        });
+
+        const escape = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+        this.compiled = this.overrides.map(override => ({
+            override,
+            pattern: new RegExp(`^${escape(override.pattern).replace(/\*/g, '.*')}$`),
+        }));
+    }
+
+    /**
+     * @method levelFor
+     * @description Returns the level of a context, if an override selects it
+     * @param {string} [context] - The context, e.g. 'App:Billing'
+     * @returns {string | undefined} The overriding level
+     */
+    public levelFor(context?: string): string | undefined {
+        if (!context) {
+            return undefined;
+        }
+        if (this.cache.has(context)) {
+            return this.cache.get(context);
+        }
+
+        const segments = context.split(':');
+        const candidates = segments.map((_segment, index) => segments.slice(index).join(':'));
+        const matches = (pattern: RegExp) => candidates.some(candidate => pattern.test(candidate));
+
+        let level: string | undefined;
+        if (!this.compiled.some(({ override, pattern }) => override.exclude && matches(pattern))) {
+            level = this.compiled.find(({ override, pattern }) => !override.exclude && matches(pattern))?.override.level;
+        }
+        this.cache.set(context, level);
+        return level;
+    }
+
+    /**
+     * @method levels
+     * @description Returns the levels the overrides select contexts at
+     * @returns {string[]} The levels
+     */
+    public levels(): string[] {
+        return [...new Set(this.overrides.flatMap(override => override.level ? [override.level] : []))];
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * @module levels
+ * @description This module defines the log levels of Logger: their priorities, console colors and types.
+ * The default set extends Winston's npm levels with `fatal`, `audit` and `trace`. Custom levels are added
+ * to the defaults with `Logger.withLevels`, which also generates a typed method for each of them.
+ */
+
+import { LoggerInitializationError } from './errors';
+
+/**
+ * The definition of one log level.
+ * @typedef {Object} LevelDefinition
+ * @property {number} priority - Lower numbers are more severe. A logger set to a level writes every level with the same or a lower priority.
+ * @property {string} [color] - The console color, as understood by Winston, e.g. 'magenta' or 'bold red'
+ */
+export interface LevelDefinition {
+    priority: number;
+    color?: string;
+}
+
+/**
+ * The default log levels, from the most to the least severe.
+ * @constant
+ */
+export const DEFAULT_LEVELS = {
+    fatal: { priority: 0, color: 'bold red' },
+    error: { priority: 1, color: 'red' },
+    warn: { priority: 2, color: 'yellow' },
+    audit: { priority: 3, color: 'magenta' },
+    info: { priority: 4, color: 'green' },
+    http: { priority: 5, color: 'cyan' },
+    verbose: { priority: 6, color: 'blue' },
+    debug: { priority: 7, color: 'white' },
+    trace: { priority: 8, color: 'gray' },
+    silly: { priority: 9, color: 'grey' },
+} as const satisfies Record<string, LevelDefinition>;
+
+/**
+ * The name of a default log level.
+ */
+export type DefaultLevel = keyof typeof DEFAULT_LEVELS;
+
+/**
+ * A logging method generated for a level.
+ */
+export type LevelMethod = (message: string | Error, meta?: Object) => void;
+
+/**
+ * The generated logging methods of a set of custom levels.
+ */
+export type LevelMethods<L extends string> = { [K in L]: LevelMethod };
+
+/**
+ * @function resolveLevels
+ * @description Merges custom levels into the defaults and validates the result
+ * @param {Record<string, LevelDefinition>} [custom] - Levels to add, or defaults to re-prioritize or recolor
+ * @param {Iterable<string>} [reserved] - Names that cannot be used as levels, such as existing Logger methods
+ * @returns {Record<string, LevelDefinition>} The complete level set
+ * @throws {LoggerInitializationError} If a level name is invalid or reserved, or a priority is not a finite number
+ */
+export function resolveLevels(custom: Record<string, LevelDefinition> = {}, reserved: Iterable<string> = []): Record<string, LevelDefinition> {
+    const reservedNames = new Set(reserved);
+    for (const [name, definition] of Object.entries(custom)) {
+        if (!/^[a-z][a-zA-Z0-9]*$/.test(name)) {
+            throw new LoggerInitializationError(`Invalid log level name '${name}'`, 'levels');
+        }
+        if (reservedNames.has(name) && !(name in DEFAULT_LEVELS)) {
+            throw new LoggerInitializationError(`Log level '${name}' conflicts with a Logger method`, 'levels');
+        }
+        if (typeof definition?.priority !== 'number' || !Number.isFinite(definition.priority)) {
+            throw new LoggerInitializationError(`Log level '${name}' needs a finite priority`, 'levels');
+        }
+    }
+    return { ...DEFAULT_LEVELS, ...custom };
+}
@@ -0,0 +1,200 @@
+/**
+ * @module localization
+ * @description This module resolves the client-facing messages of errors from message catalogs. Errors carry a
+ * message key and parameters, and the text is looked up only when a response is built, following a fallback chain
+ * such as de-CH → de → en. The `message` of an error is left alone, so logs stay in the operators' language.
+ */
+
+import { CustomError, CustomErrorClass } from './customerror';
+
+/**
+ * The messages of one locale: message templates by key, or a function looking them up elsewhere, e.g. in gettext files.
+ * Templates insert parameters with `{name}`.
+ */
+export type MessageCatalog = Record<string, string> | ((key: string) => string | undefined);
+
+/**
+ * The English client-facing messages of the built-in errors, keyed by their default message keys.
+ * Every Localizer starts with them in its 'en' catalog; catalogs passed in or added later override them key by key.
+ * @constant
+ */
+export const DEFAULT_MESSAGES: Readonly<Record<string, string>> = Object.freeze({
+    'beverost.api': 'The request failed with status {status}',
+    'beverost.network': 'A network error occurred. Please try again later.',
+    'beverost.parse': 'The data could not be read',
+    'beverost.validation': 'The input is invalid',
+    'beverost.authentication': 'Authentication is required',
+    'beverost.authorization': 'You are not allowed to do this',
+    'beverost.rateLimit': 'Too many requests. Please try again later.',
+    'beverost.database': 'The data could not be accessed',
+    'beverost.configuration': 'The service is not configured correctly',
+    'beverost.externalService': 'A service this request depends on failed',
+    'beverost.fileNotFound': 'The file was not found',
+    'beverost.logDirectoryNotFound': 'An internal error occurred',
+    'beverost.logFileOperation': 'An internal error occurred',
+    'beverost.loggerInitialization': 'An internal error occurred',
+    'beverost.unexpected': 'An unexpected error occurred',
+});
+
+/**
+ * Options for a Localizer.
+ * @typedef {Object} LocalizerOptions
+ * @property {Object<string, MessageCatalog>} [catalogs] - The catalog of each locale, e.g. `{ en: {...}, de: {...} }`
+ * @property {string} [defaultLocale='en'] - The last locale of every fallback chain, and the locale of clients that ask for none
+ */
+export interface LocalizerOptions {
+    catalogs?: Record<string, MessageCatalog>;
+    defaultLocale?: string;
+}
+
+/**
+ * A resolved message and the locale it was found in.
+ * @typedef {Object} LocalizedMessage
+ * @property {string} text - The message with its parameters inserted
+ * @property {string} locale - The locale whose catalog had the message
+ */
+export interface LocalizedMessage {
+    text: string;
+    locale: string;
+}
+
+/**
+ * Resolves message keys in a set of catalogs.
+ *
+ * @class
+ *
+ * @example
+ * const localizer = new Localizer({
+ *   catalogs: {
+ *     en: { 'shop.orderNotFound': 'Order {orderId} was not found' },
+ *     de: { 'shop.orderNotFound': 'Bestellung {orderId} wurde nicht gefunden' },
+ *   },
+ * });
+ * localizer.negotiate('de-CH,de;q=0.9,en;q=0.8'); // 'de-CH'
+ * localizer.translate('shop.orderNotFound', { orderId: 'o-7' }, 'de-CH'); // { text: 'Bestellung o-7 wurde nicht gefunden', locale: 'de' }
+ */
+export class Localizer {
+    private readonly catalogs = new Map<string, MessageCatalog>();
+    public readonly defaultLocale: string;
+
+    /**
+     * Creates an instance of Localizer, whose 'en' catalog starts with the `DEFAULT_MESSAGES` of the built-in errors.
+     * @param {LocalizerOptions} [options] - The catalogs and default locale
+     */
+    constructor(options: LocalizerOptions = {}) {
+        this.defaultLocale = options.defaultLocale ?? 'en';
+        this.addCatalog('en', DEFAULT_MESSAGES);
+        for (const [locale, catalog] of Object.entries(options.catalogs ?? {})) {
+            this.addCatalog(locale, catalog);
+        }
+    }
+
+    /**
+     * @method addCatalog
+     * @description Adds the messages of a locale. Messages are merged into an existing object catalog; a function replaces it.
+     * @param {string} locale - The locale, e.g. 'de-CH'
+     * @param {MessageCatalog} catalog - The messages
+     */
+    public addCatalog(locale: string, catalog: MessageCatalog): void {
+        const key = locale.toLowerCase();
+        const existing = this.catalogs.get(key);
+        this.catalogs.set(key, typeof existing === 'object' && typeof catalog === 'object' ? { ...existing, ...catalog } : catalog);
+    }
+
+    /**
+     * @method fallbackChain
+     * @description Lists the locales searched for a locale: the locale, each shorter prefix of it, then the default locale
+     * @param {string} locale - The locale, e.g. 'de-CH'
+     * @returns {string[]} E.g. ['de-CH', 'de', 'en']
+     */
+    public fallbackChain(locale: string): string[] {
+        const chain = prefixesOf(locale);
+        if (!chain.some(entry => entry.toLowerCase() === this.defaultLocale.toLowerCase())) {
+            chain.push(this.defaultLocale);
+        }
+        return chain;
+    }
+
+    /**
+     * @method negotiate
+     * @description Picks the locale for a client from an Accept-Language header: the preferred language for which a
+     * catalog exists, directly or through its fallback chain. Region-specific requests are kept, so 'de-CH' can use
+     * a de-CH catalog added later and still falls back to 'de'.
+     * @param {string} [acceptLanguage] - The Accept-Language header, e.g. 'de-CH,de;q=0.9,en;q=0.8'
+     * @returns {string} The locale, or the default locale if no requested language is available
+     */
+    public negotiate(acceptLanguage?: string): string {
+        const requested = (acceptLanguage ?? '').split(',')
+            .map((entry, index) => {
+                const [tag = '', ...params] = entry.trim().split(';');
+                const quality = params.map(param => /^\s*q=([\d.]+)\s*$/.exec(param)?.[1]).find(value => value !== undefined);
+                return { tag: tag.trim(), quality: quality === undefined ? 1 : Number(quality), index };
+            })
+            .filter(entry => entry.tag !== '' && entry.tag !== '*' && entry.quality > 0)
+            .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+        const match = requested.find(({ tag }) => prefixesOf(tag).some(locale =>
+            this.catalogs.has(locale.toLowerCase()) || locale.toLowerCase() === this.defaultLocale.toLowerCase()));
+        return match?.tag ?? this.defaultLocale;
+    }
+
+    /**
+     * @method translate
+     * @description Looks up a message along the fallback chain of a locale and inserts its parameters
+     * @param {string} key - The message key
+     * @param {Object<string, unknown>} [params] - The parameters
+     * @param {string} [locale] - The locale. Defaults to the default locale.
+     * @returns {LocalizedMessage | undefined} The message, or undefined if no catalog in the chain has the key
+     */
+    public translate(key: string, params: Record<string, unknown> = {}, locale: string = this.defaultLocale): LocalizedMessage | undefined {
+        for (const candidate of this.fallbackChain(locale)) {
+            const catalog = this.catalogs.get(candidate.toLowerCase());
+            const template = typeof catalog === 'function' ? catalog(key) : catalog?.[key];
+            if (template !== undefined) {
+                return { text: formatMessage(template, params), locale: candidate };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * @method localize
+     * @description Resolves the client-facing message of an error from its message key and parameters.
+     * Errors without a key of their own use the default key of their class, with their fields as the parameters.
+     * @param {unknown} error - The error
+     * @param {string} [locale] - The locale. Defaults to the default locale.
+     * @returns {LocalizedMessage | undefined} The message, or undefined if the error has no translated message key
+     */
+    public localize(error: unknown, locale?: string): LocalizedMessage | undefined {
+        if (!(error instanceof CustomError)) {
+            return undefined;
+        }
+        const key = error.messageKey ?? (error.constructor as CustomErrorClass).messageKey;
+        if (key === undefined) {
+            return undefined;
+        }
+        return this.translate(key, error.messageParams ?? { ...error }, locale);
+    }
+}
+
+/**
+ * @function prefixesOf
+ * @description Lists a locale and each shorter prefix of it, e.g. ['zh-Hant-TW', 'zh-Hant', 'zh']
+ * @param {string} locale - The locale
+ * @returns {string[]}
+ */
+function prefixesOf(locale: string): string[] {
+    const subtags = locale.split('-');
+    return subtags.map((_subtag, index) => subtags.slice(0, subtags.length - index).join('-'));
+}
+
+/**
+ * @function formatMessage
+ * @description Inserts parameters into a message template. Placeholders without a parameter are kept as written.
+ * @param {string} template - The template, e.g. 'Order {orderId} not found'
+ * @param {Object<string, unknown>} params - The parameters
+ * @returns {string} The message
+ */
+export function formatMessage(template: string, params: Record<string, unknown>): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => params[name] === undefined ? placeholder : String(params[name]));
+}
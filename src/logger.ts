@@ -6,22 +6,165 @@
 import { createLogger, format, transports } from 'winston';
 import * as path from 'path';
 import * as fs from 'fs';
-import { LogDirectoryNotFoundError } from './errors';
+import { CustomError } from './customerror';
+import { getRequestContext } from './context';
+import { LogDirectoryNotFoundError, LogFileOperationError, LoggerInitializationError } from './errors';
+import { LogRotationOptions, RotatingFileTransport } from './rotation';
+import { LogOutputFormat, jsonFormat, otelFormat } from './formats';
+import { RedactionOptions, Redactor, createRedactor } from './redaction';
+import { LogSampler, SamplingOptions } from './sampling';
+import { DEFAULT_LEVELS, DefaultLevel, LevelDefinition, LevelMethods, resolveLevels } from './levels';
+import { MemoryTransport, TestLogger } from './testing';
+import { LevelOverrides } from './leveloverrides';
+import { SyslogTransport } from './syslog';
+import { SerializationOptions, serializeValue } from './serialization';
+import { CompiledTemplate, CREATED, ELAPSED, TimestampOptions, compileLogTemplate, formatTimestamp, validateTimestampFormat } from './template';
+
+/**
+ * The output mode of the console and file transports, either one mode for both or one per target.
+ * @typedef {LogOutputFormat|Object} LogOutputOptions
+ * @property {LogOutputFormat} [console='text'] - The output mode of the console transport
+ * @property {LogOutputFormat} [file='text'] - The output mode of the file transports
+ */
+export type LogOutputOptions = LogOutputFormat | { console?: LogOutputFormat; file?: LogOutputFormat };
+
+/**
+ * Loggers that have not been closed, flushed by `Logger.flushAll` and the hook installed with `Logger.flushOnExit`.
+ * They are held weakly, so short-lived loggers, such as one per request, can still be garbage collected.
+ */
+const liveLoggers = new Set<WeakRef<Logger<string>>>();
+
+/**
+ * Forgets loggers that were garbage collected without being closed
+ */
+const collectedLoggers = new FinalizationRegistry<WeakRef<Logger<string>>>(ref => liveLoggers.delete(ref));
+
+/**
+ * Removes the process listeners of the installed exit hook
+ */
+let uninstallExitHook: (() => void) | undefined;
+
+/**
+ * Options for configuring a Logger instance.
+ * @typedef {Object} LoggerOptions
+ * @property {boolean} [recursive] - Whether to create parent directories recursively for the log file path
+ * @property {LogRotationOptions} [rotation] - Rotate the log files by size or time, compress and prune them
+ * @property {Function} [onError] - Receives file transport failures. Defaults to logging them to the console.
+ * @property {LogOutputOptions} [output='text'] - The output mode of the console and file transports
+ * @property {Object} [defaultMeta={ service: 'user-service' }] - Metadata added to every entry, e.g. the service name
+ * @property {RedactionOptions} [redact] - Masks or removes sensitive data before any transport sees the entry
+ * @property {SamplingOptions} [sampling] - Per-level sampling, deduplication and rate caps
+ * @property {TimestampOptions} [timestamp] - The timestamp format and time zone
+ * @property {Object<string, LevelDefinition>} [levels] - Custom levels added to the defaults. Use `Logger.withLevels` for typed methods.
+ * @property {boolean|number} [exitOnFatal=false] - Exit the process after `fatal` has flushed, with code 1 or the given code
+ * @property {MemoryTransport} [memory] - Capture entries in this transport instead of writing files and to the console
+ * @property {string} [levelOverrides] - Per-context levels, e.g. 'Api*,Billing=trace,-Api:Health'. `fromConfig` takes them from LOG_DEBUG.
+ * @property {SerializationOptions} [serialization] - The depth cap of metadata and whether errors keep their stack
+ * @property {number} [flushTimeoutMs=5000] - How long `flush` and `close` wait for the transports before they give up
+ */
+export interface LoggerOptions {
+    /**
+     * If true, creates all necessary parent directories.
+     * If false or not provided, throws an error if the immediate parent directory doesn't exist.
+     */
+    recursive?: boolean;
+    /**
+     * When set, the log files are rotated by size and/or time instead of growing forever.
+     */
+    rotation?: LogRotationOptions;
+    /**
+     * Receives failures of the file transports, such as rotation or write errors.
+     */
+    onError?: (error: LogFileOperationError | Error) => void;
+    /**
+     * Pretty text, NDJSON or the OpenTelemetry log data model, for both targets or per target.
+     */
+    output?: LogOutputOptions;
+    /**
+     * Metadata added to every entry. Its `service` field is written as the service of structured records.
+     */
+    defaultMeta?: Record<string, unknown>;
+    /**
+     * Key names, dotted paths and value patterns to mask or remove from the message and metadata.
+     */
+    redact?: RedactionOptions;
+    /**
+     * Per-level policies that sample entries, collapse repeated messages and cap entries per second per context.
+     */
+    sampling?: SamplingOptions;
+    /**
+     * The timestamp format ('iso', 'epoch' or a pattern such as 'YYYY-MM-DD HH:mm:ss.SSS') and whether to use UTC.
+     */
+    timestamp?: TimestampOptions;
+    /**
+     * Levels added to the defaults, or defaults with a different priority or color.
+     */
+    levels?: Record<string, LevelDefinition>;
+    /**
+     * Exit the process once a `fatal` entry has been flushed: `true` exits with code 1, a number with that code.
+     */
+    exitOnFatal?: boolean | number;
+    /**
+     * Capture entries in memory only. No directories or files are created and nothing is written to the console.
+     */
+    memory?: MemoryTransport;
+    /**
+     * DEBUG-style per-context levels. The constructor does not read the environment; use `fromConfig` to apply LOG_DEBUG.
+     */
+    levelOverrides?: string | undefined;
+    /**
+     * How errors and nested objects in the metadata are serialized.
+     */
+    serialization?: SerializationOptions;
+    /**
+     * The time `flush` and `close` wait for stalled transports before they reject with a LogFileOperationError.
+     */
+    flushTimeoutMs?: number;
+}
+
+/**
+ * Logger settings as produced by `loadConfig(loggerConfigSchema)`.
+ * @typedef {Object} LoggerConfig
+ * @property {string} [LOG_LEVEL] - The minimum log level
+ * @property {string} [LOG_DIR] - The directory of combined.log and error.log
+ * @property {LogOutputFormat} [LOG_FORMAT] - The output mode of all transports
+ * @property {string} [LOG_DEBUG] - Per-context level overrides
+ */
+export interface LoggerConfig {
+    LOG_LEVEL?: string | undefined;
+    LOG_DIR?: string | undefined;
+    LOG_FORMAT?: LogOutputFormat | undefined;
+    LOG_DEBUG?: string | undefined;
+}
+
+/**
+ * Bindings attached to a child logger.
+ * @typedef {Object} LoggerBindings
+ * @property {string} [context] - A context nested under the parent's context, e.g. 'Billing' under 'App' renders as [App:Billing]
+ */
+export interface LoggerBindings {
+    context?: string;
+    [key: string]: unknown;
+}
 
 /**
  * A comprehensive logging utility class that provides various logging functionalities.
  * It uses Winston as the underlying logging library and supports multiple log levels, custom formatting,
  * file and console transports, and dynamic configuration.
+ *
+ * The type parameter lists the level names accepted by `setLogLevel` and `log`.
  * 
  * @class
+ * @template L
  */
-export class Logger {
+export class Logger<L extends string = DefaultLevel> {
     /**
-     * The Winston logger instance
+     * The Winston logger and the closing of the Winston loggers replaced by `initLogger`, in order.
+     * The object is shared with child loggers, so they keep writing to the current transports.
      * @private
-     * @type {import('winston').Logger}
+     * @type {{ winston: import('winston').Logger, retired: Promise<void> }}
      */
-    private logger: any;
+    private core: { winston: any; retired: Promise<void> } = { winston: undefined, retired: Promise.resolve() };
 
     /**
      * The full path to the log file
@@ -38,6 +181,21 @@ export class Logger {
      */
     private logFormat: string = '[{level}] - [{timestamp}]{context} {message}';
 
+    /**
+     * The compiled format string
+     * @private
+     * @type {CompiledTemplate}
+     */
+    private template: CompiledTemplate = compileLogTemplate(this.logFormat);
+
+    /**
+     * The timestamp format and time zone
+     * @private
+     * @type {TimestampOptions}
+     * @default { format: 'YYYY-MM-DD HH:mm:ss' }
+     */
+    private timestamp: TimestampOptions = { format: 'YYYY-MM-DD HH:mm:ss' };
+
     /**
      * The name of the log file
      * @private
@@ -46,13 +204,128 @@ export class Logger {
      */
     private logFileName: string = 'combined.log';
 
+    /**
+     * The rotation settings applied to the file transports
+     * @private
+     * @type {LogRotationOptions | undefined}
+     */
+    private rotation?: LogRotationOptions;
+
+    /**
+     * The handler for file transport failures
+     * @private
+     * @type {Function | undefined}
+     */
+    private onError?: (error: LogFileOperationError | Error) => void;
+
+    /**
+     * Metadata added to every entry written by this logger
+     * @private
+     * @type {Record<string, unknown>}
+     */
+    private bindings: Record<string, unknown> = {};
+
+    /**
+     * Whether the logger was created by `child()`. Children share the transports of the logger they descend from,
+     * so only that logger may change the files, format and output the transports are built from.
+     * @private
+     * @type {boolean}
+     */
+    private isChild: boolean = false;
+
+    /**
+     * The output mode of the console and file transports
+     * @private
+     * @type {{ console: LogOutputFormat, file: LogOutputFormat }}
+     */
+    private output: { console: LogOutputFormat; file: LogOutputFormat } = { console: 'text', file: 'text' };
+
+    /**
+     * Metadata added to every entry
+     * @private
+     * @type {Record<string, unknown>}
+     * @default { service: 'user-service' }
+     */
+    private defaultMeta: Record<string, unknown> = { service: 'user-service' };
+
+    /**
+     * The redactor applied to every entry, if redaction is configured
+     * @private
+     * @type {Redactor | undefined}
+     */
+    private redactor?: Redactor;
+
+    /**
+     * The sampler deciding which entries are written, if sampling is configured
+     * @private
+     * @type {LogSampler | undefined}
+     */
+    private sampler?: LogSampler;
+
+    /**
+     * The log levels, keyed by name
+     * @private
+     * @type {Record<string, LevelDefinition>}
+     */
+    private levels: Record<string, LevelDefinition> = DEFAULT_LEVELS;
+
+    /**
+     * Whether, and with which code, `fatal` exits the process
+     * @private
+     * @type {boolean | number}
+     */
+    private exitOnFatal: boolean | number = false;
+
+    /**
+     * How metadata is serialized
+     * @private
+     * @type {SerializationOptions}
+     */
+    private serialization: SerializationOptions = {};
+
+    /**
+     * How long `flush` and `close` wait for the transports
+     * @private
+     * @type {number}
+     * @default 5000
+     */
+    private flushTimeoutMs: number = 5000;
+
+    /**
+     * The transport capturing every entry in memory, replacing the file and console transports
+     * @private
+     * @type {MemoryTransport | undefined}
+     */
+    private memoryTransport?: MemoryTransport;
+
+    /**
+     * The minimum level and the per-context overrides. The object is shared with child loggers, which see changes to it.
+     * @private
+     * @type {{ level: string, overrides?: LevelOverrides }}
+     */
+    private levelState: { level: string; overrides?: LevelOverrides } = { level: 'info' };
+
+    /**
+     * The Winston logger instance
+     * @private
+     * @type {import('winston').Logger}
+     */
+    private get logger(): any {
+        return this.core.winston;
+    }
+
+    private set logger(winston: any) {
+        this.core.winston = winston;
+    }
+
     /**
      * Creates an instance of Logger.
      * @constructor
      * @param {string} [context] - The context string to be included in log messages. This helps in identifying the source of the log entry.
      * @param {string} [logFilePath='logs/combined.log'] - The default path for the log file. Can be absolute or relative.
-     * @param {Object} [options] - Additional options for configuring the logger
+     * @param {LoggerOptions} [options] - Additional options for configuring the logger
      * @param {boolean} [options.recursive] - Whether to create parent directories recursively for the log file path
+     * @param {LogRotationOptions} [options.rotation] - Size- and time-based rotation with retention for the log files
      * 
      * @example
      * // Create a logger with default settings
@@ -61,19 +334,199 @@ export class Logger {
      * @example
      * // Create a logger with custom context and log file path
      * const logger = new Logger('MyApp', '/var/log/myapp.log', { recursive: true });
+     *
+     * @example
+     * // Rotate daily or at 10 MB, gzip old files and keep two weeks of them
+     * const logger = new Logger('MyApp', 'logs/app.log', { rotation: { interval: 'daily', maxSize: '10m', compress: true, maxAge: '14d' } });
      */
     constructor(
         private context?: string, 
         logFilePath: string = 'logs/combined.log',
-        options?: { 
-        /**
-         * If true, creates all necessary parent directories.
-         * If false or not provided, throws an error if the immediate parent directory doesn't exist.
-         */
-        recursive?: boolean }
+        options?: LoggerOptions
     ) {
         this.logFilePath = logFilePath;
-        this.setLogFilePath(this.logFilePath, options);
+        if (options?.onError) {
+            this.onError = options.onError;
+        }
+        if (options?.output) {
+            this.setOutputMode(options.output, false);
+        }
+        if (options?.defaultMeta) {
+            this.defaultMeta = options.defaultMeta;
+        }
+        if (options?.redact) {
+            this.setRedaction(options.redact);
+        }
+        if (options?.sampling) {
+            this.setSampling(options.sampling);
+        }
+        if (options?.timestamp) {
+            validateTimestampFormat(options.timestamp);
+            this.timestamp = { ...this.timestamp, ...options.timestamp };
+        }
+        if (options?.levels) {
+            this.levels = resolveLevels(options.levels, [...Object.getOwnPropertyNames(Logger.prototype), ...Object.keys(this)]);
+            this.defineLevelMethods();
+        }
+        if (options?.exitOnFatal !== undefined) {
+            this.exitOnFatal = options.exitOnFatal;
+        }
+        if (options?.serialization) {
+            this.serialization = options.serialization;
+        }
+        if (options?.flushTimeoutMs !== undefined) {
+            this.flushTimeoutMs = options.flushTimeoutMs;
+        }
+        if (options?.levelOverrides) {
+            this.levelState.overrides = new LevelOverrides(options.levelOverrides, this.getLevels());
+        }
+        if (options?.memory) {
+            this.memoryTransport = options.memory;
+            this.initLogger();
+        } else {
+            this.setLogFilePath(this.logFilePath, options);
+        }
+        const ref = new WeakRef<Logger<string>>(this);
+        liveLoggers.add(ref);
+        collectedLoggers.register(this, ref, ref);
+    }
+
+    /**
+     * @static
+     * @method withLevels
+     * @description Creates a logger with custom levels added to the defaults, and a typed method for each of them
+     * @param {Object<string, LevelDefinition>} levels - The custom levels
+     * @param {string} [context] - The context string to be included in log messages
+     * @param {string} [logFilePath='logs/combined.log'] - The path of the log file
+     * @param {LoggerOptions} [options] - Additional options
+     * @returns {Logger} The logger, with one method per custom level
+     * @throws {LoggerInitializationError} If a level is invalid or its name conflicts with a Logger method
+     *
+     * @example
+     * const logger = Logger.withLevels({ notice: { priority: 3.5, color: 'cyan' } }, 'App');
+     * logger.notice('Configuration reloaded');
+     * logger.setLogLevel('notice');
+     */
+    public static withLevels<C extends string>(
+        levels: Record<C, LevelDefinition>,
+        context?: string,
+        logFilePath?: string,
+        options?: Omit<LoggerOptions, 'levels'>
+    ): Logger<DefaultLevel | C> & LevelMethods<C> {
+        return new Logger(context, logFilePath, { ...options, levels }) as unknown as Logger<DefaultLevel | C> & LevelMethods<C>;
+    }
+
+    /**
+     * @static
+     * @method createTestLogger
+     * @description Creates a logger that captures structured entries in memory and writes nothing,
+     * with assertion helpers and a snapshot-friendly rendering. `defaultMeta` is empty unless given.
+     * @param {string} [context] - The context string to be included in log messages
+     * @param {LoggerOptions} [options] - Additional options; the level defaults to 'silly' so every entry is captured
+     * @returns {TestLogger} The logger, with `memory`, `entries`, `expectLogged`, `expectNotLogged`, `clear` and `snapshot`
+     *
+     * @example
+     * const logger = Logger.createTestLogger('Api');
+     * new ApiError(504, 'Gateway timeout').log(logger);
+     * logger.expectLogged({ level: 'error', message: /timeout/ });
+     * expect(logger.snapshot()).toMatchInlineSnapshot(`"ERROR [Api] API Error 504: Gateway timeout"`);
+     */
+    public static createTestLogger(context?: string, options?: Omit<LoggerOptions, 'memory' | 'recursive' | 'rotation'>): TestLogger {
+        const memory = new MemoryTransport();
+        const logger = new Logger(context, undefined, { defaultMeta: {}, ...options, memory });
+        logger.setLogLevel('silly');
+        return Object.assign(logger, {
+            memory,
+            get entries() {
+                return memory.entries;
+            },
+            expectLogged: memory.expectLogged.bind(memory),
+            expectNotLogged: memory.expectNotLogged.bind(memory),
+            clear: memory.clear.bind(memory),
+            snapshot: memory.snapshot.bind(memory),
+        });
+    }
+
+    /**
+     * @static
+     * @method flushAll
+     * @description Flushes every logger that has not been closed. Failures are reported like transport errors rather than rejected.
+     * @returns {Promise<void>}
+     */
+    public static async flushAll(): Promise<void> {
+        const loggers = [...liveLoggers].flatMap(ref => ref.deref() ?? []);
+        await Promise.all(loggers.map(logger => logger.flush().catch(error => logger.handleError(error))));
+    }
+
+    /**
+     * @static
+     * @method flushOnExit
+     * @description Flushes every logger that has not been closed when the process receives SIGTERM or SIGINT,
+     * or is about to exit because the event loop is empty. After a signal has been handled, it is raised again
+     * unless another listener is installed, so the default behavior of ending the process is kept.
+     * Installing the hook more than once has no further effect.
+     * @returns {Function} Removes the hook
+     *
+     * @example
+     * const uninstall = Logger.flushOnExit();
+     */
+    public static flushOnExit(): () => void {
+        if (uninstallExitHook) {
+            return uninstallExitHook;
+        }
+
+        const onSignal = (signal: NodeJS.Signals) => {
+            uninstall();
+            void Logger.flushAll().then(() => {
+                if (process.listenerCount(signal) === 0) {
+                    process.kill(process.pid, signal);
+                }
+            });
+        };
+        const onBeforeExit = () => {
+            process.off('beforeExit', onBeforeExit);
+            void Logger.flushAll();
+        };
+        const uninstall = () => {
+            process.off('SIGTERM', onSignal);
+            process.off('SIGINT', onSignal);
+            process.off('beforeExit', onBeforeExit);
+            uninstallExitHook = undefined;
+        };
+
+        process.on('SIGTERM', onSignal);
+        process.on('SIGINT', onSignal);
+        process.on('beforeExit', onBeforeExit);
+        uninstallExitHook = uninstall;
+        return uninstall;
+    }
+
+    /**
+     * @static
+     * @method fromConfig
+     * @description Creates a logger from configuration loaded with `loadConfig`.
+     * The log directory is created if it does not exist.
+     * @param {LoggerConfig} config - The LOG_LEVEL, LOG_DIR, LOG_FORMAT and LOG_DEBUG settings
+     * @param {string} [context] - The context string to be included in log messages
+     * @param {LoggerOptions} [options] - Additional options, which take precedence over the configuration
+     * @returns {Logger} The configured logger
+     *
+     * @example
+     * const logger = Logger.fromConfig(loadConfig(loggerConfigSchema), 'MyApp');
+     */
+    public static fromConfig(config: LoggerConfig, context?: string, options?: LoggerOptions): Logger {
+        const logger = new Logger(context, path.join(config.LOG_DIR ?? 'logs', 'combined.log'), {
+            recursive: true,
+            ...(config.LOG_FORMAT && { output: config.LOG_FORMAT }),
+            ...options
+        });
+        if (config.LOG_LEVEL) {
+            logger.setLogLevel(config.LOG_LEVEL as DefaultLevel);
+        }
+        if (config.LOG_DEBUG !== undefined && !(options && 'levelOverrides' in options)) {
+            logger.setLevelOverrides(config.LOG_DEBUG);
+        }
+        return logger;
     }
 
     /**
@@ -90,9 +543,12 @@ export class Logger {
      * @param {boolean} [options.recursive] - Whether to create parent directories recursively.
      * If set to true, it will create all necessary parent directories. If false or not provided,
      * it will throw an error if the immediate parent directory doesn't exist.
+     * @param {LogRotationOptions} [options.rotation] - Replaces the rotation settings of the file transports.
+     * The previous files are closed once their pending entries are written.
      * 
      * @throws {Error} If the log directory doesn't exist and the recursive option is not set to true.
      * This error helps prevent unintended creation of directories.
+     * @throws {LoggerInitializationError} If called on a child logger
      * 
      * @example
      * // Set log file path with recursive directory creation
@@ -102,13 +558,12 @@ export class Logger {
      * // Set log file path without recursive creation (immediate parent must exist)
      * logger.setLogFilePath('./logs/app.log');
      */
-    public setLogFilePath(filePath: string, options?: { 
-        /**
-         * If true, creates all necessary parent directories.
-         * If false or not provided, throws an error if the immediate parent directory doesn't exist.
-         */
-        recursive?: boolean }): void {
+    public setLogFilePath(filePath: string, options?: Pick<LoggerOptions, 'recursive' | 'rotation'>): void {
+        this.assertRoot('setLogFilePath');
         this.logFilePath = filePath;
+        if (options?.rotation) {
+            this.rotation = options.rotation;
+        }
         const dir = path.dirname(this.logFilePath);
 
         if (!fs.existsSync(dir)) {
@@ -124,10 +579,12 @@ export class Logger {
 
     /**
      * @method setLogFileName
-     * @description Sets the log file name and updates the log file path
+     * @description Sets the log file name and updates the log file path. The previous files are closed once their pending entries are written.
      * @param {string} fileName - The new file name for the log file
+     * @throws {LoggerInitializationError} If called on a child logger
      */
     public setLogFileName(fileName: string): void {
+        this.assertRoot('setLogFileName');
         this.logFileName = fileName;
         this.logFilePath = path.join(path.dirname(this.logFilePath), this.logFileName);
         this.initLogger();
@@ -135,122 +592,429 @@ export class Logger {
 
     /**
      * @method setLogFormat
-     * @description Sets the format string for log messages
+     * @description Sets the format string for log messages. The template is validated before it is applied.
+     *
+     * Tokens: `{level}`, `{timestamp}`, `{message}`, `{context}`, `{service}`, `{pid}`, `{hostname}`,
+     * `{elapsed}` (ms since the previous entry) and `{meta.<path>}`. Tokens may be repeated.
+     * Modifiers: `{level|lower}`, `upper`, `capitalize`, `pad:N`, `padStart:N`, `truncate:N`, and `raw`
+     * for the plain level and context. `{? ... ?}` disappears when a token inside it has no value.
      * @param {string} format - The new format string
+     * @throws {LoggerInitializationError} If the template is invalid, or if called on a child logger
+     *
+     * @example
+     * logger.setLogFormat('{timestamp} {level|pad:7}{? [{context|raw}]?}{? req={meta.requestId}?} {message} +{elapsed}ms');
      */
     public setLogFormat(format: string): void {
+        this.assertRoot('setLogFormat');
+        this.template = compileLogTemplate(format);
         this.logFormat = format;
         this.initLogger();
     }
 
+    /**
+     * @method setTimestampFormat
+     * @description Sets the timestamp format and time zone of log entries
+     * @param {TimestampOptions} options - 'iso' for ISO 8601 with milliseconds in UTC, 'epoch', or a pattern
+     * built from YYYY, MM, DD, HH, mm, ss, SSS and Z; `utc` renders patterns in UTC
+     * @throws {LoggerInitializationError} If the format contains no date or time field, or if called on a child logger
+     *
+     * @example
+     * logger.setTimestampFormat({ format: 'YYYY-MM-DDTHH:mm:ss.SSSZ', utc: true });
+     */
+    public setTimestampFormat(options: TimestampOptions): void {
+        this.assertRoot('setTimestampFormat');
+        validateTimestampFormat(options);
+        this.timestamp = { ...options };
+        this.initLogger();
+    }
+
+    /**
+     * @method getLogFormat
+     * @description Returns the format string for log messages
+     * @returns {string} The current format string
+     */
+    public getLogFormat(): string {
+        return this.logFormat;
+    }
+
+    /**
+     * @method getContext
+     * @description Returns the context of the logger, including the contexts of its parents, e.g. 'App:Billing'
+     * @returns {string | undefined} The context
+     */
+    public getContext(): string | undefined {
+        return this.context;
+    }
+
+    /**
+     * @method getLogFiles
+     * @description Returns the paths of the files this logger writes to
+     * @returns {{ combined: string, error: string }} The combined log file and its sibling error log file
+     */
+    public getLogFiles(): { combined: string; error: string } {
+        return { combined: this.logFilePath, error: path.join(path.dirname(this.logFilePath), 'error.log') };
+    }
+
+    /**
+     * @method getLogOutput
+     * @description Returns the output mode of the console and file transports
+     * @returns {{ console: LogOutputFormat, file: LogOutputFormat }} The current output modes
+     */
+    public getLogOutput(): { console: LogOutputFormat; file: LogOutputFormat } {
+        return { ...this.output };
+    }
+
+    /**
+     * @method setLogOutput
+     * @description Sets the output mode of the console and file transports
+     * @param {LogOutputOptions} output - 'text', 'json' or 'otel' for both targets, or an object with one mode per target
+     * @throws {LoggerInitializationError} If called on a child logger
+     *
+     * @example
+     * // Pretty text on the console, NDJSON in the files
+     * logger.setLogOutput({ console: 'text', file: 'json' });
+     */
+    public setLogOutput(output: LogOutputOptions): void {
+        this.assertRoot('setLogOutput');
+        this.setOutputMode(output, true);
+    }
+
+    /**
+     * @method setRedaction
+     * @description Sets what to redact from the message and metadata of every entry, or disables redaction
+     * @param {RedactionOptions} [options] - The redaction options, or undefined to disable redaction
+     *
+     * @example
+     * logger.setRedaction({ keys: [...SENSITIVE_KEYS], paths: ['card.*'], patterns: [REDACTION_PATTERNS.jwt] });
+     */
+    public setRedaction(options?: RedactionOptions): void {
+        if (options) {
+            this.redactor = createRedactor(options);
+        } else {
+            delete this.redactor;
+        }
+    }
+
+    /**
+     * @method redact
+     * @description Applies the logger's redaction to a value written outside of its entries, such as an audit record
+     * @param {T} value - The value
+     * @returns {T} A redacted copy, or the value itself if redaction is disabled
+     */
+    public redact<T>(value: T): T {
+        return this.redactor ? this.redactor(value) : value;
+    }
+
+    /**
+     * @method setSampling
+     * @description Sets the per-level sampling, deduplication and rate cap policies, or disables them.
+     * Fatal, error and audit entries are never dropped unless their level is configured explicitly.
+     * @param {SamplingOptions} [options] - The policies keyed by level, with '*' for all other levels
+     *
+     * @example
+     * // Keep 10% of debug entries, collapse repeats within 5 s and allow 50 warnings per second per context
+     * logger.setSampling({ debug: { sampleRate: 0.1 }, '*': { dedupeWindowMs: 5000 }, warn: { dedupeWindowMs: 5000, maxPerSecond: 50 } });
+     */
+    public setSampling(options?: SamplingOptions): void {
+        this.sampler?.flush();
+        if (options) {
+            this.sampler = new LogSampler(options, (level, message, meta) => this.write(level, message, meta));
+        } else {
+            delete this.sampler;
+        }
+    }
+
+    /**
+     * @private
+     * @method setOutputMode
+     * @description Applies output options and optionally rebuilds the Winston logger
+     * @param {LogOutputOptions} output - The output options
+     * @param {boolean} reinitialize - Whether to rebuild the Winston logger
+     */
+    private setOutputMode(output: LogOutputOptions, reinitialize: boolean): void {
+        this.output = typeof output === 'string'
+            ? { console: output, file: output }
+            : { console: output.console ?? this.output.console, file: output.file ?? this.output.file };
+        if (reinitialize) {
+            this.initLogger();
+        }
+    }
+
+    /**
+     * @private
+     * @method assertRoot
+     * @description Throws if this logger is a child, whose transports belong to the logger it descends from
+     * @param {string} method - The setter that was called
+     * @throws {LoggerInitializationError} If this logger is a child
+     */
+    private assertRoot(method: string): void {
+        if (this.isChild) {
+            throw new LoggerInitializationError(`${method} cannot be called on a child logger, call it on the logger the child was created from`, 'child');
+        }
+    }
+
     /**
      * @private
      * @method initLogger
      * @description Initializes the Winston logger with the current configuration
      */
     private initLogger(): void {
-        const customFormat = format.printf(({ level, message, timestamp, ...metadata }) => {
-            let msg = this.logFormat
-                .replace('{level}', level ? level.toUpperCase() : '')
-                .replace('{timestamp}', timestamp || '')
-                .replace('{context}', this.context ? ` - [${this.context}]` : '')
-                .replace('{message}', message);
-
-            if (Object.keys(metadata).length > 0) {
-                msg += ` ${JSON.stringify(metadata)}`;
-            }
+        if (this.logger) {
+            const previous = this.logger;
+            this.core.retired = this.core.retired
+                .then(() => this.withinTimeout(deadline => Logger.shutdown(previous, deadline), 'close'))
+                .catch(error => this.handleError(error));
+        }
 
-            return msg;
+        const customFormat = format.printf((info) => this.template.render(info));
+
+        // Entries may be formatted after a delay, so both use the time the entry was logged
+        const timestamp = format((info) => {
+            info['timestamp'] = formatTimestamp(new Date((info as any)[CREATED] ?? Date.now()), this.timestamp);
+            return info;
+        });
+        let previous: number | undefined;
+        const elapsed = format((info) => {
+            const now: number = (info as any)[CREATED] ?? Date.now();
+            (info as any)[ELAPSED] = previous === undefined ? 0 : now - previous;
+            previous = now;
+            return info;
         });
 
         this.logger = createLogger({
-            level: 'info',
+            level: this.winstonLevel(),
+            levels: Object.fromEntries(Object.entries(this.levels).map(([name, definition]) => [name, definition.priority])),
             format: format.combine(
-                format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
+                timestamp(),
+                elapsed(),
                 format.errors({ stack: true }),
                 format.splat(),
                 customFormat
             ),
-            defaultMeta: { service: 'user-service' },
-            transports: [
-                new transports.File({ filename: path.join(path.dirname(this.logFilePath), 'error.log'), level: 'error' }),
-                new transports.File({ filename: this.logFilePath })
+            defaultMeta: this.defaultMeta,
+            transports: this.memoryTransport ? [this.memoryTransport] : [
+                this.createFileTransport(this.getLogFiles().error, 'error'),
+                this.createFileTransport(this.logFilePath)
             ]
         });
 
-        if (process.env['NODE_ENV'] !== 'production') {
+        this.logger.on('error', (error: Error) => this.handleError(error));
+        // Transports report recoverable problems, such as a lost syslog connection, as warnings
+        this.logger.on('warn', (warning: Error) => this.logWithLevel('warn', warning.message));
+
+        if (process.env['NODE_ENV'] !== 'production' && !this.memoryTransport) {
             this.logger.add(new transports.Console({
-                format: format.combine(
-                    format.colorize(),
-                    customFormat
-                )
+                format: this.output.console === 'text'
+                    ? format.combine(
+                        format.colorize({
+                            colors: Object.fromEntries(Object.entries(this.levels).flatMap(([name, definition]) => definition.color ? [[name, definition.color]] : []))
+                        }),
+                        customFormat
+                    )
+                    : this.structuredFormat(this.output.console)
             }));
         }
     }
 
+    /**
+     * @private
+     * @method handleError
+     * @description Reports a transport failure to `onError`, or logs it to the console
+     * @param {Error} error - The failure
+     */
+    private handleError(error: Error): void {
+        if (this.onError) {
+            this.onError(error);
+        } else if (error instanceof CustomError) {
+            error.log(console);
+        } else {
+            console.error(error);
+        }
+    }
+
+    /**
+     * @private
+     * @method createFileTransport
+     * @description Creates a file transport, which rotates the file only when rotation is configured.
+     * Unlike Winston's File transport, it can be flushed and closed without reaching into its internals.
+     * @param {string} filename - The path of the log file
+     * @param {string} [level] - The minimum level written to the file
+     * @returns {RotatingFileTransport} The file transport
+     */
+    private createFileTransport(filename: string, level?: string): RotatingFileTransport {
+        return new RotatingFileTransport({
+            filename,
+            ...(level && { level }),
+            ...(this.output.file !== 'text' && { format: this.structuredFormat(this.output.file) }),
+            ...this.rotation
+        });
+    }
+
+    /**
+     * @private
+     * @method structuredFormat
+     * @description Returns the Winston format for a structured output mode
+     * @param {LogOutputFormat} mode - 'json' or 'otel'
+     * @returns {import('logform').Format} The format
+     */
+    private structuredFormat(mode: LogOutputFormat) {
+        return mode === 'otel' ? otelFormat() : jsonFormat();
+    }
+
     /**
      * @method info
      * @description Logs an info level message
-     * @param {string} message - The message to log
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
      * @param {Object} [meta] - Additional metadata to include in the log
      */
-    public info(message: string, meta?: Object): void {
+    public info(message: string | Error, meta?: Object): void {
         this.logWithLevel('info', message, meta);
     }
 
     /**
      * @method warn
      * @description Logs a warn level message
-     * @param {string} message - The message to log
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
      * @param {Object} [meta] - Additional metadata to include in the log
      */
-    public warn(message: string, meta?: Object): void {
+    public warn(message: string | Error, meta?: Object): void {
         this.logWithLevel('warn', message, meta);
     }
 
     /**
      * @method error
      * @description Logs an error level message
-     * @param {string} message - The message to log
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
      * @param {Object} [meta] - Additional metadata to include in the log
      */
-    public error(message: string, meta?: Object): void {
+    public error(message: string | Error, meta?: Object): void {
         this.logWithLevel('error', message, meta);
     }
 
     /**
      * @method debug
      * @description Logs a debug level message
-     * @param {string} message - The message to log
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
      * @param {Object} [meta] - Additional metadata to include in the log
      */
-    public debug(message: string, meta?: Object): void {
+    public debug(message: string | Error, meta?: Object): void {
         this.logWithLevel('debug', message, meta);
     }
 
+    /**
+     * @method fatal
+     * @description Logs a fatal level message, then flushes every transport.
+     * With `exitOnFatal`, the process exits once the entry has been written.
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
+     * @param {Object} [meta] - Additional metadata to include in the log
+     * @returns {Promise<void>} Resolves once the entry has been flushed
+     */
+    public fatal(message: string | Error, meta?: Object): Promise<void> {
+        this.logWithLevel('fatal', message, meta);
+        return this.flush()
+            .catch(error => this.handleError(error))
+            .then(() => {
+                if (this.exitOnFatal !== false) {
+                    process.exit(this.exitOnFatal === true ? 1 : this.exitOnFatal);
+                }
+            });
+    }
+
+    /**
+     * @method audit
+     * @description Logs an audit level message. Audit entries are written whatever the log level, and are never sampled
+     * unless the 'audit' level is configured explicitly.
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
+     * @param {Object} [meta] - Additional metadata to include in the log
+     */
+    public audit(message: string | Error, meta?: Object): void {
+        this.logWithLevel('audit', message, meta);
+    }
+
+    /**
+     * @method http
+     * @description Logs an http level message
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
+     * @param {Object} [meta] - Additional metadata to include in the log
+     */
+    public http(message: string | Error, meta?: Object): void {
+        this.logWithLevel('http', message, meta);
+    }
+
+    /**
+     * @method trace
+     * @description Logs a trace level message
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
+     * @param {Object} [meta] - Additional metadata to include in the log
+     */
+    public trace(message: string | Error, meta?: Object): void {
+        this.logWithLevel('trace', message, meta);
+    }
+
+    /**
+     * @method silly
+     * @description Logs a silly level message
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
+     * @param {Object} [meta] - Additional metadata to include in the log
+     */
+    public silly(message: string | Error, meta?: Object): void {
+        this.logWithLevel('silly', message, meta);
+    }
+
     /**
      * @method verbose
      * @description Logs a verbose level message
-     * @param {string} message - The message to log
+     * @param {string|Error} message - The message to log, or an error to log with its message and details
      * @param {Object} [meta] - Additional metadata to include in the log
      */
-    public verbose(message: string, meta?: Object): void {
+    public verbose(message: string | Error, meta?: Object): void {
         this.logWithLevel('verbose', message, meta);
     }
 
     /**
      * @private
      * @method logWithLevel
-     * @description Internal method to log messages with a specific level
+     * @description Internal method to log messages with a specific level.
+     * Fields of the current request context are merged in first, then the bindings, then the call's metadata.
+     * Entries below the level of this logger's context, or dropped by the sampling policies, are not written.
+     * An error passed as the message is logged with its message and added to the metadata as `error`.
+     * Errors anywhere in the metadata are serialized with their details.
      * @param {string} level - The log level
-     * @param {string} message - The message to log
+     * @param {string|Error} message - The message to log, or an error
      * @param {Object} [meta] - Additional metadata to include in the log
      */
-    private logWithLevel(level: string, message: string, meta?: Object): void {
+    private logWithLevel(level: string, message: string | Error, meta?: Object): void {
+        if (!this.isLevelEnabled(level)) {
+            return;
+        }
+        const text = message instanceof Error ? message.message : message;
+        if (this.sampler && !this.sampler.accept(level, this.context, text)) {
+            return;
+        }
+
+        this.write(level, text, serializeValue({
+            ...getRequestContext(),
+            ...this.bindings,
+            ...(meta as Record<string, unknown>),
+            ...(message instanceof Error && { error: message }),
+            ...(this.context && { context: this.context })
+        }, this.serialization) as Record<string, unknown>);
+    }
+
+    /**
+     * @private
+     * @method write
+     * @description Redacts an entry and hands it to Winston, so no transport sees the original values
+     * @param {string} level - The log level
+     * @param {string} message - The message to log
+     * @param {Record<string, unknown>} fields - The complete metadata of the entry
+     */
+    private write(level: string, message: string, fields: Record<string, unknown>): void {
         this.logger.log({
             level,
-            message,
-            ...meta
+            message: this.redactor ? this.redactor(message) : message,
+            ...(this.redactor ? this.redactor(fields) : fields),
+            [CREATED]: Date.now()
         });
     }
 
@@ -261,12 +1025,7 @@ export class Logger {
      * @param {Object} [meta] - Additional metadata to include in the log
      */
     public logWithoutDetails(message: string, meta?: Object): void {
-        this.logger.log({
-            level: 'info',
-            message,
-            ...meta,
-            timestamp: false
-        });
+        this.logWithLevel('info', message, Object.assign({}, meta, { timestamp: false }));
     }
 
     /**
@@ -277,24 +1036,279 @@ export class Logger {
      * @param {string} [options.level] - The log level
      * @param {boolean} [options.timestamp] - Whether to include a timestamp
      * @param {Object} [options.meta] - Additional metadata to include in the log
+     * @throws {LoggerInitializationError} If the level is unknown
      */
-    public log(message: string, options?: { level?: string; timestamp?: boolean; meta?: Object }): void {
-        const { level, timestamp, meta = {} } = options || {};
-        this.logger.log({
-            level,
-            message,
+    public log(message: string, options?: { level?: L; timestamp?: boolean; meta?: Object }): void {
+        const { level = 'info', timestamp, meta = {} } = options || {};
+        this.assertLevel(level);
+        this.logWithLevel(level, message, {
             ...meta,
             timestamp: timestamp === undefined ? undefined : (timestamp ? undefined : false)
         });
     }
 
+    /**
+     * @method child
+     * @description Creates a child logger that shares this logger's transports and level.
+     * The child adds its bindings to every entry and nests its context under this logger's context.
+     * It starts with a copy of this logger's other settings, such as redaction and serialization, and changing them
+     * on either logger leaves the other alone. The files, format, timestamp format and output belong to the transports,
+     * so they can only be changed on the logger the transports were created by; the child's setters for them throw.
+     * @param {LoggerBindings} bindings - The context and metadata to bind to the child
+     * @returns {Logger} The child logger
+     *
+     * @example
+     * const billing = logger.child({ context: 'Billing', tenantId });
+     * billing.info('Invoice sent'); // [INFO] - [...] - [App:Billing] Invoice sent {"tenantId":"..."}
+     */
+    public child(bindings: LoggerBindings): this {
+        const { context, ...meta } = bindings;
+        const child: this = Object.assign(Object.create(Object.getPrototypeOf(this)), this, {
+            context: context ? (this.context ? `${this.context}:${context}` : context) : this.context,
+            bindings: { ...this.bindings, ...meta },
+            isChild: true,
+        });
+        if (this.levels !== DEFAULT_LEVELS) {
+            child.defineLevelMethods();
+        }
+        return child;
+    }
+
+    /**
+     * @method flush
+     * @description Waits until every entry logged so far has been written by every transport,
+     * including pending sampling summaries and the files replaced by `setLogFilePath` or `setLogFileName`
+     * @returns {Promise<void>}
+     * @throws {LogFileOperationError} If the transports have not caught up within `flushTimeoutMs`
+     *
+     * @example
+     * logger.info('Shutting down');
+     * await logger.flush();
+     */
+    public async flush(): Promise<void> {
+        this.sampler?.flush();
+        await this.core.retired;
+        const winston = this.logger;
+        await this.withinTimeout(deadline => Logger.drain(winston, deadline), 'flush');
+    }
+
+    /**
+     * @method close
+     * @description Flushes the logger and closes its transports and files. The logger cannot be used afterwards.
+     * Closing a child logger closes the transports it shares with its parent.
+     * @returns {Promise<void>} Resolves once every file is closed
+     * @throws {LogFileOperationError} If the transports have not closed within `flushTimeoutMs`
+     */
+    public async close(): Promise<void> {
+        for (const ref of liveLoggers) {
+            const logger = ref.deref();
+            if (!logger || logger.core === this.core) {
+                liveLoggers.delete(ref);
+                collectedLoggers.unregister(ref);
+            }
+        }
+        this.sampler?.flush();
+        await this.core.retired;
+        const winston = this.logger;
+        await this.withinTimeout(deadline => Logger.shutdown(winston, deadline), 'close');
+    }
+
+    /**
+     * @private
+     * @method withinTimeout
+     * @description Runs a flush or close of the transports, giving up after `flushTimeoutMs`
+     * @param {Function} work - The work, given the time at which it has to stop waiting
+     * @param {string} operation - 'flush' or 'close'
+     * @returns {Promise<void>}
+     * @throws {LogFileOperationError} If the work has not finished in time
+     */
+    private async withinTimeout(work: (deadline: number) => Promise<void>, operation: 'flush' | 'close'): Promise<void> {
+        let timer: NodeJS.Timeout | undefined;
+        const timedOut = new Promise<never>((_resolve, reject) => {
+            timer = setTimeout(() => reject(new LogFileOperationError(
+                `Log transports did not ${operation} within ${this.flushTimeoutMs}ms`, this.logFilePath, operation
+            )), this.flushTimeoutMs);
+        });
+        try {
+            await Promise.race([work(Date.now() + this.flushTimeoutMs), timedOut]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * @private
+     * @static
+     * @method drain
+     * @description Waits until a Winston logger and each of its transports have written every queued entry.
+     * The file and syslog transports are flushed; other transports are done once their queue is empty.
+     * @param {any} logger - The Winston logger
+     * @param {number} deadline - When to stop waiting
+     * @returns {Promise<void>}
+     */
+    private static async drain(logger: any, deadline: number): Promise<void> {
+        await Logger.waitFor(() => logger.readableLength === 0, deadline);
+        await Promise.all(logger.transports.map(async (transport: any) => {
+            await Logger.waitFor(() => !transport.writableLength, deadline);
+            if (transport instanceof RotatingFileTransport || transport instanceof SyslogTransport) {
+                await transport.flush();
+            }
+        }));
+    }
+
+    /**
+     * @private
+     * @static
+     * @method shutdown
+     * @description Drains a Winston logger, then closes it and waits until the file and syslog transports are closed
+     * @param {any} logger - The Winston logger
+     * @param {number} deadline - When to stop waiting
+     * @returns {Promise<void>}
+     */
+    private static async shutdown(logger: any, deadline: number): Promise<void> {
+        await Logger.drain(logger, deadline);
+        const closing: any[] = [...logger.transports];
+        logger.close();
+        await Promise.all(closing.map((transport) =>
+            transport instanceof RotatingFileTransport || transport instanceof SyslogTransport ? transport.close() : undefined));
+    }
+
+    /**
+     * @private
+     * @static
+     * @method waitFor
+     * @description Polls until a condition holds or the deadline has passed
+     * @param {Function} condition - The condition
+     * @param {number} deadline - When to stop polling, in milliseconds since the epoch
+     * @returns {Promise<void>}
+     */
+    private static async waitFor(condition: () => boolean, deadline: number): Promise<void> {
+        while (!condition() && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+    }
+
     /**
      * @method setLogLevel
      * @description Sets the minimum log level for the logger
      * @param {string} level - The new minimum log level
+     * @throws {LoggerInitializationError} If the level is unknown
+     */
+    public setLogLevel(level: L): void {
+        this.assertLevel(level);
+        this.levelState.level = level;
+        this.logger.level = this.winstonLevel();
+    }
+
+    /**
+     * @method getLogLevel
+     * @description Returns the level of this logger's context: its override if one selects it, otherwise the minimum log level
+     * @returns {string} The level
+     */
+    public getLogLevel(): string {
+        return this.levelState.overrides?.levelFor(this.context) ?? this.levelState.level;
+    }
+
+    /**
+     * @method setLevelOverrides
+     * @description Gives selected contexts their own level, DEBUG-style, or removes the overrides. Takes effect immediately,
+     * for this logger and the loggers sharing its transports.
+     *
+     * Patterns are separated by commas or spaces. `*` matches any characters. `pattern=level` selects at that level
+     * rather than 'debug'; `-pattern` excludes. A pattern matches the whole context or a trailing part of it,
+     * so `Billing` matches the child context 'App:Billing'.
+     * @param {string} [spec] - The overrides, e.g. 'Api*,Billing=trace,-Api:Health'
+     * @throws {LoggerInitializationError} If a pattern names an unknown level
+     *
+     * @example
+     * logger.setLevelOverrides(process.env.LOG_DEBUG);
+     * logger.setLevelOverrides('Api*,-ApiHealth');
+     */
+    public setLevelOverrides(spec?: string): void {
+        if (spec) {
+            this.levelState.overrides = new LevelOverrides(spec, this.getLevels());
+        } else {
+            delete this.levelState.overrides;
+        }
+        this.logger.level = this.winstonLevel();
+    }
+
+    /**
+     * @method getLevelOverrides
+     * @description Returns the current overrides as written
+     * @returns {string | undefined} The overrides
+     */
+    public getLevelOverrides(): string | undefined {
+        return this.levelState.overrides?.spec;
+    }
+
+    /**
+     * @method isLevelEnabled
+     * @description Checks whether entries of a level are written for this logger's context.
+     * Audit entries are always written: they record events, not verbosity.
+     * @param {string} level - The level
+     * @returns {boolean}
      */
-    public setLogLevel(level: string): void {
-        this.logger.level = level;
+    public isLevelEnabled(level: string): boolean {
+        if (level === 'audit') {
+            return true;
+        }
+        const enabled = this.levels[this.getLogLevel()];
+        const entry = this.levels[level];
+        return enabled !== undefined && entry !== undefined && entry.priority <= enabled.priority;
+    }
+
+    /**
+     * @private
+     * @method winstonLevel
+     * @description Returns the most verbose of the minimum level, the override levels and 'audit', so Winston passes on
+     * every entry that some context may write. Entries are filtered per context before they reach Winston.
+     * @returns {string} The level
+     */
+    private winstonLevel(): string {
+        const candidates = ['audit', this.levelState.level, ...(this.levelState.overrides?.levels() ?? [])];
+        return candidates.reduce((verbose, level) => this.levels[level]!.priority > this.levels[verbose]!.priority ? level : verbose);
+    }
+
+    /**
+     * @method getLevels
+     * @description Returns the names of the log levels, from the most to the least severe
+     * @returns {string[]} The level names
+     */
+    public getLevels(): string[] {
+        return Object.keys(this.levels).sort((a, b) => this.levels[a]!.priority - this.levels[b]!.priority);
+    }
+
+    /**
+     * @private
+     * @method assertLevel
+     * @description Checks that a level exists, so a typo fails instead of silently logging nothing
+     * @param {string} level - The level
+     * @throws {LoggerInitializationError} If the level is unknown
+     */
+    private assertLevel(level: string): void {
+        if (!Object.prototype.hasOwnProperty.call(this.levels, level)) {
+            throw new LoggerInitializationError(`Unknown log level '${level}'. Expected one of: ${this.getLevels().join(', ')}`, 'levels');
+        }
+    }
+
+    /**
+     * @private
+     * @method defineLevelMethods
+     * @description Adds a logging method for each level that has no built-in method
+     */
+    private defineLevelMethods(): void {
+        for (const level of Object.keys(this.levels)) {
+            if (!(level in this)) {
+                Object.defineProperty(this, level, {
+                    value: function (this: Logger<string>, message: string | Error, meta?: Object) {
+                        this.logWithLevel(level, message, meta);
+                    },
+                    configurable: true,
+                    writable: true,
+                });
+            }
+        }
     }
 
     /**
@@ -0,0 +1,578 @@
+/**
+ * @module LogReader
+ * @description This module reads the files a Logger writes back into structured records.
+ * It parses the text template set with `setLogFormat` as well as the JSON and OpenTelemetry output modes,
+ * filters records, and follows files as they grow and rotate.
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import * as readline from 'readline';
+import { StringDecoder } from 'string_decoder';
+import { Logger } from './logger';
+import { LogOutputFormat } from './formats';
+import { listRotatedFiles } from './rotation';
+import { LogFileOperationError } from './errors';
+import { TemplateNode, metadataPath, parseLogTemplate } from './template';
+
+/**
+ * A log entry read back from a file.
+ * @typedef {Object} LogRecord
+ * @property {string} [timestamp] - The timestamp as written
+ * @property {Date} [time] - The timestamp as a Date, when it could be parsed
+ * @property {string} level - The lowercase level name
+ * @property {string} [context] - The logger context
+ * @property {string} message - The message, including continuation lines such as stack traces
+ * @property {string} [service] - The service from the default metadata
+ * @property {unknown} [error] - The error field of the entry
+ * @property {Record<string, unknown>} meta - The remaining metadata
+ * @property {string} raw - The original text of the entry
+ */
+export interface LogRecord {
+    timestamp?: string;
+    time?: Date;
+    level: string;
+    context?: string;
+    message: string;
+    service?: string;
+    error?: unknown;
+    meta: Record<string, unknown>;
+    raw: string;
+}
+
+/**
+ * Criteria for selecting records. All given criteria must match.
+ * @typedef {Object} LogQuery
+ * @property {string|string[]} [level] - One or more level names
+ * @property {Date} [from] - Records at or after this time
+ * @property {Date} [to] - Records at or before this time
+ * @property {string|RegExp} [context] - The exact context, or a pattern matched against it
+ * @property {string|RegExp} [message] - A substring of, or a pattern matched against, the message
+ * @property {Record<string, unknown>} [meta] - Metadata values by key or dotted path, compared for equality
+ * @property {number} [limit] - The maximum number of records to return
+ */
+export interface LogQuery {
+    level?: string | string[];
+    from?: Date;
+    to?: Date;
+    context?: string | RegExp;
+    message?: string | RegExp;
+    meta?: Record<string, unknown>;
+    limit?: number;
+}
+
+/**
+ * Where and how to read log files when no Logger is at hand.
+ * @typedef {Object} LogReaderOptions
+ * @property {string} filePath - The combined log file
+ * @property {string} [errorFilePath] - The error log file
+ * @property {string} [format] - The template the text files were written with
+ * @property {LogOutputFormat} [output='text'] - The output mode the files were written with
+ */
+export interface LogReaderOptions {
+    filePath: string;
+    errorFilePath?: string;
+    format?: string;
+    output?: LogOutputFormat;
+}
+
+/**
+ * Options for reading files.
+ * @typedef {Object} LogReadOptions
+ * @property {'combined'|'error'} [file='combined'] - Which of the logger's files to read
+ * @property {boolean} [includeRotated=true] - Whether to read rotated files before the active file
+ */
+export interface LogReadOptions {
+    file?: 'combined' | 'error';
+    includeRotated?: boolean;
+}
+
+/**
+ * Options for following a file.
+ * @typedef {Object} LogTailOptions
+ * @property {'combined'|'error'} [file='combined'] - Which of the logger's files to follow
+ * @property {AbortSignal} [signal] - Stops following when aborted
+ * @property {number} [pollIntervalMs=250] - How often to check the file for new entries
+ * @property {boolean} [fromStart=false] - Whether to yield the entries already in the file
+ */
+export interface LogTailOptions {
+    file?: 'combined' | 'error';
+    signal?: AbortSignal;
+    pollIntervalMs?: number;
+    fromStart?: boolean;
+}
+
+const DEFAULT_FORMAT = '[{level}] - [{timestamp}]{context} {message}';
+
+const TOKEN_PATTERNS: Record<string, string> = {
+    level: '[A-Za-z]+',
+    timestamp: '.*?',
+    context: '.*?',
+    message: '.*?',
+    pid: '\\d+',
+    elapsed: '\\d+',
+};
+
+const CAPTURED_TOKENS = new Set(['level', 'timestamp', 'context', 'message']);
+
+/**
+ * Reads, queries and follows the files written by a Logger.
+ *
+ * @class
+ *
+ * @example
+ * const reader = new LogReader(logger);
+ * const failures = await reader.query({ level: 'error', context: /^Api/, from: new Date(Date.now() - 3600000) });
+ *
+ * @example
+ * for await (const record of reader.tail({ level: ['warn', 'error'] })) {
+ *   console.log(record.message);
+ * }
+ */
+export class LogReader {
+    private readonly files: { combined: string; error?: string };
+    private readonly output: LogOutputFormat;
+    private readonly linePattern: RegExp;
+
+    /**
+     * The paths of the metadata fields printed by the template, by the index of their capture group
+     * @private
+     * @type {string[][]}
+     */
+    private readonly printedFields: string[][];
+
+    /**
+     * Creates an instance of LogReader.
+     * @constructor
+     * @param {Logger|LogReaderOptions} source - The logger whose files to read, or the files and format to read
+     */
+    constructor(source: Logger | LogReaderOptions) {
+        if (source instanceof Logger) {
+            this.files = source.getLogFiles();
+            this.output = source.getLogOutput().file;
+            ({ pattern: this.linePattern, fields: this.printedFields } = LogReader.compileLinePattern(source.getLogFormat()));
+        } else {
+            this.files = { combined: source.filePath, ...(source.errorFilePath && { error: source.errorFilePath }) };
+            this.output = source.output ?? 'text';
+            ({ pattern: this.linePattern, fields: this.printedFields } = LogReader.compileLinePattern(source.format ?? DEFAULT_FORMAT));
+        }
+    }
+
+    /**
+     * @static
+     * @method compileTemplate
+     * @description Converts a log format template into a pattern that matches one written line.
+     * The first occurrence of level, timestamp, context and message is captured; conditional sections are optional.
+     * @param {string} template - The template
+     * @returns {RegExp} The line pattern
+     * @throws {LoggerInitializationError} If the template is invalid
+     */
+    public static compileTemplate(template: string): RegExp {
+        return LogReader.compileLinePattern(template).pattern;
+    }
+
+    /**
+     * @private
+     * @static
+     * @method compileLinePattern
+     * @description Converts a log format template into a line pattern. The first unmodified occurrence of each
+     * `{service}` and `{meta.<path>}` token is captured as well, since those fields are not repeated in the trailing JSON.
+     * @param {string} template - The template
+     * @returns {{ pattern: RegExp, fields: string[][] }} The line pattern, and the paths of the fields captured as `field0`, `field1`, ...
+     * @throws {LoggerInitializationError} If the template is invalid
+     */
+    private static compileLinePattern(template: string): { pattern: RegExp; fields: string[][] } {
+        const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const captured = new Set<string>();
+        const fields: string[][] = [];
+
+        const compileNodes = (nodes: TemplateNode[]): string => nodes.map((node) => {
+            if (node.type === 'text') {
+                return escape(node.value);
+            }
+            if (node.type === 'section') {
+                return `(?:${compileNodes(node.nodes)})?`;
+            }
+
+            const raw = node.modifiers.some(modifier => modifier.name === 'raw');
+            const padded = node.modifiers.some(modifier => modifier.name === 'pad' || modifier.name === 'padStart');
+            let pattern = TOKEN_PATTERNS[node.name] ?? '.*?';
+            const path = metadataPath(node.name);
+            if (CAPTURED_TOKENS.has(node.name) && !captured.has(node.name)) {
+                captured.add(node.name);
+                pattern = `(?<${node.name}>${pattern})`;
+            } else if (path && node.modifiers.every(modifier => ['raw', 'pad', 'padStart'].includes(modifier.name)) && !captured.has(node.name)) {
+                // Modified values, e.g. truncated ones, cannot be read back
+                captured.add(node.name);
+                pattern = `(?<field${fields.length}>${pattern})`;
+                fields.push(path);
+            }
+            if (node.name === 'context' && !raw) {
+                pattern = `(?: - \\[${pattern.replace('.*?', '[^\\]]*')}\\])?`;
+            }
+            return padded ? `\\s*${pattern}\\s*` : pattern;
+        }).join('');
+
+        return { pattern: new RegExp(`^${compileNodes(parseLogTemplate(template))}(?: (?<meta>\\{.*\\}))?$`), fields };
+    }
+
+    /**
+     * @method parseLine
+     * @description Parses one line written by the logger
+     * @param {string} line - The line
+     * @returns {LogRecord | undefined} The record, or undefined if the line is not the start of an entry
+     */
+    public parseLine(line: string): LogRecord | undefined {
+        if (this.output === 'text') {
+            return this.parseTextLine(line);
+        }
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(line);
+        } catch {
+            return undefined;
+        }
+        if (parsed === null || typeof parsed !== 'object') {
+            return undefined;
+        }
+
+        if (this.output === 'otel') {
+            const time = parsed.Timestamp ? new Date(Number(BigInt(parsed.Timestamp) / 1000000n)) : undefined;
+            return {
+                ...(time && { timestamp: time.toISOString(), time }),
+                level: String(parsed.SeverityText ?? 'info').toLowerCase(),
+                ...(parsed.InstrumentationScope?.Name && { context: parsed.InstrumentationScope.Name }),
+                message: String(parsed.Body ?? ''),
+                ...(parsed.Resource?.['service.name'] && { service: parsed.Resource['service.name'] }),
+                meta: { ...parsed.Attributes, ...(parsed.TraceId && { traceId: parsed.TraceId }), ...(parsed.SpanId && { spanId: parsed.SpanId }) },
+                raw: line,
+            };
+        }
+
+        const { timestamp, level, context, message, service, error, meta } = parsed;
+        return {
+            ...(timestamp && { timestamp, ...LogReader.parseTime(timestamp) }),
+            level: String(level ?? 'info'),
+            ...(context && { context }),
+            message: String(message ?? ''),
+            ...(service && { service }),
+            ...(error !== undefined && { error }),
+            meta: meta ?? {},
+            raw: line,
+        };
+    }
+
+    /**
+     * @method matches
+     * @description Checks a record against a query
+     * @param {LogRecord} record - The record
+     * @param {LogQuery} query - The criteria
+     * @returns {boolean} True if the record meets all criteria
+     */
+    public matches(record: LogRecord, query: LogQuery): boolean {
+        if (query.level !== undefined && ![query.level].flat().includes(record.level)) {
+            return false;
+        }
+        if ((query.from || query.to) && !record.time) {
+            return false;
+        }
+        if (query.from && record.time! < query.from) {
+            return false;
+        }
+        if (query.to && record.time! > query.to) {
+            return false;
+        }
+        if (query.context !== undefined && !LogReader.matchText(record.context, query.context, true)) {
+            return false;
+        }
+        if (query.message !== undefined && !LogReader.matchText(record.message, query.message, false)) {
+            return false;
+        }
+        if (query.meta) {
+            for (const [key, expected] of Object.entries(query.meta)) {
+                const actual = key.split('.').reduce<any>((value, segment) => value?.[segment], record.meta);
+                if (actual !== expected) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    }
+
+    /**
+     * @method read
+     * @description Reads the records of a file, oldest first, including rotated and gzipped files
+     * @param {LogQuery} [query] - The criteria records must meet
+     * @param {LogReadOptions} [options] - Which file to read
+     * @returns {AsyncGenerator<LogRecord>} The matching records
+     * @throws {LogFileOperationError} If a file cannot be read
+     */
+    public async *read(query: LogQuery = {}, options: LogReadOptions = {}): AsyncGenerator<LogRecord> {
+        const file = this.resolveFile(options.file);
+        const paths = [...(options.includeRotated === false ? [] : listRotatedFiles(file)), file].filter(p => fs.existsSync(p));
+        let count = 0;
+
+        for (const filePath of paths) {
+            let pending: LogRecord | undefined;
+            try {
+                const input = filePath.endsWith('.gz') ? fs.createReadStream(filePath).pipe(zlib.createGunzip()) : fs.createReadStream(filePath);
+                for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+                    const record = this.parseLine(line);
+                    if (!record) {
+                        if (pending && line.length > 0) {
+                            pending.message += `\n${line}`;
+                            pending.raw += `\n${line}`;
+                        }
+                        continue;
+                    }
+                    if (pending && this.matches(pending, query)) {
+                        yield pending;
+                        if (query.limit !== undefined && ++count >= query.limit) return;
+                    }
+                    pending = record;
+                }
+            } catch (error) {
+                throw new LogFileOperationError(`Failed to read log file: ${(error as Error).message}`, filePath, 'read');
+            }
+            if (pending && this.matches(pending, query)) {
+                yield pending;
+                if (query.limit !== undefined && ++count >= query.limit) return;
+            }
+        }
+    }
+
+    /**
+     * @method query
+     * @description Collects the records of a file that meet the criteria
+     * @param {LogQuery} [query] - The criteria records must meet
+     * @param {LogReadOptions} [options] - Which file to read
+     * @returns {Promise<LogRecord[]>} The matching records, oldest first
+     */
+    public async query(query: LogQuery = {}, options: LogReadOptions = {}): Promise<LogRecord[]> {
+        const records: LogRecord[] = [];
+        for await (const record of this.read(query, options)) {
+            records.push(record);
+        }
+        return records;
+    }
+
+    /**
+     * @method tail
+     * @description Follows a file and yields new matching records as they are written.
+     * When the file is rotated, the rest of the old file is read before switching to the new one.
+     * @param {LogQuery} [query] - The criteria records must meet
+     * @param {LogTailOptions} [options] - Which file to follow, how often to poll and when to stop
+     * @returns {AsyncGenerator<LogRecord>} The matching records
+     */
+    public async *tail(query: LogQuery = {}, options: LogTailOptions = {}): AsyncGenerator<LogRecord> {
+        const file = this.resolveFile(options.file);
+        const interval = options.pollIntervalMs ?? 250;
+        let handle: fs.promises.FileHandle | undefined;
+        let position = 0;
+        let buffered = '';
+        // Keeps the bytes of a character split across two reads until the rest arrives
+        const decoder = new StringDecoder('utf8');
+        let count = 0;
+        let first = true;
+        let draining = false;
+
+        try {
+            while (!options.signal?.aborted) {
+                if (!handle) {
+                    handle = await fs.promises.open(file, 'r').catch(() => undefined);
+                    position = handle && first && !options.fromStart ? (await handle.stat()).size : 0;
+                    first = false;
+                }
+
+                if (handle) {
+                    let text = buffered;
+                    for (;;) {
+                        const { bytesRead, buffer } = await handle.read(Buffer.alloc(64 * 1024), 0, 64 * 1024, position);
+                        if (bytesRead === 0) break;
+                        text += decoder.write(buffer.subarray(0, bytesRead));
+                        position += bytesRead;
+                    }
+
+                    const lines = text.split('\n');
+                    buffered = lines.pop() ?? '';
+                    for (const record of this.parseLines(lines)) {
+                        if (this.matches(record, query)) {
+                            yield record;
+                            if (query.limit !== undefined && ++count >= query.limit) return;
+                        }
+                    }
+
+                    // Once the file has been rotated away, read the old file one more time
+                    // after the writer had a chance to flush it, then switch to the new file
+                    const current = await fs.promises.stat(file).catch(() => undefined);
+                    const rotated = !current || current.ino !== (await handle.stat()).ino;
+                    if (rotated && draining) {
+                        buffered += decoder.end();
+                        await handle.close();
+                        handle = undefined;
+                        draining = false;
+                        continue;
+                    }
+                    draining = rotated;
+                }
+
+                await new Promise(resolve => setTimeout(resolve, interval));
+            }
+        } finally {
+            await handle?.close();
+        }
+    }
+
+    /**
+     * @private
+     * @method parseLines
+     * @description Parses a batch of complete lines, attaching continuation lines to the preceding record
+     * @param {string[]} lines - The lines
+     * @returns {LogRecord[]} The records
+     */
+    private parseLines(lines: string[]): LogRecord[] {
+        const records: LogRecord[] = [];
+        for (const line of lines) {
+            const record = this.parseLine(line);
+            const previous = records[records.length - 1];
+            if (record) {
+                records.push(record);
+            } else if (previous && line.length > 0) {
+                previous.message += `\n${line}`;
+                previous.raw += `\n${line}`;
+            }
+        }
+        return records;
+    }
+
+    /**
+     * @private
+     * @method parseTextLine
+     * @description Parses a line written with the text template
+     * @param {string} line - The line
+     * @returns {LogRecord | undefined} The record, or undefined if the line does not match the template
+     */
+    private parseTextLine(line: string): LogRecord | undefined {
+        const match = this.linePattern.exec(line)?.groups;
+        if (!match) {
+            return undefined;
+        }
+        const groups = Object.fromEntries(Object.entries(match).map(([key, value]) => [key, key === 'meta' ? value : value?.trim()]));
+
+        let meta: Record<string, unknown> = {};
+        let message = groups['message'] ?? '';
+        if (groups['meta']) {
+            try {
+                meta = JSON.parse(groups['meta']);
+            } catch {
+                message = `${message} ${groups['meta']}`;
+            }
+        }
+        this.printedFields.forEach((path, index) => {
+            const value = groups[`field${index}`];
+            if (value) {
+                meta = setPath(meta, path, parseFieldValue(value));
+            }
+        });
+        const { service, error, ...rest } = meta;
+
+        return {
+            ...(groups['timestamp'] && { timestamp: groups['timestamp'], ...LogReader.parseTime(groups['timestamp']) }),
+            level: (groups['level'] ?? 'info').toLowerCase(),
+            ...(groups['context'] && { context: groups['context'] }),
+            message,
+            ...(typeof service === 'string' && { service }),
+            ...(error !== undefined && { error }),
+            meta: rest,
+            raw: line,
+        };
+    }
+
+    /**
+     * @private
+     * @method resolveFile
+     * @description Returns the path of the combined or error log file
+     * @param {'combined'|'error'} [file='combined'] - Which file
+     * @returns {string} The path
+     * @throws {LogFileOperationError} If the error log file is requested but unknown
+     */
+    private resolveFile(file: 'combined' | 'error' = 'combined'): string {
+        if (file === 'error') {
+            if (!this.files.error) {
+                throw new LogFileOperationError('No error log file configured', this.files.combined, 'read');
+            }
+            return this.files.error;
+        }
+        return this.files.combined;
+    }
+
+    /**
+     * @private
+     * @static
+     * @method parseTime
+     * @description Parses a written timestamp, treating 'YYYY-MM-DD HH:mm:ss' as local time and digits as epoch milliseconds
+     * @param {string} timestamp - The timestamp
+     * @returns {{ time?: Date }} The parsed time, if valid
+     */
+    private static parseTime(timestamp: string): { time?: Date } {
+        const time = /^\d{10,}$/.test(timestamp)
+            ? new Date(Number(timestamp))
+            : new Date(/^\d{4}-\d{2}-\d{2} /.test(timestamp) ? timestamp.replace(' ', 'T') : timestamp);
+        return isNaN(time.getTime()) ? {} : { time };
+    }
+
+    /**
+     * @private
+     * @static
+     * @method matchText
+     * @description Matches a value against a string or pattern
+     * @param {string | undefined} value - The value
+     * @param {string | RegExp} expected - The expected string or pattern
+     * @param {boolean} exact - Whether a string must match exactly rather than as a substring
+     * @returns {boolean}
+     */
+    private static matchText(value: string | undefined, expected: string | RegExp, exact: boolean): boolean {
+        if (value === undefined) {
+            return false;
+        }
+        if (expected instanceof RegExp) {
+            return expected.test(value);
+        }
+        return exact ? value === expected : value.includes(expected);
+    }
+}
+
+/**
+ * @function parseFieldValue
+ * @description Reads back a field value printed by a template token: numbers, booleans and JSON objects are parsed,
+ * anything else, including numbers too large to keep their digits, stays a string
+ * @param {string} value - The printed value
+ * @returns {unknown} The value
+ */
+function parseFieldValue(value: string): unknown {
+    try {
+        const parsed: unknown = JSON.parse(value);
+        return typeof parsed === 'object' || String(parsed) === value ? parsed : value;
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * @function setPath
+ * @description Returns a copy of the metadata with a value set at a path, creating the objects along it
+ * @param {Record<string, unknown>} metadata - The metadata
+ * @param {string[]} path - The path
+ * @param {unknown} value - The value
+ * @returns {Record<string, unknown>} The copy
+ */
+function setPath(metadata: Record<string, unknown>, path: string[], value: unknown): Record<string, unknown> {
+    const [key, ...rest] = path;
+    if (key === undefined) {
+        return metadata;
+    }
+    const current = metadata[key];
+    const nested = current !== null && typeof current === 'object' && !Array.isArray(current) ? current as Record<string, unknown> : {};
+    return { ...metadata, [key]: rest.length === 0 ? value : setPath(nested, rest, value) };
+}
@@ -0,0 +1,147 @@
+/**
+ * @module processhandlers
+ * @description This module handles process crashes: uncaught exceptions and unhandled rejections are logged,
+ * registered cleanup hooks run in order, every logger is flushed and the process exits. Process warnings,
+ * such as MaxListenersExceededWarning, are logged as well.
+ */
+
+import { types } from 'util';
+import { CustomError } from './customerror';
+import { ErrorTracker } from './errortracker';
+import { Logger } from './logger';
+import { normalizeError } from './result';
+
+/**
+ * Options for the process handlers.
+ * @typedef {Object} ProcessHandlerOptions
+ * @property {Logger} logger - Receives crashes, warnings and the progress of the shutdown
+ * @property {boolean} [exitOnUncaught=true] - Shut down and exit with code 1 after an uncaught exception or unhandled rejection,
+ * as Node.js does without handlers. With false, the error is logged and the process keeps running.
+ * @property {number} [shutdownTimeoutMs=10000] - The time cleanup hooks and flushing may take before the process exits anyway
+ * @property {ErrorTracker} [tracker] - Records every crash
+ */
+export interface ProcessHandlerOptions {
+    logger: Logger<string>;
+    exitOnUncaught?: boolean;
+    shutdownTimeoutMs?: number;
+    tracker?: ErrorTracker;
+}
+
+/**
+ * A cleanup step run before the process exits, such as closing a server or a database pool.
+ */
+export type CleanupHook = () => void | Promise<void>;
+
+/**
+ * The installed process handlers.
+ * @typedef {Object} ProcessHandlers
+ * @property {Function} addCleanupHook - Registers a named cleanup hook. Hooks run in the order they were added.
+ * @property {Function} shutdown - Runs the cleanup hooks, flushes every logger and exits with the given code, or with 1 if the process crashes meanwhile
+ * @property {Function} uninstall - Removes the handlers
+ */
+export interface ProcessHandlers {
+    addCleanupHook(name: string, hook: CleanupHook): void;
+    shutdown(exitCode?: number): Promise<void>;
+    uninstall(): void;
+}
+
+let installed: { handlers: ProcessHandlers; options: ProcessHandlerOptions } | undefined;
+
+/**
+ * @function installProcessHandlers
+ * @description Installs handlers for uncaughtException, unhandledRejection and warning. CustomErrors are logged through
+ * their own `log()` method, other errors with `logger.error`, and rejections with a value that is not an error are
+ * first turned into a CustomError with `normalizeError`. Unless `exitOnUncaught` is false, the process then shuts down:
+ * the cleanup hooks run one after another, a failing hook is logged and skipped, every logger is flushed, and the
+ * process exits with code 1. A crash during a graceful shutdown raises its exit code to 1. Installing the handlers
+ * more than once returns the handlers installed first; if the options differ, a warning is logged and they are ignored.
+ * @param {ProcessHandlerOptions} options - The logger, whether to exit, the shutdown timeout and an optional tracker
+ * @returns {ProcessHandlers} The handlers, for registering cleanup hooks and for graceful shutdowns
+ *
+ * @example
+ * const handlers = installProcessHandlers({ logger, shutdownTimeoutMs: 5000 });
+ * handlers.addCleanupHook('http server', () => new Promise(resolve => server.close(() => resolve())));
+ * handlers.addCleanupHook('database', () => pool.end());
+ * process.on('SIGTERM', () => void handlers.shutdown(0));
+ */
+export function installProcessHandlers(options: ProcessHandlerOptions): ProcessHandlers {
+    const { logger, tracker } = options;
+    const exitOnUncaught = options.exitOnUncaught ?? true;
+    const shutdownTimeoutMs = options.shutdownTimeoutMs ?? 10000;
+    if (installed) {
+        const first = installed.options;
+        if (first.logger !== logger || first.tracker !== tracker || first.exitOnUncaught !== exitOnUncaught || first.shutdownTimeoutMs !== shutdownTimeoutMs) {
+            first.logger.warn('Process handlers are already installed, ignoring the new options');
+        }
+        return installed.handlers;
+    }
+
+    const hooks: { name: string; hook: CleanupHook }[] = [];
+    let shuttingDown: Promise<void> | undefined;
+    let exitCode = 0;
+
+    const shutdown = (code: number = 0): Promise<void> => {
+        exitCode = Math.max(exitCode, code);
+        shuttingDown ??= (async () => {
+            const timer = setTimeout(() => {
+                logger.error(`Shutdown timed out after ${shutdownTimeoutMs}ms, exiting`);
+                process.exit(exitCode);
+            }, shutdownTimeoutMs);
+
+            for (const { name, hook } of hooks) {
+                try {
+                    await hook();
+                } catch (error) {
+                    logger.error(`Cleanup hook '${name}' failed`, { error });
+                }
+            }
+            logger.info(`Exiting with code ${exitCode}`);
+            await Logger.flushAll();
+            clearTimeout(timer);
+            process.exit(exitCode);
+        })();
+        return shuttingDown;
+    };
+
+    const report = (thrown: unknown, origin: 'uncaughtException' | 'unhandledRejection') => {
+        const error = thrown instanceof Error || types.isNativeError(thrown) ? thrown : normalizeError(thrown);
+        if (error instanceof CustomError) {
+            error.log(logger);
+        } else {
+            logger.error(error, { origin });
+        }
+        tracker?.track(error, { origin });
+
+        if (shuttingDown) {
+            exitCode = Math.max(exitCode, 1);
+        } else if (exitOnUncaught) {
+            logger.error(`Shutting down after ${origin === 'uncaughtException' ? 'an uncaught exception' : 'an unhandled rejection'}`);
+            void shutdown(1);
+        }
+    };
+
+    const onUncaughtException = (error: Error) => report(error, 'uncaughtException');
+    const onUnhandledRejection = (reason: unknown) => report(reason, 'unhandledRejection');
+    const onWarning = (warning: Error & { code?: string }) => {
+        logger.warn(warning.message, { warning: warning.name, ...(warning.code && { code: warning.code }) });
+    };
+
+    process.on('uncaughtException', onUncaughtException);
+    process.on('unhandledRejection', onUnhandledRejection);
+    process.on('warning', onWarning);
+
+    const handlers: ProcessHandlers = {
+        addCleanupHook(name: string, hook: CleanupHook): void {
+            hooks.push({ name, hook });
+        },
+        shutdown,
+        uninstall(): void {
+            process.off('uncaughtException', onUncaughtException);
+            process.off('unhandledRejection', onUnhandledRejection);
+            process.off('warning', onWarning);
+            installed = undefined;
+        },
+    };
+    installed = { handlers, options: { logger, exitOnUncaught, shutdownTimeoutMs, ...(tracker && { tracker }) } };
+    return handlers;
+}
@@ -0,0 +1,168 @@
+/**
+ * @module redaction
+ * @description This module provides redaction of sensitive data in log entries by key name, by dotted path
+ * with wildcards, and by value pattern. Nested objects, arrays, class instances, Maps and Headers are traversed;
+ * the input is never mutated.
+ */
+
+/**
+ * Options describing what to redact and how.
+ * @typedef {Object} RedactionOptions
+ * @property {string[]} [keys] - Key names redacted wherever they appear, compared case-insensitively (e.g. 'password', 'authorization')
+ * @property {string[]} [paths] - Dotted paths where '*' matches any single key or array index (e.g. 'user.ssn', 'headers.*', 'cards.*.number')
+ * @property {RegExp[]} [patterns] - Patterns masked inside string values and the message (e.g. card numbers or JWTs)
+ * @property {string} [censor='[REDACTED]'] - The replacement for redacted values
+ * @property {boolean} [remove=false] - Remove matched keys instead of masking them. Pattern matches are always masked.
+ */
+export interface RedactionOptions {
+    keys?: string[];
+    paths?: string[];
+    patterns?: RegExp[];
+    censor?: string;
+    remove?: boolean;
+}
+
+/**
+ * Key names that commonly hold credentials, for use as `keys: [...SENSITIVE_KEYS]`
+ * @constant
+ * @type {string[]}
+ */
+export const SENSITIVE_KEYS = ['password', 'passwd', 'secret', 'token', 'accessToken', 'refreshToken', 'apiKey', 'authorization', 'cookie', 'set-cookie'];
+
+/**
+ * Value patterns for common sensitive data, for use in `patterns`
+ * @constant
+ */
+export const REDACTION_PATTERNS = {
+    /** 13 to 19 digit card numbers, optionally grouped with spaces or dashes */
+    cardNumber: /\b(?:\d[ -]?){12,18}\d\b/g,
+    /** JSON Web Tokens */
+    jwt: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+    /** Bearer credentials as sent in Authorization headers */
+    bearerToken: /\bBearer\s+[\w\-.~+/]+=*/gi,
+};
+
+/**
+ * A function that returns a redacted copy of a value
+ * @callback Redactor
+ * @param {T} value - The value to redact
+ * @returns {T} The redacted copy
+ */
+export type Redactor = <T>(value: T) => T;
+
+/**
+ * @function createRedactor
+ * @description Compiles redaction options into a function that returns redacted copies of values
+ * @param {RedactionOptions} options - What to redact and how
+ * @returns {Redactor} The redactor
+ *
+ * @example
+ * const redact = createRedactor({ keys: ['password'], paths: ['headers.authorization'], patterns: [REDACTION_PATTERNS.jwt] });
+ * redact({ user: { password: 'x' } }); // { user: { password: '[REDACTED]' } }
+ */
+export function createRedactor(options: RedactionOptions): Redactor {
+    const keys = new Set((options.keys ?? []).map(key => key.toLowerCase()));
+    const paths = (options.paths ?? []).map(path => path.split('.'));
+    const patterns = (options.patterns ?? []).map(pattern => new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`));
+    const censor = options.censor ?? '[REDACTED]';
+
+    const matchesPath = (path: string[]) => paths.some(pattern =>
+        pattern.length === path.length && pattern.every((segment, i) => segment === '*' || segment === path[i]));
+
+    const maskString = (value: string) => patterns.reduce((masked, pattern) => masked.replace(pattern, censor), value);
+
+    const visit = (value: unknown, path: string[], seen: WeakMap<object, unknown>): unknown => {
+        if (typeof value === 'string') {
+            return patterns.length > 0 ? maskString(value) : value;
+        }
+        if (value === null || typeof value !== 'object') {
+            return value;
+        }
+        if (seen.has(value)) {
+            return seen.get(value);
+        }
+
+        if (Array.isArray(value)) {
+            const copy: unknown[] = [];
+            seen.set(value, copy);
+            value.forEach((item, index) => {
+                const itemPath = [...path, String(index)];
+                if (matchesPath(itemPath)) {
+                    if (!options.remove) copy.push(censor);
+                } else {
+                    copy.push(visit(item, itemPath, seen));
+                }
+            });
+            return copy;
+        }
+
+        const isRedacted = (key: unknown, itemPath: string[]) =>
+            (typeof key === 'string' && keys.has(key.toLowerCase())) || matchesPath(itemPath);
+
+        if (value instanceof Map) {
+            const copy = new Map();
+            seen.set(value, copy);
+            for (const [key, item] of value) {
+                const itemPath = [...path, String(key)];
+                if (isRedacted(key, itemPath)) {
+                    if (!options.remove) copy.set(key, censor);
+                } else {
+                    copy.set(key, visit(item, itemPath, seen));
+                }
+            }
+            return copy;
+        }
+
+        if (typeof Headers !== 'undefined' && value instanceof Headers) {
+            const copy = new Headers();
+            seen.set(value, copy);
+            value.forEach((item, key) => {
+                if (isRedacted(key, [...path, key])) {
+                    if (!options.remove) copy.append(key, censor);
+                } else {
+                    copy.append(key, patterns.length > 0 ? maskString(item) : item);
+                }
+            });
+            return copy;
+        }
+
+        const prototype = Object.getPrototypeOf(value);
+        if (prototype === Object.prototype || prototype === null) {
+            const copy: Record<string, unknown> = {};
+            seen.set(value, copy);
+            for (const [key, item] of Object.entries(value)) {
+                const itemPath = [...path, key];
+                if (isRedacted(key, itemPath)) {
+                    if (!options.remove) copy[key] = censor;
+                } else {
+                    copy[key] = visit(item, itemPath, seen);
+                }
+            }
+            return copy;
+        }
+
+        if (ArrayBuffer.isView(value) || (!(value instanceof Error) && Object.keys(value).length === 0)) {
+            // Values held in internal slots, such as Dates, URLs and Buffers, cannot be copied property by property
+            return value;
+        }
+
+        // Class instances, such as Errors with extra fields or DTOs, are copied with their prototype,
+        // so they keep their class and non-enumerable properties such as an error's message and stack
+        const copy = Object.create(prototype);
+        seen.set(value, copy);
+        for (const key of Object.getOwnPropertyNames(value)) {
+            const descriptor = Object.getOwnPropertyDescriptor(value, key)!;
+            const itemPath = [...path, key];
+            if (!('value' in descriptor)) {
+                Object.defineProperty(copy, key, descriptor);
+            } else if (isRedacted(key, itemPath)) {
+                if (!options.remove) Object.defineProperty(copy, key, { ...descriptor, value: censor });
+            } else {
+                Object.defineProperty(copy, key, { ...descriptor, value: visit(descriptor.value, itemPath, seen) });
+            }
+        }
+        return copy;
+    };
+
+    return <T>(value: T): T => visit(value, [], new WeakMap()) as T;
+}
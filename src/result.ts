@@ -0,0 +1,262 @@
+/**
+ * @module result
+ * @description This module provides a Result type for handling failures without exceptions, and `attempt` and
+ * `attemptAsync`, which run a function and turn anything it throws into a suitable CustomError.
+ */
+
+import { types } from 'util';
+import { CustomError, rootCause } from './customerror';
+import { FileNotFoundError, NetworkError, ParseError, UnexpectedError } from './errors';
+
+/**
+ * Either the value of a successful operation (`Ok`) or the error of a failed one (`Err`). Check `ok` to tell them apart.
+ *
+ * @example
+ * const result = await apiService.tryGet<Order>('orders');
+ * if (result.ok) {
+ *   render(result.value);
+ * } else if (result.error instanceof ApiError && result.error.status === 404) {
+ *   renderEmpty();
+ * }
+ */
+export type Result<T, E extends CustomError = CustomError> = Ok<T, E> | Err<T, E>;
+
+/**
+ * The methods shared by Ok and Err.
+ *
+ * @abstract
+ * @class
+ */
+export abstract class BaseResult<T, E extends CustomError> {
+    /**
+     * Whether the operation succeeded
+     * @type {boolean}
+     */
+    public abstract readonly ok: boolean;
+
+    /**
+     * @method isOk
+     * @returns {boolean} Whether the result is an Ok
+     */
+    public isOk(): this is Ok<T, E> {
+        return this.ok;
+    }
+
+    /**
+     * @method isErr
+     * @returns {boolean} Whether the result is an Err
+     */
+    public isErr(): this is Err<T, E> {
+        return !this.ok;
+    }
+
+    /**
+     * @method map
+     * @description Transforms the value of an Ok. An Err is returned unchanged.
+     * @param {Function} fn - The transformation
+     * @returns {Result<U, E>}
+     */
+    public map<U>(fn: (value: T) => U): Result<U, E> {
+        return this.isOk() ? new Ok(fn(this.value)) : this as unknown as Err<U, E>;
+    }
+
+    /**
+     * @method mapErr
+     * @description Transforms the error of an Err, e.g. into an error of the caller's domain. An Ok is returned unchanged.
+     * @param {Function} fn - The transformation
+     * @returns {Result<T, F>}
+     */
+    public mapErr<F extends CustomError>(fn: (error: E) => F): Result<T, F> {
+        return this.isErr() ? new Err(fn(this.error)) : this as unknown as Ok<T, F>;
+    }
+
+    /**
+     * @method flatMap
+     * @description Continues an Ok with another operation that may fail. An Err is returned unchanged.
+     * @param {Function} fn - The operation, given the value
+     * @returns {Result<U, E | F>}
+     */
+    public flatMap<U, F extends CustomError = E>(fn: (value: T) => Result<U, F>): Result<U, E | F> {
+        return this.isOk() ? fn(this.value) : this as unknown as Err<U, E>;
+    }
+
+    /**
+     * @method unwrap
+     * @description Returns the value of an Ok, or throws the error of an Err
+     * @returns {T} The value
+     * @throws {E} The error
+     */
+    public unwrap(): T {
+        if (this.isErr()) {
+            throw this.error;
+        }
+        return (this as unknown as Ok<T, E>).value;
+    }
+
+    /**
+     * @method unwrapOr
+     * @description Returns the value of an Ok, or a fallback for an Err
+     * @param {T} fallback - The value to use for an Err
+     * @returns {T}
+     */
+    public unwrapOr(fallback: T): T {
+        return this.isOk() ? this.value : fallback;
+    }
+
+    /**
+     * @method match
+     * @description Handles both outcomes
+     * @param {Object} handlers - `ok` receives the value, `err` the error
+     * @returns {R} What the called handler returns
+     */
+    public match<R>(handlers: { ok: (value: T) => R; err: (error: E) => R }): R {
+        return this.isOk() ? handlers.ok(this.value) : handlers.err((this as unknown as Err<T, E>).error);
+    }
+}
+
+/**
+ * A successful Result.
+ *
+ * @class
+ * @extends BaseResult
+ */
+export class Ok<T, E extends CustomError = CustomError> extends BaseResult<T, E> {
+    public readonly ok = true;
+
+    /**
+     * Creates an instance of Ok.
+     * @param {T} value - The value
+     */
+    constructor(public readonly value: T) {
+        super();
+    }
+}
+
+/**
+ * A failed Result.
+ *
+ * @class
+ * @extends BaseResult
+ */
+export class Err<T, E extends CustomError = CustomError> extends BaseResult<T, E> {
+    public readonly ok = false;
+
+    /**
+     * Creates an instance of Err.
+     * @param {E} error - The error
+     */
+    constructor(public readonly error: E) {
+        super();
+    }
+}
+
+/**
+ * @function ok
+ * @description Creates a successful Result
+ * @param {T} value - The value
+ * @returns {Ok<T, never>}
+ */
+export function ok<T>(value: T): Ok<T, never> {
+    return new Ok(value);
+}
+
+/**
+ * @function err
+ * @description Creates a failed Result
+ * @param {E} error - The error
+ * @returns {Err<never, E>}
+ */
+export function err<E extends CustomError>(error: E): Err<never, E> {
+    return new Err(error);
+}
+
+/**
+ * Error codes of Node.js and undici that mean the network failed
+ */
+const NETWORK_ERROR_CODES = new Set([
+    'ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE',
+]);
+
+/**
+ * @function normalizeError
+ * @description Turns any thrown value into a CustomError, keeping it as the cause.
+ * CustomErrors are returned as they are. Aborts, timeouts and socket, DNS and fetch failures become NetworkErrors,
+ * SyntaxErrors ParseErrors, ENOENT errors FileNotFoundErrors, and everything else, including non-errors, UnexpectedErrors.
+ * @param {unknown} thrown - The thrown value
+ * @returns {CustomError} The error
+ */
+export function normalizeError(thrown: unknown): CustomError {
+    if (thrown instanceof CustomError) {
+        return thrown;
+    }
+    if (!isError(thrown)) {
+        return new UnexpectedError(typeof thrown === 'string' ? thrown : `Non-error value thrown: ${String(thrown)}`, { cause: thrown });
+    }
+
+    const root = rootCause(thrown);
+    const code = isError(root) ? (root as NodeJS.ErrnoException).code : undefined;
+    if (thrown.name === 'AbortError' || thrown.name === 'TimeoutError') {
+        return new NetworkError(thrown.name === 'TimeoutError' ? 'Operation timed out' : 'Operation was aborted', thrown.message, { cause: thrown });
+    }
+    if ((code !== undefined && (NETWORK_ERROR_CODES.has(code) || code.startsWith('UND_ERR'))) || (thrown instanceof TypeError && thrown.message === 'fetch failed')) {
+        return new NetworkError(thrown.message, isError(root) ? root.message : undefined, { cause: thrown });
+    }
+    if (thrown.name === 'SyntaxError') {
+        return new ParseError(thrown.message, undefined, { cause: thrown });
+    }
+    if (code === 'ENOENT') {
+        return new FileNotFoundError(thrown.message, (root as NodeJS.ErrnoException).path, { cause: thrown });
+    }
+    return new UnexpectedError(thrown.message, { cause: thrown });
+}
+
+/**
+ * @function isError
+ * @description Checks whether a value is an error, including errors created in another realm, such as
+ * a vm context, and DOMExceptions, whose prototype chain does not reach Error in every runtime
+ * @param {unknown} value - The value
+ * @returns {boolean}
+ */
+function isError(value: unknown): value is Error {
+    return value instanceof Error || types.isNativeError(value) || (typeof DOMException !== 'undefined' && value instanceof DOMException);
+}
+
+/**
+ * @function attempt
+ * @description Runs a function and returns its value as an Ok, or what it threw, normalized, as an Err
+ * @param {Function} fn - The function
+ * @param {Function} [normalize=normalizeError] - Turns what was thrown into the error type of the Result
+ * @returns {Result<T, E>} The result
+ *
+ * @example
+ * const config = attempt(() => JSON.parse(text) as Settings); // Err holds a ParseError on invalid JSON
+ */
+export function attempt<T, E extends CustomError = CustomError>(fn: () => T, normalize: (thrown: unknown) => E = normalizeError as (thrown: unknown) => E): Result<T, E> {
+    try {
+        return new Ok(fn());
+    } catch (thrown) {
+        return new Err(normalize(thrown));
+    }
+}
+
+/**
+ * @function attemptAsync
+ * @description Awaits a function and returns its value as an Ok, or what it threw or rejected with, normalized, as an Err
+ * @param {Function} fn - The async function
+ * @param {Function} [normalize=normalizeError] - Turns what was thrown into the error type of the Result
+ * @returns {Promise<Result<T, E>>} The result
+ *
+ * @example
+ * const result = await attemptAsync(() => db.query(sql));
+ * return result.match({ ok: rows => rows.length, err: () => 0 });
+ */
+export async function attemptAsync<T, E extends CustomError = CustomError>(
+    fn: () => Promise<T>,
+    normalize: (thrown: unknown) => E = normalizeError as (thrown: unknown) => E
+): Promise<Result<T, E>> {
+    try {
+        return new Ok(await fn());
+    } catch (thrown) {
+        return new Err(normalize(thrown));
+    }
+}
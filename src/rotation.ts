@@ -0,0 +1,380 @@
+/**
+ * @module rotation
+ * @description This module provides a Winston file transport that rotates log files by size and by time,
+ * optionally compresses rotated files with gzip, and prunes old files by count or age.
+ */
+
+import TransportStream from 'winston-transport';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { EOL } from 'os';
+import { pipeline } from 'stream/promises';
+import { LogFileOperationError, LoggerInitializationError } from './errors';
+
+/**
+ * Options controlling when and how log files are rotated.
+ * @typedef {Object} LogRotationOptions
+ * @property {number|string} [maxSize] - Rotate once the file would exceed this size. Bytes, or a string such as '10m', '512k' or '1g'.
+ * @property {'hourly'|'daily'} [interval] - Rotate when the hour or the day changes.
+ * @property {boolean} [compress=false] - Gzip rotated files.
+ * @property {number} [maxFiles] - The maximum number of rotated files to keep.
+ * @property {number|string} [maxAge] - Delete rotated files older than this. Milliseconds, or a string such as '14d', '12h' or '30m'.
+ */
+export interface LogRotationOptions {
+    maxSize?: number | string;
+    interval?: 'hourly' | 'daily';
+    compress?: boolean;
+    maxFiles?: number;
+    maxAge?: number | string;
+}
+
+/**
+ * Options for creating a RotatingFileTransport.
+ * @typedef {Object} RotatingFileTransportOptions
+ * @property {string} filename - The path of the active log file.
+ * @property {string} [level] - The minimum level written by this transport.
+ * @property {import('logform').Format} [format] - The format used by this transport.
+ */
+export interface RotatingFileTransportOptions extends LogRotationOptions, TransportStream.TransportStreamOptions {
+    filename: string;
+}
+
+const MESSAGE = Symbol.for('message');
+
+const SIZE_UNITS: Record<string, number> = { b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+const AGE_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+/**
+ * @function parseSize
+ * @description Converts a size such as 1048576, '512k', '10m' or '1g' into bytes
+ * @param {number|string} value - The size to convert
+ * @returns {number} The size in bytes
+ * @throws {LoggerInitializationError} If the value is not a valid size
+ */
+export function parseSize(value: number | string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([bkmg])?b?$/i.exec(String(value).trim());
+    if (!match || Number(match[1]) <= 0) {
+        throw new LoggerInitializationError(`Invalid log rotation size: ${value}`, 'rotation');
+    }
+    return Math.floor(Number(match[1]) * SIZE_UNITS[(match[2] ?? 'b').toLowerCase()]!);
+}
+
+/**
+ * @function parseAge
+ * @description Converts an age such as 86400000, '30m', '12h' or '14d' into milliseconds
+ * @param {number|string} value - The age to convert
+ * @returns {number} The age in milliseconds
+ * @throws {LoggerInitializationError} If the value is not a valid age
+ */
+export function parseAge(value: number | string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?$/i.exec(String(value).trim());
+    if (!match || Number(match[1]) <= 0) {
+        throw new LoggerInitializationError(`Invalid log rotation age: ${value}`, 'rotation');
+    }
+    return Math.floor(Number(match[1]) * AGE_UNITS[(match[2] ?? 'ms').toLowerCase()]!);
+}
+
+/**
+ * @function listRotatedFiles
+ * @description Lists the rotated siblings of a log file, oldest first. Compressed files are included.
+ * @param {string} filePath - The path of the active log file
+ * @returns {string[]} The full paths of the rotated files
+ */
+export function listRotatedFiles(filePath: string): string[] {
+    const dir = path.dirname(filePath);
+    const ext = path.extname(filePath);
+    const base = path.basename(filePath, ext);
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`^${escape(base)}\\.(\\d{8}-\\d{6})(?:-(\\d+))?${escape(ext)}(?:\\.gz)?$`);
+
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+
+    return fs.readdirSync(dir)
+        .map(name => ({ name, match: pattern.exec(name) }))
+        .filter((entry): entry is { name: string; match: RegExpExecArray } => entry.match !== null)
+        .sort((a, b) => a.match[1]!.localeCompare(b.match[1]!) || Number(a.match[2] ?? 0) - Number(b.match[2] ?? 0))
+        .map(entry => path.join(dir, entry.name));
+}
+
+/**
+ * A Winston transport that writes to a single active file and rotates it by size or time.
+ * Rotated files are renamed to `<name>.<YYYYMMDD-HHmmss><ext>` next to the active file,
+ * optionally gzipped, and pruned according to `maxFiles` and `maxAge`.
+ * Failures are emitted as `error` events carrying a LogFileOperationError.
+ *
+ * @class
+ * @extends TransportStream
+ *
+ * @example
+ * logger.addTransport(new RotatingFileTransport({ filename: 'logs/app.log', maxSize: '10m', interval: 'daily', compress: true, maxFiles: 14 }));
+ */
+export class RotatingFileTransport extends TransportStream {
+    /**
+     * The path of the active log file
+     * @type {string}
+     */
+    public readonly filename: string;
+
+    private readonly maxSize?: number;
+    private readonly interval?: 'hourly' | 'daily';
+    private readonly compress: boolean;
+    private readonly maxFiles?: number;
+    private readonly maxAge?: number;
+    private stream!: fs.WriteStream;
+    private size: number = 0;
+    private period: string = '';
+
+    /**
+     * Background rotation work (closing, compressing and pruning old files), run one rotation at a time
+     * @private
+     * @type {Promise<void>}
+     */
+    private pending: Promise<void> = Promise.resolve();
+
+    /**
+     * Set once the transport is closing
+     * @private
+     * @type {Promise<void> | undefined}
+     */
+    private closing?: Promise<void>;
+
+    /**
+     * Creates an instance of RotatingFileTransport.
+     * @constructor
+     * @param {RotatingFileTransportOptions} options - The transport and rotation options
+     * @throws {LoggerInitializationError} If a size or age option is invalid
+     * @throws {LogFileOperationError} If the active log file cannot be opened
+     */
+    constructor(options: RotatingFileTransportOptions) {
+        super(options);
+        this.filename = options.filename;
+        this.compress = options.compress ?? false;
+        if (options.maxSize !== undefined) this.maxSize = parseSize(options.maxSize);
+        if (options.interval !== undefined) this.interval = options.interval;
+        if (options.maxFiles !== undefined) this.maxFiles = options.maxFiles;
+        if (options.maxAge !== undefined) this.maxAge = parseAge(options.maxAge);
+
+        try {
+            const stats = fs.existsSync(this.filename) ? fs.statSync(this.filename) : undefined;
+            this.size = stats?.size ?? 0;
+            this.period = this.periodOf(stats?.mtime ?? new Date());
+            this.open();
+        } catch (error) {
+            throw new LogFileOperationError(`Failed to open log file: ${(error as Error).message}`, this.filename, 'open');
+        }
+    }
+
+    /**
+     * @method log
+     * @description Writes an entry to the active file, rotating it first when required
+     * @param {any} info - The Winston log entry
+     * @param {Function} callback - Invoked once the entry has been queued
+     */
+    public log(info: any, callback: () => void): void {
+        setImmediate(() => this.emit('logged', info));
+
+        const line = `${info[MESSAGE]}${EOL}`;
+        const bytes = Buffer.byteLength(line);
+        if (this.shouldRotate(bytes)) {
+            this.rotate();
+        }
+
+        this.stream.write(line);
+        this.size += bytes;
+        callback();
+    }
+
+    /**
+     * @method flush
+     * @description Waits until every entry written so far has reached the active file and background rotation work has finished
+     * @returns {Promise<void>}
+     */
+    public async flush(): Promise<void> {
+        if (!this.stream.writableEnded) {
+            await new Promise<void>(resolve => this.stream.write('', () => resolve()));
+        }
+        await this.settle();
+    }
+
+    /**
+     * @method close
+     * @description Closes the active file. Safe to call more than once.
+     * @returns {Promise<void>} Resolves once the file is closed and background rotation work has finished
+     */
+    public close(): Promise<void> {
+        this.closing ??= new Promise<void>((resolve) => {
+            if (this.stream.closed) {
+                resolve();
+            } else {
+                this.stream.once('close', () => resolve());
+                this.stream.end();
+            }
+        }).then(() => this.settle());
+        return this.closing;
+    }
+
+    /**
+     * @method settle
+     * @description Waits for background rotation work such as compression and pruning to finish
+     * @returns {Promise<void>}
+     */
+    public async settle(): Promise<void> {
+        let pending;
+        do {
+            pending = this.pending;
+            await pending;
+        } while (pending !== this.pending);
+    }
+
+    /**
+     * @private
+     * @method open
+     * @description Opens the active file for appending
+     * @throws {Error} If the file cannot be opened
+     */
+    private open(): void {
+        // Open synchronously so the file exists on disk before the first rotation check
+        this.stream = fs.createWriteStream(this.filename, { fd: fs.openSync(this.filename, 'a') });
+        this.stream.on('error', (error) => {
+            this.emit('error', new LogFileOperationError(`Failed to write log file: ${error.message}`, this.filename, 'write'));
+        });
+    }
+
+    /**
+     * @private
+     * @method periodOf
+     * @description Returns the rotation period a date falls into
+     * @param {Date} date - The date
+     * @returns {string} A key that changes whenever the configured interval elapses
+     */
+    private periodOf(date: Date): string {
+        if (!this.interval) {
+            return '';
+        }
+        const day = `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+        return this.interval === 'hourly' ? `${day}-${date.getHours()}` : day;
+    }
+
+    /**
+     * @private
+     * @method shouldRotate
+     * @description Decides whether the active file has to be rotated before writing
+     * @param {number} bytes - The size of the entry about to be written
+     * @returns {boolean}
+     */
+    private shouldRotate(bytes: number): boolean {
+        if (this.size === 0) {
+            this.period = this.periodOf(new Date());
+            return false;
+        }
+        if (this.maxSize !== undefined && this.size + bytes > this.maxSize) {
+            return true;
+        }
+        return this.interval !== undefined && this.periodOf(new Date()) !== this.period;
+    }
+
+    /**
+     * @private
+     * @method rotatedName
+     * @description Builds an unused name for the file being rotated
+     * @returns {string}
+     */
+    private rotatedName(): string {
+        const now = new Date();
+        const pad = (value: number) => String(value).padStart(2, '0');
+        const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+        const ext = path.extname(this.filename);
+        const base = path.join(path.dirname(this.filename), path.basename(this.filename, ext));
+
+        let candidate = `${base}.${stamp}${ext}`;
+        for (let i = 1; fs.existsSync(candidate) || fs.existsSync(`${candidate}.gz`); i++) {
+            candidate = `${base}.${stamp}-${i}${ext}`;
+        }
+        return candidate;
+    }
+
+    /**
+     * @private
+     * @method rotate
+     * @description Moves the active file aside, reopens it, and schedules compression and pruning
+     */
+    private rotate(): void {
+        const rotated = this.rotatedName();
+        try {
+            fs.renameSync(this.filename, rotated);
+        } catch (error) {
+            this.emit('error', new LogFileOperationError(`Failed to rotate log file: ${(error as Error).message}`, this.filename, 'rotate'));
+            return;
+        }
+
+        const previous = this.stream;
+        try {
+            this.open();
+        } catch (error) {
+            this.emit('error', new LogFileOperationError(`Failed to reopen log file: ${(error as Error).message}`, this.filename, 'open'));
+            return;
+        }
+        this.size = 0;
+        this.period = this.periodOf(new Date());
+
+        const closed = new Promise<void>(resolve => {
+            previous.once('close', resolve);
+            previous.end();
+        });
+        this.pending = this.pending
+            .then(() => closed)
+            .then(() => this.compress ? this.compressFile(rotated) : undefined)
+            .then(() => this.prune());
+    }
+
+    /**
+     * @private
+     * @method compressFile
+     * @description Gzips a rotated file and removes the uncompressed original
+     * @param {string} file - The rotated file
+     * @returns {Promise<void>}
+     */
+    private async compressFile(file: string): Promise<void> {
+        try {
+            await pipeline(fs.createReadStream(file), zlib.createGzip(), fs.createWriteStream(`${file}.gz`));
+            await fs.promises.unlink(file);
+        } catch (error) {
+            this.emit('error', new LogFileOperationError(`Failed to compress log file: ${(error as Error).message}`, file, 'compress'));
+        }
+    }
+
+    /**
+     * @private
+     * @method prune
+     * @description Deletes rotated files beyond `maxFiles` or older than `maxAge`
+     * @returns {Promise<void>}
+     */
+    private async prune(): Promise<void> {
+        if (this.maxFiles === undefined && this.maxAge === undefined) {
+            return;
+        }
+
+        const files = listRotatedFiles(this.filename);
+        const expired = new Set(this.maxFiles !== undefined ? files.slice(0, Math.max(files.length - this.maxFiles, 0)) : []);
+
+        for (const file of files) {
+            try {
+                if (this.maxAge !== undefined && !expired.has(file)) {
+                    const { mtimeMs } = await fs.promises.stat(file);
+                    if (Date.now() - mtimeMs > this.maxAge) {
+                        expired.add(file);
+                    }
+                }
+                if (expired.has(file)) {
+                    await fs.promises.unlink(file);
+                }
+            } catch (error) {
+                this.emit('error', new LogFileOperationError(`Failed to prune log file: ${(error as Error).message}`, file, 'prune'));
+            }
+        }
+    }
+}
@@ -0,0 +1,184 @@
+/**
+ * @module sampling
+ * @description This module provides per-level log volume policies: probabilistic sampling,
+ * collapsing of identical messages within a time window, and a cap on entries per second per context.
+ */
+
+/**
+ * The volume policy for one level.
+ * @typedef {Object} SamplingPolicy
+ * @property {number} [sampleRate] - The fraction of entries to keep, from 0 (none) to 1 (all)
+ * @property {number} [dedupeWindowMs] - Collapse identical messages from the same context within this window into one entry with a repeat count
+ * @property {number} [maxPerSecond] - The maximum number of entries per second per context; the rest are dropped and summarized
+ */
+export interface SamplingPolicy {
+    sampleRate?: number;
+    dedupeWindowMs?: number;
+    maxPerSecond?: number;
+}
+
+/**
+ * Volume policies keyed by level name. The '*' policy applies to every level without its own policy,
+ * except 'fatal', 'error' and 'audit', which are never dropped unless they are configured explicitly.
+ * @typedef {Object} SamplingOptions
+ *
+ * @example
+ * { debug: { sampleRate: 0.1 }, '*': { dedupeWindowMs: 5000, maxPerSecond: 100 } }
+ */
+export type SamplingOptions = Record<string, SamplingPolicy>;
+
+/**
+ * Receives the summary entries produced by a LogSampler
+ * @callback SampledEntryHandler
+ * @param {string} level - The level of the summarized entries
+ * @param {string} message - The summary message
+ * @param {Object} meta - The context and the number of repeated or suppressed entries
+ */
+export type SampledEntryHandler = (level: string, message: string, meta: { context?: string; repeated?: number; suppressed?: number }) => void;
+
+/**
+ * Levels the '*' policy does not apply to
+ */
+const UNSAMPLED_LEVELS = new Set(['fatal', 'error', 'audit']);
+
+interface DuplicateWindow {
+    count: number;
+    timer: NodeJS.Timeout;
+    flush: () => void;
+}
+
+interface RateWindow {
+    start: number;
+    count: number;
+    dropped: number;
+    timer?: NodeJS.Timeout;
+    flush?: () => void;
+}
+
+/**
+ * Decides which entries are written under the configured sampling policies.
+ * Dropped duplicates and rate-limited entries are reported through the handler once their window closes,
+ * e.g. "Connection refused (message repeated 532 times)".
+ *
+ * @class
+ */
+export class LogSampler {
+    private duplicates: Map<string, DuplicateWindow> = new Map();
+    private rates: Map<string, RateWindow> = new Map();
+
+    /**
+     * Creates an instance of LogSampler.
+     * @constructor
+     * @param {SamplingOptions} options - The policies keyed by level
+     * @param {SampledEntryHandler} onSummary - Receives the summaries of collapsed and suppressed entries
+     * @param {Function} [random=Math.random] - The source of randomness used for sampling
+     */
+    constructor(
+        private readonly options: SamplingOptions,
+        private readonly onSummary: SampledEntryHandler,
+        private readonly random: () => number = Math.random
+    ) {}
+
+    /**
+     * @method accept
+     * @description Decides whether an entry is written
+     * @param {string} level - The level of the entry
+     * @param {string | undefined} context - The context of the logger writing the entry
+     * @param {string} message - The message of the entry
+     * @returns {boolean} True if the entry should be written
+     */
+    public accept(level: string, context: string | undefined, message: string): boolean {
+        const policy = this.options[level] ?? (UNSAMPLED_LEVELS.has(level) ? undefined : this.options['*']);
+        if (!policy) {
+            return true;
+        }
+        if (policy.sampleRate !== undefined && this.random() >= policy.sampleRate) {
+            return false;
+        }
+        if (policy.dedupeWindowMs !== undefined && this.isDuplicate(level, context, message, policy.dedupeWindowMs)) {
+            return false;
+        }
+        if (policy.maxPerSecond !== undefined && this.isOverRate(level, context, policy.maxPerSecond)) {
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * @method flush
+     * @description Closes all open windows immediately and reports their summaries
+     */
+    public flush(): void {
+        for (const window of [...this.duplicates.values()]) {
+            clearTimeout(window.timer);
+            window.flush();
+        }
+        for (const window of [...this.rates.values()]) {
+            clearTimeout(window.timer);
+            window.flush?.();
+        }
+        this.rates.clear();
+    }
+
+    /**
+     * @private
+     * @method isDuplicate
+     * @description Counts repeats of a message within its window
+     * @returns {boolean} True if the message was already written within the window
+     */
+    private isDuplicate(level: string, context: string | undefined, message: string, windowMs: number): boolean {
+        const key = `${level}\u0000${context ?? ''}\u0000${message}`;
+        const window = this.duplicates.get(key);
+        if (window) {
+            window.count++;
+            return true;
+        }
+
+        const flush = () => {
+            const current = this.duplicates.get(key);
+            this.duplicates.delete(key);
+            if (current && current.count > 0) {
+                this.onSummary(level, `${message} (message repeated ${current.count} times)`, { ...(context && { context }), repeated: current.count });
+            }
+        };
+        const timer = setTimeout(flush, windowMs);
+        timer.unref();
+        this.duplicates.set(key, { count: 0, timer, flush });
+        return false;
+    }
+
+    /**
+     * @private
+     * @method isOverRate
+     * @description Counts entries per context in one-second windows
+     * @returns {boolean} True if the entry exceeds the rate cap
+     */
+    private isOverRate(level: string, context: string | undefined, maxPerSecond: number): boolean {
+        const key = `${level}\u0000${context ?? ''}`;
+        const now = Date.now();
+        let window = this.rates.get(key);
+        if (!window || now - window.start >= 1000) {
+            window = { start: now, count: 0, dropped: 0 };
+            this.rates.set(key, window);
+        }
+
+        if (window.count < maxPerSecond) {
+            window.count++;
+            return false;
+        }
+
+        window.dropped++;
+        if (!window.timer) {
+            const current = window;
+            current.flush = () => {
+                if (this.rates.get(key) === current) {
+                    this.rates.delete(key);
+                }
+                this.onSummary(level, `Suppressed ${current.dropped} ${level} entries exceeding ${maxPerSecond} per second`, { ...(context && { context }), suppressed: current.dropped });
+            };
+            current.timer = setTimeout(current.flush, Math.max(current.start + 1000 - now, 0));
+            current.timer.unref();
+        }
+        return true;
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * @module serialization
+ * @description This module converts errors in log metadata into plain objects that keep their name, message, stack,
+ * subclass fields, `cause` chain and `AggregateError.errors`. Metadata is copied with a depth cap and
+ * circular references replaced, so every entry can be written as JSON.
+ */
+
+/**
+ * Options controlling how metadata is serialized.
+ * @typedef {Object} SerializationOptions
+ * @property {number} [maxDepth=10] - Objects, arrays and errors nested deeper than this are replaced by a short description
+ * @property {boolean} [stack=true] - Include the stack of errors
+ */
+export interface SerializationOptions {
+    maxDepth?: number;
+    stack?: boolean;
+}
+
+/**
+ * An error converted into a plain object. Fields of the error's class, such as `status` or `retryAfter`, are kept.
+ * @typedef {Object} SerializedError
+ * @property {string} name - The error's name, e.g. 'ApiError'
+ * @property {string} message - The error's message
+ * @property {string} [stack] - The stack trace
+ * @property {unknown} [cause] - The serialized cause
+ * @property {unknown[]} [errors] - The serialized errors of an AggregateError
+ */
+export interface SerializedError {
+    name: string;
+    message: string;
+    stack?: string;
+    cause?: unknown;
+    errors?: unknown[];
+    [field: string]: unknown;
+}
+
+/**
+ * Fields of errors that are serialized explicitly
+ */
+const ERROR_FIELDS = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+/**
+ * @function serializeError
+ * @description Converts an error into a plain object, including its cause chain and aggregated errors
+ * @param {Error} error - The error
+ * @param {SerializationOptions} [options] - The depth cap and whether to include stacks
+ * @returns {SerializedError} The serialized error
+ *
+ * @example
+ * serializeError(new AggregateError([new ApiError(503, 'Unavailable', 'r-1')], 'Sync failed'));
+ * // { name: 'AggregateError', message: 'Sync failed', stack: '...', errors: [{ name: 'ApiError', message: 'Unavailable', stack: '...', code: 'BEV_API', status: 503, requestId: 'r-1' }] }
+ */
+export function serializeError(error: Error, options: SerializationOptions = {}): SerializedError {
+    return serializeValue(error, options) as SerializedError;
+}
+
+/**
+ * @function serializeValue
+ * @description Copies plain objects and arrays, serializing every error found in them.
+ * Circular references become '[Circular]'; values nested deeper than `maxDepth` become '[Object]', '[Array]' or '[Name: message]'.
+ * BigInts become their decimal string, which JSON can represent. Other values, including class instances such as dates, are kept as they are.
+ * @param {unknown} value - The value, usually the metadata of an entry
+ * @param {SerializationOptions} [options] - The depth cap and whether to include stacks
+ * @returns {unknown} The serialized copy
+ */
+export function serializeValue(value: unknown, options: SerializationOptions = {}): unknown {
+    const maxDepth = options.maxDepth ?? 10;
+    const includeStack = options.stack ?? true;
+    const ancestors = new Set<object>();
+
+    const visit = (current: unknown, depth: number): unknown => {
+        if (typeof current === 'bigint') {
+            return current.toString();
+        }
+        if (current === null || typeof current !== 'object') {
+            return current;
+        }
+        const isError = current instanceof Error;
+        const isArray = Array.isArray(current);
+        if (!isError && !isArray && !isPlainObject(current)) {
+            return current;
+        }
+        if (ancestors.has(current)) {
+            return '[Circular]';
+        }
+        if (depth > maxDepth) {
+            return isError ? `[${current.name}: ${current.message}]` : isArray ? '[Array]' : '[Object]';
+        }
+
+        ancestors.add(current);
+        try {
+            if (isArray) {
+                return current.map(item => visit(item, depth + 1));
+            }
+            if (!isError) {
+                return Object.fromEntries(Object.entries(current).map(([key, field]) => [key, visit(field, depth + 1)]));
+            }
+
+            // The stable code of a CustomError, which differs from `code` on a NetworkError with a detail
+            const classCode: unknown = (current as { classCode?: unknown }).classCode;
+            const serialized: SerializedError = {
+                name: current.name,
+                message: current.message,
+                ...(typeof classCode === 'string' && { code: classCode }),
+                ...(includeStack && current.stack !== undefined && { stack: current.stack }),
+            };
+            for (const [key, field] of Object.entries(current)) {
+                if (!ERROR_FIELDS.has(key) && !(key in serialized)) {
+                    serialized[key] = visit(field, depth + 1);
+                }
+            }
+            if (current.cause !== undefined) {
+                serialized.cause = visit(current.cause, depth + 1);
+            }
+            const errors: unknown = (current as Partial<AggregateError>).errors;
+            if (Array.isArray(errors)) {
+                serialized.errors = errors.map(item => visit(item, depth + 1));
+            }
+            return serialized;
+        } finally {
+            ancestors.delete(current);
+        }
+    };
+
+    return visit(value, 0);
+}
+
+/**
+ * @function isPlainObject
+ * @description Checks whether a value is an object literal or has no prototype
+ * @param {object} value - The value
+ * @returns {boolean}
+ */
+function isPlainObject(value: object): boolean {
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
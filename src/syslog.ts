@@ -0,0 +1,454 @@
+/**
+ * @module syslog
+ * @description This module provides a Winston transport that ships entries to a syslog collector (RFC 5424)
+ * or a plain TCP/UDP log endpoint. Entries are queued while the connection is down or the collector does not keep up,
+ * and failed connections are retried with exponential backoff.
+ */
+
+import TransportStream from 'winston-transport';
+import * as net from 'net';
+import * as dgram from 'dgram';
+import * as os from 'os';
+import { LoggerInitializationError, NetworkError } from './errors';
+
+/**
+ * The syslog facilities, RFC 5424 section 6.2.1
+ */
+export type SyslogFacility = 'kern' | 'user' | 'mail' | 'daemon' | 'auth' | 'syslog' | 'lpr' | 'news' | 'uucp' | 'cron' | 'authpriv' | 'ftp'
+    | 'local0' | 'local1' | 'local2' | 'local3' | 'local4' | 'local5' | 'local6' | 'local7';
+
+/**
+ * How a failed or lost connection is re-established.
+ * @typedef {Object} SyslogReconnectOptions
+ * @property {number} [initialDelayMs=100] - The delay before the first attempt
+ * @property {number} [maxDelayMs=30000] - The longest delay between attempts
+ * @property {number} [factor=2] - The delay is multiplied by this after every failed attempt
+ */
+export interface SyslogReconnectOptions {
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+    factor?: number;
+}
+
+/**
+ * Options for creating a SyslogTransport.
+ * @typedef {Object} SyslogTransportOptions
+ * @property {string} [host='localhost'] - The collector's host
+ * @property {number} [port=514] - The collector's port
+ * @property {'udp'|'tcp'} [protocol='udp'] - The transport protocol
+ * @property {'rfc5424'|'plain'} [syntax='rfc5424'] - Send RFC 5424 messages, or only the formatted entry
+ * @property {'octet-counting'|'newline'} [framing] - How TCP messages are delimited. Defaults to 'octet-counting' (RFC 6587) for RFC 5424 and 'newline' for plain messages.
+ * @property {SyslogFacility} [facility='user'] - The facility of every message
+ * @property {string} [appName] - The APP-NAME of every message. Defaults to the entry's `service`.
+ * @property {string} [hostname=os.hostname()] - The HOSTNAME of every message
+ * @property {Object} [severities] - Syslog severities (0-7) by level name, added to the defaults
+ * @property {number} [maxQueueSize=1000] - The number of entries kept while the connection is down or a TCP collector does not keep up. The oldest are dropped first.
+ * @property {SyslogReconnectOptions} [reconnect] - The reconnect backoff
+ */
+export interface SyslogTransportOptions extends TransportStream.TransportStreamOptions {
+    host?: string;
+    port?: number;
+    protocol?: 'udp' | 'tcp';
+    syntax?: 'rfc5424' | 'plain';
+    framing?: 'octet-counting' | 'newline';
+    facility?: SyslogFacility;
+    appName?: string;
+    hostname?: string;
+    severities?: Record<string, number>;
+    maxQueueSize?: number;
+    reconnect?: SyslogReconnectOptions;
+}
+
+/**
+ * Syslog severities for the default levels. Levels not listed are sent as 'informational' (6).
+ */
+export const SYSLOG_SEVERITIES: Readonly<Record<string, number>> = {
+    fatal: 2,
+    error: 3,
+    warn: 4,
+    audit: 5,
+    info: 6,
+    http: 6,
+    verbose: 7,
+    debug: 7,
+    trace: 7,
+    silly: 7,
+};
+
+const FACILITIES: Record<SyslogFacility, number> = {
+    kern: 0, user: 1, mail: 2, daemon: 3, auth: 4, syslog: 5, lpr: 6, news: 7, uucp: 8, cron: 9, authpriv: 10, ftp: 11,
+    local0: 16, local1: 17, local2: 18, local3: 19, local4: 20, local5: 21, local6: 22, local7: 23,
+};
+
+const MESSAGE = Symbol.for('message');
+
+/**
+ * A Winston transport that sends entries to a syslog collector or a plain TCP/UDP log endpoint.
+ * Entries logged while the connection is down, or while the TCP socket's buffer is full until it drains, are queued,
+ * up to `maxQueueSize`; beyond that the oldest are dropped.
+ * Lost TCP connections, and UDP sockets that cannot connect (e.g. because the host does not resolve), are retried with exponential backoff.
+ *
+ * Connection losses and dropped entries are reported as `warn` events, which Logger writes at the 'warn' level.
+ *
+ * @class
+ * @extends TransportStream
+ *
+ * @example
+ * const syslog = new SyslogTransport({ host: 'logs.internal', port: 6514, protocol: 'tcp', facility: 'local0' });
+ * logger.addTransport(syslog);
+ * // Later
+ * logger.removeTransport(syslog);
+ */
+export class SyslogTransport extends TransportStream {
+    /**
+     * The collector's host
+     * @type {string}
+     */
+    public readonly host: string;
+
+    /**
+     * The collector's port
+     * @type {number}
+     */
+    public readonly port: number;
+
+    /**
+     * The transport protocol
+     * @type {'udp'|'tcp'}
+     */
+    public readonly protocol: 'udp' | 'tcp';
+
+    private readonly syntax: 'rfc5424' | 'plain';
+    private readonly framing: 'octet-counting' | 'newline';
+    private readonly facility: number;
+    private readonly appName?: string;
+    private readonly hostname: string;
+    private readonly severities: Record<string, number>;
+    private readonly maxQueueSize: number;
+    private readonly reconnect: Required<SyslogReconnectOptions>;
+    private readonly queue: string[] = [];
+    private socket?: net.Socket | dgram.Socket;
+    private connected: boolean = false;
+
+    /**
+     * Set while the TCP socket's buffer is full, until its `drain` event
+     * @private
+     * @type {boolean}
+     */
+    private congested: boolean = false;
+    private attempts: number = 0;
+    private dropped: number = 0;
+    private unreachable: boolean = false;
+    private timer?: NodeJS.Timeout;
+
+    /**
+     * Set once the transport is closing
+     * @private
+     * @type {Promise<void> | undefined}
+     */
+    private closing?: Promise<void>;
+
+    /**
+     * Creates an instance of SyslogTransport and starts connecting.
+     * @constructor
+     * @param {SyslogTransportOptions} [options] - The collector and message options
+     * @throws {LoggerInitializationError} If the port, facility, queue size or reconnect options are invalid
+     */
+    constructor(options: SyslogTransportOptions = {}) {
+        super(options);
+        this.host = options.host ?? 'localhost';
+        this.port = options.port ?? 514;
+        this.protocol = options.protocol ?? 'udp';
+        this.syntax = options.syntax ?? 'rfc5424';
+        this.framing = options.framing ?? (this.syntax === 'rfc5424' ? 'octet-counting' : 'newline');
+        this.hostname = options.hostname ?? os.hostname();
+        this.severities = { ...SYSLOG_SEVERITIES, ...options.severities };
+        this.maxQueueSize = options.maxQueueSize ?? 1000;
+        this.reconnect = { initialDelayMs: 100, maxDelayMs: 30000, factor: 2, ...options.reconnect };
+        if (options.appName !== undefined) this.appName = options.appName;
+
+        if (!Number.isInteger(this.port) || this.port < 1 || this.port > 65535) {
+            throw new LoggerInitializationError(`Invalid syslog port: ${this.port}`, 'syslog');
+        }
+        const facility = FACILITIES[options.facility ?? 'user'];
+        if (facility === undefined) {
+            throw new LoggerInitializationError(`Unknown syslog facility: ${options.facility}`, 'syslog');
+        }
+        this.facility = facility;
+        if (!Number.isInteger(this.maxQueueSize) || this.maxQueueSize < 1) {
+            throw new LoggerInitializationError(`Invalid syslog queue size: ${this.maxQueueSize}`, 'syslog');
+        }
+        const { initialDelayMs, maxDelayMs, factor } = this.reconnect;
+        if (!(initialDelayMs > 0 && maxDelayMs >= initialDelayMs && factor >= 1)) {
+            throw new LoggerInitializationError('Invalid syslog reconnect options: expected 0 < initialDelayMs <= maxDelayMs and factor >= 1', 'syslog');
+        }
+
+        this.connect();
+    }
+
+    /**
+     * @method log
+     * @description Sends an entry, or queues it while the connection is down or the socket's buffer is full
+     * @param {any} info - The Winston log entry
+     * @param {Function} callback - Invoked once the entry has been sent or queued
+     */
+    public log(info: any, callback: () => void): void {
+        setImmediate(() => this.emit('logged', info));
+
+        const message = this.syntax === 'rfc5424' ? this.rfc5424(info) : String(info[MESSAGE]);
+        if (this.connected && !this.congested && this.queue.length === 0) {
+            this.send(message);
+        } else if (!this.closing) {
+            this.enqueue(message);
+        }
+        callback();
+    }
+
+    /**
+     * @method flush
+     * @description Waits until every sent entry has been handed to the operating system.
+     * Entries queued while the connection is down are not waited for.
+     * @returns {Promise<void>}
+     */
+    public async flush(): Promise<void> {
+        const socket = this.socket;
+        if (this.connected && socket instanceof net.Socket && !socket.writableEnded) {
+            await new Promise<void>(resolve => socket.write('', () => resolve()));
+        }
+    }
+
+    /**
+     * @method close
+     * @description Stops reconnecting and closes the connection after the sent entries have been written.
+     * Queued entries are discarded. Safe to call more than once.
+     * @returns {Promise<void>} Resolves once the socket is closed
+     */
+    public close(): Promise<void> {
+        this.closing ??= new Promise<void>((resolve) => {
+            clearTimeout(this.timer);
+            const socket = this.socket;
+            if (!socket) {
+                resolve();
+            } else if (socket instanceof net.Socket) {
+                if (socket.destroyed) {
+                    resolve();
+                    return;
+                }
+                socket.once('close', () => resolve());
+                if (this.connected) {
+                    socket.end();
+                } else {
+                    socket.destroy();
+                }
+            } else {
+                socket.close(() => resolve());
+            }
+        }).then(() => {
+            this.connected = false;
+            this.queue.length = 0;
+        });
+        return this.closing;
+    }
+
+    /**
+     * @private
+     * @method connect
+     * @description Opens the TCP connection or the UDP socket
+     */
+    private connect(): void {
+        if (this.protocol === 'tcp') {
+            const socket = net.createConnection({ host: this.host, port: this.port });
+            // Do not keep the process alive for log shipping; close() or flushOnExit ends the connection
+            socket.unref();
+            socket.setKeepAlive(true);
+            let failure: Error | undefined;
+            socket.on('connect', () => this.onConnect());
+            socket.on('error', (error) => { failure = error; });
+            socket.on('close', () => this.onDisconnect(failure));
+            this.socket = socket;
+        } else {
+            const socket = dgram.createSocket(net.isIPv6(this.host) ? 'udp6' : 'udp4');
+            socket.unref();
+            socket.on('error', (error) => this.warnUnreachable(error));
+            socket.connect(this.port, this.host, (error?: Error) => {
+                if (!error) {
+                    this.onConnect();
+                } else if (!this.closing) {
+                    socket.close();
+                    this.onDisconnect(error);
+                }
+            });
+            this.socket = socket;
+        }
+    }
+
+    /**
+     * @private
+     * @method onConnect
+     * @description Sends the queued entries once the connection is up and reports what was dropped meanwhile
+     */
+    private onConnect(): void {
+        if (this.closing) {
+            return;
+        }
+        this.connected = true;
+        this.attempts = 0;
+        this.unreachable = false;
+        this.sendQueued('was unreachable');
+    }
+
+    /**
+     * @private
+     * @method onDrain
+     * @description Sends the entries queued while the TCP socket's buffer was full
+     * @param {net.Socket} socket - The socket that drained
+     */
+    private onDrain(socket: net.Socket): void {
+        if (socket !== this.socket || this.closing) {
+            return;
+        }
+        this.congested = false;
+        this.sendQueued('did not keep up');
+    }
+
+    /**
+     * @private
+     * @method sendQueued
+     * @description Sends queued entries until the queue is empty or the socket's buffer is full again,
+     * and reports what was dropped meanwhile
+     * @param {string} reason - Why entries were queued, for the report
+     */
+    private sendQueued(reason: string): void {
+        while (this.queue.length > 0 && !this.congested) {
+            this.send(this.queue.shift()!);
+        }
+        if (this.dropped > 0) {
+            this.warn(`Dropped ${this.dropped} log ${this.dropped === 1 ? 'entry' : 'entries'} while ${this.host}:${this.port} ${reason}`);
+            this.dropped = 0;
+        }
+    }
+
+    /**
+     * @private
+     * @method onDisconnect
+     * @description Schedules the next connection attempt after a TCP connection failed or was lost, or a UDP socket failed to connect
+     * @param {Error} [error] - The failure, if the connection did not close normally
+     */
+    private onDisconnect(error?: Error): void {
+        this.connected = false;
+        this.congested = false;
+        delete this.socket;
+        if (this.closing) {
+            return;
+        }
+        this.warnUnreachable(error ?? new Error('connection closed'));
+
+        const { initialDelayMs, maxDelayMs, factor } = this.reconnect;
+        const delay = Math.min(initialDelayMs * factor ** this.attempts, maxDelayMs);
+        this.attempts++;
+        this.timer = setTimeout(() => this.connect(), delay);
+        this.timer.unref();
+    }
+
+    /**
+     * @private
+     * @method send
+     * @description Writes one message to the socket, framed for TCP. Once the TCP socket's buffer is full,
+     * further entries are queued until it drains.
+     * @param {string} message - The message
+     */
+    private send(message: string): void {
+        const socket = this.socket;
+        if (socket instanceof net.Socket) {
+            const buffered = !socket.write(this.framing === 'octet-counting'
+                ? `${Buffer.byteLength(message)} ${message}`
+                : `${message.replace(/\r?\n/g, ' ')}\n`);
+            if (buffered) {
+                this.congested = true;
+                socket.once('drain', () => this.onDrain(socket));
+            }
+        } else if (socket) {
+            socket.send(message, (error) => {
+                if (error) {
+                    this.warnUnreachable(error);
+                }
+            });
+        }
+    }
+
+    /**
+     * @private
+     * @method enqueue
+     * @description Queues a message, dropping the oldest one when the queue is full
+     * @param {string} message - The message
+     */
+    private enqueue(message: string): void {
+        this.queue.push(message);
+        if (this.queue.length > this.maxQueueSize) {
+            this.queue.shift();
+            if (this.dropped++ === 0) {
+                this.warn(`Syslog queue is full (${this.maxQueueSize} entries): dropping the oldest entries until ${this.host}:${this.port} ${this.connected ? 'catches up' : 'is reachable'}`);
+            }
+        }
+    }
+
+    /**
+     * @private
+     * @method warnUnreachable
+     * @description Reports the first failure of an outage
+     * @param {Error} error - The failure
+     */
+    private warnUnreachable(error: NodeJS.ErrnoException): void {
+        if (!this.unreachable) {
+            this.unreachable = true;
+            this.warn(`Syslog ${this.protocol.toUpperCase()} connection to ${this.host}:${this.port} failed: ${error.message}`, error.code);
+        }
+    }
+
+    /**
+     * @private
+     * @method warn
+     * @description Emits a `warn` event carrying a NetworkError. Emitted on the next tick, so that logging the
+     * warning does not re-enter `log`.
+     * @param {string} message - The warning
+     * @param {string} [code] - The system error code
+     */
+    private warn(message: string, code?: string): void {
+        process.nextTick(() => this.emit('warn', new NetworkError(message, code)));
+    }
+
+    /**
+     * @private
+     * @method rfc5424
+     * @description Builds an RFC 5424 message: `<PRI>1 TIMESTAMP HOSTNAME APP-NAME PROCID MSGID - MSG`.
+     * The entry's context becomes the MSGID.
+     * @param {any} info - The Winston log entry
+     * @returns {string} The message
+     */
+    private rfc5424(info: any): string {
+        const priority = this.facility * 8 + (this.severities[info.level] ?? 6);
+        const appName = this.appName ?? (typeof info.service === 'string' ? info.service : undefined);
+        return [
+            `<${priority}>1`,
+            new Date().toISOString(),
+            headerField(this.hostname, 255),
+            headerField(appName, 48),
+            headerField(String(process.pid), 128),
+            headerField(info.context, 32),
+            '-',
+            String(info[MESSAGE]),
+        ].join(' ');
+    }
+}
+
+/**
+ * @function headerField
+ * @description Restricts an RFC 5424 header field to printable ASCII without spaces and to its maximum length
+ * @param {unknown} value - The field value
+ * @param {number} maxLength - The maximum length of the field
+ * @returns {string} The field, or '-' if it is empty
+ */
+function headerField(value: unknown, maxLength: number): string {
+    const field = typeof value === 'string' ? value.replace(/[^\x21-\x7e]/g, '_').slice(0, maxLength) : '';
+    return field || '-';
+}
@@ -0,0 +1,368 @@
+/**
+ * @module template
+ * @description This module implements the log format template language used by `Logger.setLogFormat`,
+ * and the configurable timestamp formats.
+ *
+ * Template syntax:
+ * - `{token}` inserts a value. Tokens may be repeated.
+ *   Available tokens: level, timestamp, message, context, service, pid, hostname, elapsed and meta.<path>.
+ * - `{token|modifier|modifier:arg}` transforms a value: upper, lower, capitalize, pad:N, padStart:N, truncate:N, raw.
+ *   `{level}` renders upper-case and `{context}` renders as ` - [Context]`; `raw` gives the plain value.
+ * - `{? ... ?}` is a conditional section that disappears when any token inside it has no value.
+ * - `{{` and `}}` insert literal braces.
+ *
+ * The metadata not printed by `{service}` or `{meta.<path>}` tokens is appended to every line as JSON.
+ */
+
+import * as os from 'os';
+import { LoggerInitializationError } from './errors';
+
+/**
+ * A modifier applied to a token value.
+ * @typedef {Object} TemplateModifier
+ */
+export interface TemplateModifier {
+    name: 'raw' | 'upper' | 'lower' | 'capitalize' | 'pad' | 'padStart' | 'truncate';
+    arg?: number;
+}
+
+/**
+ * A node of a parsed template.
+ * @typedef {Object} TemplateNode
+ */
+export type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'token'; name: string; modifiers: TemplateModifier[] }
+    | { type: 'section'; nodes: TemplateNode[] };
+
+/**
+ * A validated template that renders Winston entries.
+ * @typedef {Object} CompiledTemplate
+ * @property {string} source - The template as written
+ * @property {TemplateNode[]} nodes - The parsed template
+ * @property {Function} render - Renders an entry, appending the metadata its tokens did not print as JSON
+ */
+export interface CompiledTemplate {
+    source: string;
+    nodes: TemplateNode[];
+    render(info: any): string;
+}
+
+/**
+ * Options for the timestamps of log entries.
+ * @typedef {Object} TimestampOptions
+ * @property {string} [format='YYYY-MM-DD HH:mm:ss'] - 'iso' for ISO 8601 with milliseconds, 'epoch' for milliseconds since the epoch,
+ * or a pattern built from YYYY, MM, DD, HH, mm, ss, SSS and Z
+ * @property {boolean} [utc=false] - Render patterns in UTC rather than local time. 'iso' is always UTC.
+ */
+export interface TimestampOptions {
+    format?: string;
+    utc?: boolean;
+}
+
+/**
+ * The symbol under which the milliseconds since the previous entry are stored on Winston entries
+ */
+export const ELAPSED = Symbol.for('beverost.elapsed');
+
+/**
+ * The symbol under which the time an entry was logged, in milliseconds since the epoch, is stored on Winston entries
+ */
+export const CREATED = Symbol.for('beverost.created');
+
+const TOKENS = new Set(['level', 'timestamp', 'message', 'context', 'service', 'pid', 'hostname', 'elapsed']);
+
+const MODIFIERS: Record<TemplateModifier['name'], boolean> = {
+    raw: false,
+    upper: false,
+    lower: false,
+    capitalize: false,
+    pad: true,
+    padStart: true,
+    truncate: true,
+};
+
+/**
+ * Fields of an entry that are rendered by dedicated tokens rather than in the trailing metadata
+ */
+const RENDERED_FIELDS = new Set(['level', 'message', 'timestamp', 'context']);
+
+const HOSTNAME = os.hostname();
+
+/**
+ * @function parseLogTemplate
+ * @description Parses and validates a log format template
+ * @param {string} template - The template
+ * @returns {TemplateNode[]} The parsed template
+ * @throws {LoggerInitializationError} If the template is invalid
+ */
+export function parseLogTemplate(template: string): TemplateNode[] {
+    const fail = (reason: string, index: number): never => {
+        throw new LoggerInitializationError(`Invalid log format template at position ${index}: ${reason}`, 'template');
+    };
+
+    const root: TemplateNode[] = [];
+    let nodes = root;
+    let section: { nodes: TemplateNode[]; start: number } | undefined;
+    let text = '';
+    const flushText = () => {
+        if (text) nodes.push({ type: 'text', value: text });
+        text = '';
+    };
+
+    for (let i = 0; i < template.length; i++) {
+        const pair = template.slice(i, i + 2);
+        if (pair === '{{' || pair === '}}') {
+            text += pair[0];
+            i++;
+        } else if (pair === '{?') {
+            if (section) fail('conditional sections cannot be nested', i);
+            flushText();
+            section = { nodes: [], start: i };
+            nodes = section.nodes;
+            i++;
+        } else if (pair === '?}' && section) {
+            flushText();
+            root.push({ type: 'section', nodes: section.nodes });
+            section = undefined;
+            nodes = root;
+            i++;
+        } else if (template[i] === '{') {
+            const end = template.indexOf('}', i);
+            if (end === -1) fail("unclosed '{'", i);
+            flushText();
+            nodes.push(parseToken(template.slice(i + 1, end), i, fail));
+            i = end;
+        } else if (template[i] === '}') {
+            fail("unmatched '}'", i);
+        } else {
+            text += template[i];
+        }
+    }
+
+    if (section) fail("unclosed conditional section '{?'", section.start);
+    flushText();
+    return root;
+}
+
+/**
+ * @function parseToken
+ * @description Parses the inside of a `{...}` token
+ * @returns {TemplateNode} The token node
+ */
+function parseToken(body: string, index: number, fail: (reason: string, index: number) => never): TemplateNode {
+    const [name = '', ...parts] = body.split('|').map(part => part.trim());
+    if (name.includes('{')) fail("unexpected '{' inside a token", index);
+    if (!TOKENS.has(name) && !/^meta\.[\w$-]+(\.[\w$-]+)*$/.test(name)) fail(`unknown token '${name}'`, index);
+
+    const modifiers = parts.map((part): TemplateModifier => {
+        const [modifier = '', arg] = part.split(':');
+        if (!(modifier in MODIFIERS)) fail(`unknown modifier '${modifier}' on '${name}'`, index);
+        const takesArg = MODIFIERS[modifier as TemplateModifier['name']];
+        if (takesArg !== (arg !== undefined) || (arg !== undefined && !/^[1-9]\d*$/.test(arg))) {
+            fail(takesArg ? `modifier '${modifier}' needs a positive width, e.g. ${modifier}:8` : `modifier '${modifier}' takes no argument`, index);
+        }
+        return { name: modifier as TemplateModifier['name'], ...(arg !== undefined && { arg: Number(arg) }) };
+    });
+
+    return { type: 'token', name, modifiers };
+}
+
+/**
+ * @function compileLogTemplate
+ * @description Parses, validates and compiles a log format template
+ * @param {string} template - The template
+ * @returns {CompiledTemplate} The compiled template
+ * @throws {LoggerInitializationError} If the template is invalid
+ *
+ * @example
+ * compileLogTemplate('{timestamp} {level|pad:5}{? [{meta.requestId}]?} {message} (+{elapsed}ms)');
+ */
+export function compileLogTemplate(template: string): CompiledTemplate {
+    const nodes = parseLogTemplate(template);
+
+    // Collects the paths of the metadata fields printed, so they are not repeated in the trailing JSON
+    const renderNodes = (list: TemplateNode[], info: any, printed: string[][]): string | undefined => {
+        let output = '';
+        const printedHere: string[][] = [];
+        for (const node of list) {
+            if (node.type === 'text') {
+                output += node.value;
+            } else if (node.type === 'section') {
+                output += renderNodes(node.nodes, info, printedHere) ?? '';
+            } else {
+                const value = tokenValue(node, info);
+                if (value === undefined) {
+                    if (list !== nodes) return undefined;
+                    continue;
+                }
+                output += applyModifiers(value, node.modifiers);
+                const path = metadataPath(node.name);
+                if (path) printedHere.push(path);
+            }
+        }
+        printed.push(...printedHere);
+        return output;
+    };
+
+    return {
+        source: template,
+        nodes,
+        render(info: any): string {
+            const printed: string[][] = [];
+            let message = renderNodes(nodes, info, printed) ?? '';
+            const metadata = printed.reduce<Record<string, unknown>>(
+                omitPath,
+                Object.fromEntries(Object.entries(info).filter(([key]) => !RENDERED_FIELDS.has(key)))
+            );
+            if (Object.keys(metadata).length > 0) {
+                message += ` ${JSON.stringify(metadata)}`;
+            }
+            return message;
+        },
+    };
+}
+
+/**
+ * @function metadataPath
+ * @description Returns the path of the metadata field a token prints, if it prints one
+ * @param {string} name - The token name
+ * @returns {string[] | undefined} The path, e.g. ['user', 'id'] for `{meta.user.id}`
+ */
+export function metadataPath(name: string): string[] | undefined {
+    if (name === 'service') {
+        return ['service'];
+    }
+    return name.startsWith('meta.') ? name.slice(5).split('.') : undefined;
+}
+
+/**
+ * @function omitPath
+ * @description Returns a copy of the metadata without the field at a path. Objects left empty are removed as well.
+ * @returns {Record<string, unknown>} The copy
+ */
+function omitPath(metadata: Record<string, unknown>, path: string[]): Record<string, unknown> {
+    const [key, ...rest] = path;
+    if (key === undefined || !Object.prototype.hasOwnProperty.call(metadata, key)) {
+        return metadata;
+    }
+    const value = metadata[key];
+    if (rest.length > 0 && (value === null || typeof value !== 'object' || Array.isArray(value))) {
+        return metadata;
+    }
+    const copy = { ...metadata };
+    const remaining = rest.length > 0 ? omitPath(value as Record<string, unknown>, rest) : {};
+    if (Object.keys(remaining).length > 0) {
+        copy[key] = remaining;
+    } else {
+        delete copy[key];
+    }
+    return copy;
+}
+
+/**
+ * @function tokenValue
+ * @description Resolves the value of a token for an entry
+ * @returns {string | undefined} The value, or undefined if the entry has none
+ */
+function tokenValue(node: { name: string; modifiers: TemplateModifier[] }, info: any): string | undefined {
+    const raw = node.modifiers.some(modifier => modifier.name === 'raw');
+    let value: unknown;
+    switch (node.name) {
+        case 'level':
+            value = info.level && (raw ? info.level : String(info.level).toUpperCase());
+            break;
+        case 'context':
+            value = info.context && (raw ? info.context : ` - [${info.context}]`);
+            break;
+        case 'pid':
+            value = process.pid;
+            break;
+        case 'hostname':
+            value = HOSTNAME;
+            break;
+        case 'elapsed':
+            value = info[ELAPSED];
+            break;
+        default:
+            value = node.name.startsWith('meta.')
+                ? node.name.slice(5).split('.').reduce<any>((current, key) => current?.[key], info)
+                : info[node.name];
+    }
+
+    if (value === undefined || value === null || value === '') {
+        return undefined;
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * @function applyModifiers
+ * @description Applies the modifiers of a token to its value, in order
+ * @returns {string} The modified value
+ */
+function applyModifiers(value: string, modifiers: TemplateModifier[]): string {
+    return modifiers.reduce((current, modifier) => {
+        switch (modifier.name) {
+            case 'upper': return current.toUpperCase();
+            case 'lower': return current.toLowerCase();
+            case 'capitalize': return current.charAt(0).toUpperCase() + current.slice(1);
+            case 'pad': return current.padEnd(modifier.arg!);
+            case 'padStart': return current.padStart(modifier.arg!);
+            case 'truncate': return current.length > modifier.arg! ? current.slice(0, modifier.arg!) : current;
+            default: return current;
+        }
+    }, value);
+}
+
+/**
+ * @function validateTimestampFormat
+ * @description Checks that a timestamp format can be rendered
+ * @param {TimestampOptions} options - The timestamp options
+ * @throws {LoggerInitializationError} If the format is empty or contains no date or time field
+ */
+export function validateTimestampFormat(options: TimestampOptions): void {
+    const pattern = options.format;
+    if (pattern === undefined || pattern === 'iso' || pattern === 'epoch') {
+        return;
+    }
+    if (!/YYYY|MM|DD|HH|mm|ss|SSS/.test(pattern)) {
+        throw new LoggerInitializationError(`Invalid timestamp format: '${pattern}' contains no date or time field`, 'timestamp');
+    }
+}
+
+/**
+ * @function formatTimestamp
+ * @description Formats a date for a log entry
+ * @param {Date} date - The date
+ * @param {TimestampOptions} [options] - The format and time zone
+ * @returns {string} The formatted timestamp
+ *
+ * @example
+ * formatTimestamp(new Date(), { format: 'YYYY-MM-DDTHH:mm:ss.SSSZ', utc: true }); // '2024-01-01T12:00:00.000Z'
+ */
+export function formatTimestamp(date: Date, options: TimestampOptions = {}): string {
+    const pattern = options.format ?? 'YYYY-MM-DD HH:mm:ss';
+    if (pattern === 'iso') {
+        return date.toISOString();
+    }
+    if (pattern === 'epoch') {
+        return String(date.getTime());
+    }
+
+    const utc = options.utc ?? false;
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    const offset = utc ? 0 : -date.getTimezoneOffset();
+    const zone = offset === 0 && utc ? 'Z' : `${offset >= 0 ? '+' : '-'}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+    const fields: Record<string, string> = {
+        YYYY: pad(utc ? date.getUTCFullYear() : date.getFullYear(), 4),
+        MM: pad((utc ? date.getUTCMonth() : date.getMonth()) + 1),
+        DD: pad(utc ? date.getUTCDate() : date.getDate()),
+        HH: pad(utc ? date.getUTCHours() : date.getHours()),
+        mm: pad(utc ? date.getUTCMinutes() : date.getMinutes()),
+        ss: pad(utc ? date.getUTCSeconds() : date.getSeconds()),
+        SSS: pad(utc ? date.getUTCMilliseconds() : date.getMilliseconds(), 3),
+        Z: zone,
+    };
+    return pattern.replace(/YYYY|SSS|MM|DD|HH|mm|ss|Z/g, token => fields[token]!);
+}
@@ -0,0 +1,258 @@
+/**
+ * @module testing
+ * @description This module provides an in-memory transport that captures structured log entries instead of writing them,
+ * with assertion helpers for tests and a stable text rendering for snapshots. Use it through `Logger.createTestLogger`.
+ */
+
+import TransportStream from 'winston-transport';
+import { Logger } from './logger';
+import { DefaultLevel } from './levels';
+
+/**
+ * A log entry captured by a MemoryTransport.
+ * @typedef {Object} CapturedLogEntry
+ * @property {string} level - The level of the entry
+ * @property {string} message - The message
+ * @property {string} [context] - The context of the logger that wrote the entry
+ * @property {string} [timestamp] - The timestamp of the entry
+ * @property {Object} meta - All other fields of the entry
+ */
+export interface CapturedLogEntry {
+    level: string;
+    message: string;
+    context?: string;
+    timestamp?: string;
+    meta: Record<string, unknown>;
+}
+
+/**
+ * Describes the entries an assertion looks for. Every given criterion must match.
+ * @typedef {Object} LogExpectation
+ * @property {string|string[]} [level] - One level or any of several levels
+ * @property {string|RegExp} [message] - A substring of the message, or a pattern
+ * @property {string|RegExp} [context] - The exact context, or a pattern
+ * @property {Object} [meta] - Expected metadata values, keyed by field name or dotted path. Strings may be patterns.
+ * @property {number} [times] - The exact number of matching entries
+ */
+export interface LogExpectation {
+    level?: string | string[];
+    message?: string | RegExp;
+    context?: string | RegExp;
+    meta?: Record<string, unknown>;
+    times?: number;
+}
+
+/**
+ * Options for a MemoryTransport.
+ * @typedef {Object} MemoryTransportOptions
+ * @property {number} [maxEntries] - Keep only the newest entries
+ */
+export interface MemoryTransportOptions extends TransportStream.TransportStreamOptions {
+    maxEntries?: number;
+}
+
+/**
+ * A logger writing only to memory, with the assertion helpers of its MemoryTransport.
+ */
+export type TestLogger<L extends string = DefaultLevel> = Logger<L> & {
+    readonly memory: MemoryTransport;
+    readonly entries: CapturedLogEntry[];
+    expectLogged(expectation: LogExpectation): CapturedLogEntry;
+    expectNotLogged(expectation: LogExpectation): void;
+    clear(): void;
+    snapshot(): string;
+};
+
+/**
+ * A Winston transport that keeps structured entries in an array and writes nothing.
+ * Entries are captured synchronously, so they can be asserted right after the logging call.
+ * Closing the transport keeps its entries.
+ *
+ * @class
+ * @extends TransportStream
+ *
+ * @example
+ * const logger = Logger.createTestLogger('Api');
+ * await api.get('orders');
+ * logger.expectLogged({ level: 'error', message: /timeout/, meta: { status: 504 } });
+ * expect(logger.snapshot()).toMatchSnapshot();
+ */
+export class MemoryTransport extends TransportStream {
+    /**
+     * The captured entries, oldest first
+     * @type {CapturedLogEntry[]}
+     */
+    public readonly entries: CapturedLogEntry[] = [];
+
+    private readonly maxEntries?: number;
+
+    /**
+     * Creates an instance of MemoryTransport.
+     * @constructor
+     * @param {MemoryTransportOptions} [options] - The transport options
+     */
+    constructor(options: MemoryTransportOptions = {}) {
+        super(options);
+        if (options.maxEntries !== undefined) this.maxEntries = options.maxEntries;
+    }
+
+    /**
+     * @method log
+     * @description Captures an entry
+     * @param {any} info - The Winston log entry
+     * @param {Function} callback - Invoked once the entry has been captured
+     */
+    public log(info: any, callback: () => void): void {
+        const { level, message, context, timestamp, ...meta } = info;
+        this.entries.push({
+            level,
+            message: String(message),
+            ...(context !== undefined && { context }),
+            ...(typeof timestamp === 'string' && { timestamp }),
+            // Object.entries drops Winston's internal symbol fields
+            meta: Object.fromEntries(Object.entries(meta)),
+        });
+        if (this.maxEntries !== undefined && this.entries.length > this.maxEntries) {
+            this.entries.splice(0, this.entries.length - this.maxEntries);
+        }
+        setImmediate(() => this.emit('logged', info));
+        callback();
+    }
+
+    /**
+     * @method find
+     * @description Returns the captured entries matching an expectation
+     * @param {LogExpectation} [expectation] - The criteria
+     * @returns {CapturedLogEntry[]} The matching entries
+     */
+    public find(expectation: LogExpectation = {}): CapturedLogEntry[] {
+        return this.entries.filter(entry => MemoryTransport.matches(entry, expectation));
+    }
+
+    /**
+     * @method expectLogged
+     * @description Asserts that an entry matching the expectation was captured, or exactly `times` entries
+     * @param {LogExpectation} expectation - The criteria
+     * @returns {CapturedLogEntry} The first matching entry
+     * @throws {Error} Listing the captured entries if the assertion fails
+     */
+    public expectLogged(expectation: LogExpectation): CapturedLogEntry {
+        const found = this.find(expectation);
+        const expected = expectation.times;
+        if (expected === undefined ? found.length === 0 : found.length !== expected) {
+            throw new Error(
+                `Expected ${expected ?? 'at least one'} log ${expected === undefined || expected === 1 ? 'entry' : 'entries'} matching ${MemoryTransport.describe(expectation)}, found ${found.length}.\n` +
+                `Captured entries:\n${this.snapshot() || '(none)'}`
+            );
+        }
+        return found[0]!;
+    }
+
+    /**
+     * @method expectNotLogged
+     * @description Asserts that no entry matching the expectation was captured
+     * @param {LogExpectation} expectation - The criteria
+     * @throws {Error} Listing the matching entries if the assertion fails
+     */
+    public expectNotLogged(expectation: LogExpectation): void {
+        const found = this.find(expectation);
+        if (found.length > 0) {
+            throw new Error(
+                `Expected no log entries matching ${MemoryTransport.describe(expectation)}, found ${found.length}:\n` +
+                found.map(entry => MemoryTransport.formatEntry(entry)).join('\n')
+            );
+        }
+    }
+
+    /**
+     * @method clear
+     * @description Removes every captured entry
+     */
+    public clear(): void {
+        this.entries.length = 0;
+    }
+
+    /**
+     * @method snapshot
+     * @description Renders the captured entries for snapshots: one line per entry, without timestamps,
+     * with metadata keys sorted, e.g. `ERROR [Api] Request failed {"status":504}`
+     * @returns {string} The rendered entries
+     */
+    public snapshot(): string {
+        return this.entries.map(entry => MemoryTransport.formatEntry(entry)).join('\n');
+    }
+
+    /**
+     * @method close
+     * @description Does nothing, so the entries remain available after the logger is closed
+     */
+    public close(): void {
+        // Nothing to release
+    }
+
+    /**
+     * @private
+     * @static
+     * @method formatEntry
+     * @description Renders one entry
+     * @param {CapturedLogEntry} entry - The entry
+     * @returns {string} The rendered entry
+     */
+    private static formatEntry(entry: CapturedLogEntry): string {
+        const meta = Object.keys(entry.meta).length > 0 ? ` ${JSON.stringify(entry.meta, sortKeys)}` : '';
+        return `${entry.level.toUpperCase()}${entry.context ? ` [${entry.context}]` : ''} ${entry.message}${meta}`;
+    }
+
+    /**
+     * @private
+     * @static
+     * @method matches
+     * @description Checks an entry against an expectation
+     * @param {CapturedLogEntry} entry - The entry
+     * @param {LogExpectation} expectation - The criteria
+     * @returns {boolean}
+     */
+    private static matches(entry: CapturedLogEntry, expectation: LogExpectation): boolean {
+        const { level, message, context, meta } = expectation;
+        if (level !== undefined && ![level].flat().includes(entry.level)) {
+            return false;
+        }
+        if (message !== undefined && !(typeof message === 'string' ? entry.message.includes(message) : message.test(entry.message))) {
+            return false;
+        }
+        if (context !== undefined && (entry.context === undefined || !(typeof context === 'string' ? entry.context === context : context.test(entry.context)))) {
+            return false;
+        }
+        return Object.entries(meta ?? {}).every(([key, expected]) => {
+            const actual = key.split('.').reduce<any>((value, part) => value?.[part], entry.meta);
+            if (expected instanceof RegExp) {
+                return typeof actual === 'string' && expected.test(actual);
+            }
+            return JSON.stringify(actual, sortKeys) === JSON.stringify(expected, sortKeys);
+        });
+    }
+
+    /**
+     * @private
+     * @static
+     * @method describe
+     * @description Renders an expectation for assertion messages
+     * @param {LogExpectation} expectation - The criteria
+     * @returns {string}
+     */
+    private static describe(expectation: LogExpectation): string {
+        const criteria = Object.entries(expectation).filter(([key]) => key !== 'times');
+        return `{ ${criteria.map(([key, value]) => `${key}: ${value instanceof RegExp ? String(value) : JSON.stringify(value, (_key, inner) => inner instanceof RegExp ? String(inner) : inner)}`).join(', ')} }`;
+    }
+}
+
+/**
+ * @function sortKeys
+ * @description A JSON replacer that orders the keys of plain objects, so renderings do not depend on insertion order
+ */
+function sortKeys(_key: string, value: unknown): unknown {
+    if (value && typeof value === 'object' && !Array.isArray(value) && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    return value;
+}
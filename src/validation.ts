@@ -0,0 +1,446 @@
+/**
+ * @module validation
+ * @description This module provides a small schema builder for validating untrusted input, such as request bodies,
+ * with static type inference. Failures are reported as one ValidationError listing every issue with its path,
+ * rule, expected value and the type of the received value. The values themselves are left out of the issues, so that
+ * passwords or tokens in a rejected request do not reach responses or logs. The `validate` middleware applies schemas
+ * to Express requests.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ValidationError, ValidationIssue } from './errors';
+
+/**
+ * The result of `Schema.safeParse`.
+ */
+export type SafeParseResult<T> = { success: true; data: T } | { success: false; error: ValidationError };
+
+/**
+ * The type of the values a schema accepts, after parsing.
+ *
+ * @example
+ * const order = schema.object({ id: schema.string(), note: schema.string().optional() });
+ * type Order = Infer<typeof order>; // { id: string; note?: string | undefined }
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Marks a value that failed validation
+ */
+const INVALID: unique symbol = Symbol('invalid');
+
+type Checked<T> = T | typeof INVALID;
+
+/**
+ * The base of every schema. Subclasses implement `check`, which reports issues and returns the parsed value.
+ *
+ * @abstract
+ * @class
+ */
+export abstract class Schema<T> {
+    /**
+     * @method parse
+     * @description Validates a value and returns the parsed value
+     * @param {unknown} value - The value
+     * @param {string} [label='Value'] - How the value is named in the error message, e.g. 'Request body'
+     * @returns {T} The parsed value
+     * @throws {ValidationError} Listing every issue
+     */
+    public parse(value: unknown, label: string = 'Value'): T {
+        const result = this.safeParse(value, label);
+        if (!result.success) {
+            throw result.error;
+        }
+        return result.data;
+    }
+
+    /**
+     * @method safeParse
+     * @description Validates a value without throwing
+     * @param {unknown} value - The value
+     * @param {string} [label='Value'] - How the value is named in the error message
+     * @returns {SafeParseResult<T>} The parsed value, or the ValidationError
+     */
+    public safeParse(value: unknown, label: string = 'Value'): SafeParseResult<T> {
+        const issues: ValidationIssue[] = [];
+        const data = this.check(value, [], issues);
+        if (data === INVALID || issues.length > 0) {
+            return { success: false, error: createValidationError(label, issues) };
+        }
+        return { success: true, data };
+    }
+
+    /**
+     * @method optional
+     * @description Also accepts undefined. Optional properties of an object schema may be missing.
+     * @returns {Schema<T | undefined>}
+     */
+    public optional(): Schema<T | undefined> {
+        return new WrappedSchema<T | undefined>((value, path, issues) => value === undefined ? undefined : this.check(value, path, issues));
+    }
+
+    /**
+     * @method nullable
+     * @description Also accepts null
+     * @returns {Schema<T | null>}
+     */
+    public nullable(): Schema<T | null> {
+        return new WrappedSchema<T | null>((value, path, issues) => value === null ? null : this.check(value, path, issues));
+    }
+
+    /**
+     * @method default
+     * @description Uses a default when the value is undefined
+     * @param {T} fallback - The default
+     * @returns {Schema<T>}
+     */
+    public default(fallback: T): Schema<T> {
+        return new WrappedSchema<T>((value, path, issues) => this.check(value === undefined ? fallback : value, path, issues));
+    }
+
+    /**
+     * @method refine
+     * @description Adds a custom rule, checked once the value passed the schema's own rules
+     * @param {Function} predicate - Returns true for valid values
+     * @param {string} message - What is wrong with invalid values
+     * @param {string} [rule='refine'] - The name of the rule in issues
+     * @returns {Schema<T>}
+     *
+     * @example
+     * schema.string().refine(value => value === value.trim(), 'must not have surrounding spaces', 'trimmed');
+     */
+    public refine(predicate: (value: T) => boolean, message: string, rule: string = 'refine'): Schema<T> {
+        return new WrappedSchema<T>((value, path, issues) => {
+            const parsed = this.check(value, path, issues);
+            if (parsed === INVALID) {
+                return INVALID;
+            }
+            if (!predicate(parsed)) {
+                issues.push({ path, rule, expected: rule, received: describeType(value), message });
+                return INVALID;
+            }
+            return parsed;
+        });
+    }
+
+    /**
+     * @method check
+     * @description Validates a value, adding an issue for every failed rule
+     * @param {unknown} value - The value
+     * @param {(string|number)[]} path - The path of the value
+     * @param {ValidationIssue[]} issues - Receives the issues
+     * @returns {T | typeof INVALID} The parsed value, or INVALID
+     */
+    public abstract check(value: unknown, path: (string | number)[], issues: ValidationIssue[]): Checked<T>;
+}
+
+/**
+ * A schema defined by a check function, used for modifiers such as `optional` and `refine`
+ */
+class WrappedSchema<T> extends Schema<T> {
+    constructor(private readonly checker: (value: unknown, path: (string | number)[], issues: ValidationIssue[]) => Checked<T>) {
+        super();
+    }
+
+    public check(value: unknown, path: (string | number)[], issues: ValidationIssue[]): Checked<T> {
+        return this.checker(value, path, issues);
+    }
+}
+
+/**
+ * Rules of string schemas.
+ * @typedef {Object} StringRules
+ * @property {number} [min] - The minimum length
+ * @property {number} [max] - The maximum length
+ * @property {RegExp} [pattern] - A pattern the string must match
+ * @property {boolean} [trim=false] - Trim the string before the other rules are checked
+ */
+export interface StringRules {
+    min?: number;
+    max?: number;
+    pattern?: RegExp;
+    trim?: boolean;
+}
+
+/**
+ * Rules of number schemas.
+ * @typedef {Object} NumberRules
+ * @property {number} [min] - The minimum value
+ * @property {number} [max] - The maximum value
+ * @property {boolean} [integer=false] - Whether only integers are accepted
+ * @property {boolean} [coerce=false] - Accept numeric strings, as found in query strings and route parameters
+ */
+export interface NumberRules {
+    min?: number;
+    max?: number;
+    integer?: boolean;
+    coerce?: boolean;
+}
+
+/**
+ * Rules of array schemas.
+ * @typedef {Object} ArrayRules
+ * @property {number} [min] - The minimum number of items
+ * @property {number} [max] - The maximum number of items
+ */
+export interface ArrayRules {
+    min?: number;
+    max?: number;
+}
+
+/**
+ * The property schemas of an object schema.
+ */
+export type Shape = Record<string, Schema<unknown>>;
+
+/**
+ * The type of the values an object schema accepts. Properties whose schema accepts undefined are optional.
+ */
+export type ObjectOutput<S extends Shape> = {
+    [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+} & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+};
+
+/**
+ * Builders for schemas.
+ *
+ * @example
+ * const createOrder = schema.object({
+ *   customerId: schema.string({ pattern: /^c_\w+$/ }),
+ *   items: schema.array(schema.object({ sku: schema.string(), quantity: schema.number({ integer: true, min: 1 }) }), { min: 1 }),
+ *   payment: schema.enum(['card', 'invoice']),
+ *   note: schema.string({ max: 500 }).optional(),
+ * });
+ * const order = createOrder.parse(req.body, 'Request body');
+ */
+export const schema = {
+    /**
+     * @function string
+     * @description Accepts strings
+     * @param {StringRules} [rules] - Length, pattern and trimming
+     * @returns {Schema<string>}
+     */
+    string(rules: StringRules = {}): Schema<string> {
+        return new WrappedSchema<string>((value, path, issues) => {
+            if (typeof value !== 'string') {
+                return typeIssue(value, 'string', path, issues);
+            }
+            const text = rules.trim ? value.trim() : value;
+            const before = issues.length;
+            if (rules.min !== undefined && text.length < rules.min) {
+                issues.push({ path, rule: 'min', expected: rules.min, received: describeType(value), message: `must have at least ${rules.min} characters` });
+            }
+            if (rules.max !== undefined && text.length > rules.max) {
+                issues.push({ path, rule: 'max', expected: rules.max, received: describeType(value), message: `must have at most ${rules.max} characters` });
+            }
+            if (rules.pattern && !rules.pattern.test(text)) {
+                issues.push({ path, rule: 'pattern', expected: String(rules.pattern), received: describeType(value), message: `must match ${rules.pattern}` });
+            }
+            return issues.length > before ? INVALID : text;
+        });
+    },
+
+    /**
+     * @function number
+     * @description Accepts finite numbers
+     * @param {NumberRules} [rules] - Range, integers and coercion of numeric strings
+     * @returns {Schema<number>}
+     */
+    number(rules: NumberRules = {}): Schema<number> {
+        return new WrappedSchema<number>((value, path, issues) => {
+            const number = rules.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof number !== 'number' || !Number.isFinite(number)) {
+                return typeIssue(value, 'number', path, issues);
+            }
+            const before = issues.length;
+            if (rules.integer && !Number.isInteger(number)) {
+                issues.push({ path, rule: 'integer', expected: 'integer', received: describeType(value), message: 'must be an integer' });
+            }
+            if (rules.min !== undefined && number < rules.min) {
+                issues.push({ path, rule: 'min', expected: rules.min, received: describeType(value), message: `must be at least ${rules.min}` });
+            }
+            if (rules.max !== undefined && number > rules.max) {
+                issues.push({ path, rule: 'max', expected: rules.max, received: describeType(value), message: `must be at most ${rules.max}` });
+            }
+            return issues.length > before ? INVALID : number;
+        });
+    },
+
+    /**
+     * @function boolean
+     * @description Accepts booleans
+     * @param {{ coerce?: boolean }} [rules] - Whether 'true' and 'false' strings are accepted
+     * @returns {Schema<boolean>}
+     */
+    boolean(rules: { coerce?: boolean } = {}): Schema<boolean> {
+        return new WrappedSchema<boolean>((value, path, issues) => {
+            const boolean = rules.coerce && (value === 'true' || value === 'false') ? value === 'true' : value;
+            return typeof boolean === 'boolean' ? boolean : typeIssue(value, 'boolean', path, issues);
+        });
+    },
+
+    /**
+     * @function enum
+     * @description Accepts one of a fixed set of values
+     * @param {readonly V[]} values - The allowed values
+     * @returns {Schema<V>}
+     */
+    enum<const V extends string | number>(values: readonly V[]): Schema<V> {
+        return new WrappedSchema<V>((value, path, issues) => {
+            if (!values.includes(value as V)) {
+                issues.push({ path, rule: 'enum', expected: values, received: describeType(value), message: `must be one of ${values.join(', ')}` });
+                return INVALID;
+            }
+            return value as V;
+        });
+    },
+
+    /**
+     * @function array
+     * @description Accepts arrays whose items all match a schema
+     * @param {Schema<T>} item - The schema of the items
+     * @param {ArrayRules} [rules] - The number of items
+     * @returns {Schema<T[]>}
+     */
+    array<T>(item: Schema<T>, rules: ArrayRules = {}): Schema<T[]> {
+        return new WrappedSchema<T[]>((value, path, issues) => {
+            if (!Array.isArray(value)) {
+                return typeIssue(value, 'array', path, issues);
+            }
+            const before = issues.length;
+            if (rules.min !== undefined && value.length < rules.min) {
+                issues.push({ path, rule: 'min', expected: rules.min, received: describeType(value), message: `must have at least ${rules.min} items` });
+            }
+            if (rules.max !== undefined && value.length > rules.max) {
+                issues.push({ path, rule: 'max', expected: rules.max, received: describeType(value), message: `must have at most ${rules.max} items` });
+            }
+            const items = value.map((entry, index) => item.check(entry, [...path, index], issues));
+            return issues.length > before ? INVALID : items as T[];
+        });
+    },
+
+    /**
+     * @function object
+     * @description Accepts objects whose properties match a shape. Properties not in the shape are dropped.
+     * @param {Shape} shape - The schema of each property
+     * @returns {Schema<ObjectOutput<S>>}
+     */
+    object<S extends Shape>(shape: S): Schema<ObjectOutput<S>> {
+        return new WrappedSchema<ObjectOutput<S>>((value, path, issues) => {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return typeIssue(value, 'object', path, issues);
+            }
+            const before = issues.length;
+            const output: Record<string, unknown> = {};
+            for (const [key, property] of Object.entries(shape)) {
+                const received = (value as Record<string, unknown>)[key];
+                const parsed = property.check(received, [...path, key], issues);
+                if (parsed !== INVALID && parsed !== undefined) {
+                    output[key] = parsed;
+                }
+            }
+            return issues.length > before ? INVALID : output as ObjectOutput<S>;
+        });
+    },
+};
+
+/**
+ * The schemas of the parts of a request.
+ * @typedef {Object} RequestSchemas
+ * @property {Schema} [body] - The schema of the body
+ * @property {Schema} [query] - The schema of the query string
+ * @property {Schema} [params] - The schema of the route parameters
+ */
+export interface RequestSchemas {
+    body?: Schema<unknown>;
+    query?: Schema<unknown>;
+    params?: Schema<unknown>;
+}
+
+/**
+ * A request that passed `validate`, with the parsed values.
+ */
+export type ValidatedRequest<S extends RequestSchemas> = Request & {
+    validated: { [K in keyof S]: Infer<S[K]> };
+};
+
+/**
+ * @function validate
+ * @description Creates an Express middleware that validates the body, query string and route parameters of each request.
+ * The parsed values are put on `req.validated`, and the parsed body also replaces `req.body`.
+ * Invalid requests are passed on as one ValidationError covering every part, which `errorHandler` answers with 422.
+ * @param {RequestSchemas} schemas - The schema of each part to validate
+ * @returns {RequestHandler} The middleware
+ *
+ * @example
+ * const listOrders = { query: schema.object({ page: schema.number({ coerce: true, min: 1 }).default(1) }) };
+ * app.get('/orders', validate(listOrders), (req, res) => {
+ *   const { page } = (req as ValidatedRequest<typeof listOrders>).validated.query;
+ * });
+ */
+export function validate<S extends RequestSchemas>(schemas: S): RequestHandler {
+    return (req: Request, _res: Response, next: NextFunction) => {
+        const issues: ValidationIssue[] = [];
+        const validated: Record<string, unknown> = {};
+        for (const part of ['params', 'query', 'body'] as const) {
+            const partSchema = schemas[part];
+            if (partSchema) {
+                validated[part] = partSchema.check(req[part], [part], issues);
+            }
+        }
+
+        if (issues.length > 0) {
+            next(createValidationError('Request', issues));
+            return;
+        }
+        (req as ValidatedRequest<S>).validated = validated as ValidatedRequest<S>['validated'];
+        if ('body' in validated) {
+            req.body = validated['body'];
+        }
+        next();
+    };
+}
+
+/**
+ * @function typeIssue
+ * @description Adds an issue for a value of the wrong type
+ * @returns {typeof INVALID}
+ */
+function typeIssue(value: unknown, expected: string, path: (string | number)[], issues: ValidationIssue[]): typeof INVALID {
+    issues.push(value === undefined
+        ? { path, rule: 'required', expected, received: describeType(value), message: 'is required' }
+        : { path, rule: 'type', expected, received: describeType(value), message: `must be ${expected === 'array' || expected === 'object' ? 'an' : 'a'} ${expected}, received ${describeType(value)}` });
+    return INVALID;
+}
+
+/**
+ * @function describeType
+ * @description Names the type of a value for issues and their messages
+ * @returns {string}
+ */
+function describeType(value: unknown): string {
+    return value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * @function createValidationError
+ * @description Builds the ValidationError for a list of issues
+ * @param {string} label - What was validated, e.g. 'Request'
+ * @param {ValidationIssue[]} issues - The issues
+ * @returns {ValidationError}
+ */
+function createValidationError(label: string, issues: ValidationIssue[]): ValidationError {
+    const fields = [...new Set(issues.map(issue => formatPath(issue.path)))];
+    const details = issues.map(issue => `${formatPath(issue.path) || label} ${issue.message}`).join('; ');
+    return new ValidationError(`${label} is invalid: ${details}`, fields, { issues });
+}
+
+/**
+ * @function formatPath
+ * @description Renders a path as 'items[0].quantity'
+ * @returns {string}
+ */
+function formatPath(path: (string | number)[]): string {
+    return path.reduce<string>((text, segment) => typeof segment === 'number' ? `${text}[${segment}]` : text ? `${text}.${segment}` : segment, '');
+}
@@ -0,0 +1,122 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import { AUDIT_GENESIS_HASH, AuditLog, Logger, LogFileOperationError, listRotatedFiles, runWithRequestContext, verifyAuditLog } from '../src/index';
+
+describe('AuditLog', () => {
+  const testLogDir = path.join(__dirname, 'test_audit_logs');
+  const auditFile = path.join(testLogDir, 'audit.log');
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = new Logger('Security', path.join(testLogDir, 'combined.log'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await logger.close();
+    await fs.promises.rm(testLogDir, { recursive: true, force: true });
+  });
+
+  it('should write hash-chained records and mirror them to the logger', async () => {
+    const audit = new AuditLog(logger);
+    const log = jest.spyOn((logger as any).logger, 'log');
+    const first = runWithRequestContext({ requestId: 'r-1' }, () => audit.record('user.login', { userId: 'u1' }));
+    const second = audit.record('config.changed', { key: 'LOG_LEVEL' });
+    await audit.close();
+
+    expect(audit.filePath).toBe(auditFile);
+    expect(first).toMatchObject({ seq: 0, context: 'Security', prev: AUDIT_GENESIS_HASH, details: { requestId: 'r-1', userId: 'u1' } });
+    expect(second.prev).toBe(first.hash);
+    expect(log).toHaveBeenCalledWith(expect.objectContaining({ level: 'audit', message: 'user.login', auditSeq: 0 }));
+    expect(await verifyAuditLog(auditFile)).toEqual({ records: 2, files: [auditFile], complete: true, lastSeq: 1, lastHash: second.hash });
+  });
+
+  it('should continue the chain across restarts and rotations', async () => {
+    let audit = new AuditLog(logger, { rotation: { maxSize: 400, compress: true } });
+    for (let i = 0; i < 5; i++) {
+      audit.record('user.login', { userId: `u${i}` });
+    }
+    await audit.close();
+
+    audit = new AuditLog(logger, { rotation: { maxSize: 400, compress: true } });
+    expect(audit.record('user.logout', { userId: 'u0' }).seq).toBe(5);
+    await audit.close();
+
+    expect(listRotatedFiles(auditFile).some(file => file.endsWith('.gz'))).toBe(true);
+    expect(await verifyAuditLog(auditFile)).toMatchObject({ records: 6, complete: true });
+  });
+
+  it('should report the first modified or missing record as a LogFileOperationError', async () => {
+    const audit = new AuditLog(logger);
+    for (let i = 0; i < 4; i++) {
+      audit.record('access.denied', { resource: 'invoices', attempt: i });
+    }
+    await audit.close();
+    const lines = (await fs.promises.readFile(auditFile, 'utf8')).trim().split('\n');
+
+    await fs.promises.writeFile(auditFile, [lines[0], lines[1]!.replace('"attempt":1', '"attempt":9'), lines[2], lines[3]].join('\n'));
+    await expect(verifyAuditLog(auditFile)).rejects.toThrow(LogFileOperationError);
+    await expect(verifyAuditLog(auditFile)).rejects.toThrow('Audit record 1 was modified (line 2)');
+
+    await fs.promises.writeFile(auditFile, [lines[0], lines[1], lines[3]].join('\n'));
+    await expect(verifyAuditLog(auditFile)).rejects.toMatchObject({
+      message: 'Audit record 3 does not follow record 1: records are missing or reordered (line 3)',
+      filePath: auditFile,
+      operation: 'verify',
+    });
+
+    await fs.promises.writeFile(auditFile, [lines[2], lines[3]].join('\n'));
+    await expect(verifyAuditLog(auditFile)).rejects.toThrow('The oldest audit record is record 2: the records before it are missing (line 1)');
+    expect(await verifyAuditLog(auditFile, { allowPruned: true })).toMatchObject({ records: 2, complete: false });
+  });
+
+  it('should detect records removed from the end with an anchor', async () => {
+    const audit = new AuditLog(logger, { mirror: false });
+    for (let i = 0; i < 3; i++) {
+      audit.record('user.login', { userId: `u${i}` });
+    }
+    await audit.close();
+    const { lastSeq, lastHash } = await verifyAuditLog(auditFile);
+    const anchor = { seq: lastSeq!, hash: lastHash! };
+    expect(await verifyAuditLog(auditFile, { anchor })).toMatchObject({ records: 3, lastSeq: 2 });
+
+    const lines = (await fs.promises.readFile(auditFile, 'utf8')).trim().split('\n');
+    await fs.promises.writeFile(auditFile, `${lines.slice(0, 2).join('\n')}\n`);
+    expect(await verifyAuditLog(auditFile)).toMatchObject({ records: 2, complete: true });
+    await expect(verifyAuditLog(auditFile, { anchor })).rejects.toMatchObject({
+      message: 'The audit log ends before the expected record 2: records were removed from the end',
+      filePath: auditFile,
+      operation: 'verify',
+    });
+    await expect(verifyAuditLog(auditFile, { anchor: { seq: 1, hash: anchor.hash } })).rejects.toThrow('Audit record 1 does not match the expected hash (line 2)');
+  });
+
+  it('should redact and serialize details before they are written and hashed', async () => {
+    logger.setRedaction({ keys: ['password'] });
+    const audit = new AuditLog(logger, { mirror: false });
+    const record = audit.record('user.created', { userId: 'u1', password: 'hunter2', quota: 10n });
+    await audit.close();
+
+    expect(record.details).toEqual({ userId: 'u1', password: '[REDACTED]', quota: '10' });
+    expect(await fs.promises.readFile(auditFile, 'utf8')).not.toContain('hunter2');
+    expect(await verifyAuditLog(auditFile)).toMatchObject({ records: 1, complete: true });
+  });
+
+  it('should remove a record cut off by a crash and continue the chain', async () => {
+    let audit = new AuditLog(logger, { mirror: false });
+    audit.record('user.login', { userId: 'u1' });
+    const last = audit.record('user.login', { userId: 'u2' });
+    await audit.close();
+    await fs.promises.appendFile(auditFile, '{"seq":2,"timestamp":"2024-');
+
+    const onError = jest.fn();
+    audit = new AuditLog(logger, { mirror: false, onError });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('cut off'), filePath: auditFile }));
+    expect(audit.record('user.logout', { userId: 'u1' })).toMatchObject({ seq: 2, prev: last.hash });
+    await audit.close();
+    expect(await verifyAuditLog(auditFile)).toMatchObject({ records: 3, complete: true });
+
+    await fs.promises.appendFile(auditFile, 'not json\n');
+    expect(() => new AuditLog(logger)).toThrow('Audit log ends with an unreadable record (line 4)');
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  loadConfig,
+  loggerConfigSchema,
+  apiConfigSchema,
+  ConfigurationError,
+  Logger,
+  ApiService
+} from '../src/index';
+
+describe('loadConfig', () => {
+  const testDir = path.join(__dirname, 'test_config');
+  const envFile = path.join(testDir, '.env');
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    fs.writeFileSync(envFile, 'LOG_LEVEL=debug\nLOG_DIR=from-file\nFEATURE_ON=yes\nCACHE_TTL=5m\n');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should coerce values from .env files and the environment, with defaults', () => {
+    const config = loadConfig({
+      ...loggerConfigSchema,
+      ...apiConfigSchema,
+      FEATURE_ON: { type: 'boolean', default: false },
+      CACHE_TTL: { type: 'duration', required: true },
+      PORT: { type: 'number', env: 'HTTP_PORT', default: 3000 },
+      REGION: { type: 'string' },
+    }, { path: envFile, env: { LOG_DIR: path.join(testDir, 'logs'), HTTP_PORT: '8080' } });
+
+    expect(config).toEqual({
+      LOG_LEVEL: 'debug',
+      LOG_DIR: path.join(testDir, 'logs'),
+      LOG_FORMAT: 'text',
+      API_TIMEOUT_MS: 30000,
+      FEATURE_ON: true,
+      CACHE_TTL: 5 * 60 * 1000,
+      PORT: 8080,
+    });
+    expect(Object.isFrozen(config)).toBe(true);
+  });
+
+  it('should report every invalid key in one ConfigurationError', () => {
+    try {
+      loadConfig({
+        ...loggerConfigSchema,
+        ...apiConfigSchema,
+        DATABASE_URL: { type: 'string', required: true },
+      }, { path: path.join(testDir, 'missing.env'), env: { LOG_LEVEL: 'loud', API_TIMEOUT_MS: 'soon' } });
+      fail('Should have thrown an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigurationError);
+      const { issues, message } = error as ConfigurationError;
+      expect(issues?.map(issue => issue.key)).toEqual(['LOG_LEVEL', 'API_TIMEOUT_MS', 'DATABASE_URL']);
+      expect(message).toContain('LOG_LEVEL must be one of fatal, error, warn');
+      expect(message).toContain('DATABASE_URL is required');
+    }
+  });
+
+  it('should configure Logger and ApiService', async () => {
+    const config = loadConfig({ ...loggerConfigSchema, ...apiConfigSchema }, {
+      path: envFile,
+      env: { LOG_DIR: path.join(testDir, 'logs'), LOG_FORMAT: 'json', API_TIMEOUT_MS: '2s' },
+    });
+    const logger = Logger.fromConfig(config, 'Configured');
+
+    expect(logger.getLogFiles().combined).toBe(path.join(testDir, 'logs', 'combined.log'));
+    expect(logger.getLogOutput()).toEqual({ console: 'json', file: 'json' });
+    expect((logger as any).logger.level).toBe('debug');
+    expect((new ApiService(logger, config) as any).defaultTimeout).toBe(2000);
+    await logger.close();
+  });
+});
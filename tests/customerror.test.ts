@@ -0,0 +1,125 @@
+import { expect } from '@jest/globals';
+import { ApiError, CustomError, DatabaseError, NetworkError, RateLimitError, ValidationError, rootCause, wrapError } from '../src/index';
+
+class PaymentDeclinedError extends CustomError {
+  static readonly code = 'PAY_DECLINED';
+
+  constructor(message: string, public readonly reason?: string) {
+    super('PaymentDeclinedError', message);
+  }
+
+  log(logger: any): void {
+    logger.error(`Payment declined: ${this.message}`);
+  }
+}
+
+class InventoryError extends CustomError {
+  constructor(message: string, public readonly sku: string) {
+    super('InventoryError', message);
+  }
+
+  log(logger: any): void {
+    logger.error(this.message);
+  }
+}
+
+CustomError.register(PaymentDeclinedError, InventoryError);
+
+describe('Error codes and JSON', () => {
+  it('should give every error a stable code', () => {
+    expect(new RateLimitError('Too many requests').code).toBe('BEV_RATE_LIMIT');
+    expect(new ApiError(500, 'Failed').code).toBe('BEV_API');
+    expect(new PaymentDeclinedError('Card expired').code).toBe('PAY_DECLINED');
+    expect(new InventoryError('Out of stock', 'sku-1').code).toBe('INVENTORY_ERROR');
+  });
+
+  it('should convert errors to JSON with their code, fields and cause', () => {
+    const error = new RateLimitError('Too many requests', 30, { cause: new NetworkError('Upstream throttled', 'HTTP 429') });
+
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: 'RateLimitError',
+      code: 'BEV_RATE_LIMIT',
+      message: 'Too many requests',
+      retryAfter: 30,
+      cause: { name: 'NetworkError', code: 'BEV_NETWORK', message: 'Upstream throttled', detail: 'HTTP 429' },
+    });
+  });
+
+  it('should rebuild the registered subclass from JSON', () => {
+    const original = new ValidationError('Invalid input', ['email'], { cause: new PaymentDeclinedError('Card expired', 'expired') });
+
+    const rebuilt = CustomError.fromJSON(JSON.stringify(original));
+    expect(rebuilt).toBeInstanceOf(ValidationError);
+    expect(rebuilt).toMatchObject({ name: 'ValidationError', code: 'BEV_VALIDATION', message: 'Invalid input', fields: ['email'] });
+    expect(rebuilt.stack).toContain('Invalid input');
+    expect(rebuilt.cause).toBeInstanceOf(PaymentDeclinedError);
+    expect((rebuilt.cause as PaymentDeclinedError).reason).toBe('expired');
+    expect(CustomError.fromJSON(new InventoryError('Out of stock', 'sku-1').toJSON())).toBeInstanceOf(InventoryError);
+  });
+
+  it('should rebuild unknown errors as plain errors and reject conflicting registrations', () => {
+    const rebuilt = CustomError.fromJSON({ name: 'LegacyError', code: 'LEGACY', message: 'Old failure', ticket: 12 });
+    expect(rebuilt.constructor).toBe(Error);
+    expect(rebuilt).toMatchObject({ name: 'LegacyError', code: 'LEGACY', message: 'Old failure', ticket: 12 });
+
+    class OtherDeclinedError extends PaymentDeclinedError {}
+    expect(() => CustomError.register(OtherDeclinedError)).toThrow("Error code 'PAY_DECLINED' is already registered to PaymentDeclinedError");
+  });
+
+  it('should ignore fields that would replace the prototype or the stack', () => {
+    const rebuilt = CustomError.fromJSON('{"name":"ApiError","code":"BEV_API","message":"Failed","status":502,"__proto__":{"polluted":true},"constructor":{"prototype":{"polluted":true}},"prototype":1,"stack":"forged"}');
+
+    expect(Object.getPrototypeOf(rebuilt)).toBe(ApiError.prototype);
+    expect(rebuilt).toMatchObject({ status: 502 });
+    expect((rebuilt as any).polluted).toBeUndefined();
+    expect(({} as any).polluted).toBeUndefined();
+    expect(Object.keys(rebuilt)).not.toContain('constructor');
+    expect(Object.keys(rebuilt)).not.toContain('prototype');
+    expect(rebuilt.stack).not.toBe('forged');
+  });
+
+  it('should keep the deprecated detail code of NetworkError apart from its stable code', () => {
+    const error = new NetworkError('Connection failed', 'TIMEOUT');
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.detail).toBe('TIMEOUT');
+    expect(error.classCode).toBe('BEV_NETWORK');
+    expect(new NetworkError('Connection failed').code).toBe('BEV_NETWORK');
+    expect(CustomError.fromJSON(error.toJSON())).toBeInstanceOf(NetworkError);
+  });
+});
+
+describe('Error causes', () => {
+  const socketError = new Error('connect ECONNREFUSED 10.0.0.1:5432');
+
+  it('should keep the cause passed to any error', () => {
+    const error = new ApiError(502, 'Bad gateway', 'r-1', { cause: socketError });
+    expect(error.cause).toBe(socketError);
+    expect(error.status).toBe(502);
+    expect(new DatabaseError('Query failed', 'select').cause).toBeUndefined();
+  });
+
+  it('should wrap errors and find the root cause', () => {
+    const network = wrapError(socketError, NetworkError, 'Database unreachable', 'ECONNREFUSED');
+    const database = wrapError(network, DatabaseError, 'Failed to load orders', 'select');
+
+    expect(database).toBeInstanceOf(DatabaseError);
+    expect(database.operation).toBe('select');
+    expect(database.cause).toBe(network);
+    expect(rootCause(database)).toBe(socketError);
+    expect(rootCause('not an error')).toBe('not an error');
+
+    const loop = new Error('loop');
+    loop.cause = new Error('back', { cause: loop });
+    expect((rootCause(loop) as Error).message).toBe('back');
+  });
+
+  it('should log the whole chain on one line', () => {
+    const logger = { error: jest.fn() };
+    const error = new DatabaseError('Failed to load orders', 'select', { cause: new NetworkError('Database unreachable', undefined, { cause: socketError }) });
+
+    error.log(logger);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Database Error: Failed to load orders (Operation: select); caused by NetworkError: Database unreachable; caused by Error: connect ECONNREFUSED 10.0.0.1:5432'
+    );
+  });
+});
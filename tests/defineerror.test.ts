@@ -0,0 +1,66 @@
+import { expect } from '@jest/globals';
+import { CustomError, NetworkError, defineError, schema, toProblemResponse } from '../src/index';
+
+const OrderNotFoundError = defineError({
+  name: 'OrderNotFoundError',
+  code: 'SHOP_ORDER_NOT_FOUND',
+  httpStatus: 404,
+  fields: { orderId: schema.string(), storeId: schema.number().optional() },
+  message: 'Order {orderId} not found',
+});
+type OrderNotFound = InstanceType<typeof OrderNotFoundError>;
+
+const CheckoutClosedError = defineError({ name: 'CheckoutClosedError', message: 'Checkout is closed' });
+
+describe('defineError', () => {
+  it('should create a typed CustomError subclass', () => {
+    const error: OrderNotFound = new OrderNotFoundError({ orderId: 'o-7', storeId: 3 });
+
+    expect(error).toBeInstanceOf(OrderNotFoundError);
+    expect(error).toBeInstanceOf(CustomError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ name: 'OrderNotFoundError', code: 'SHOP_ORDER_NOT_FOUND', message: 'Order o-7 not found', orderId: 'o-7', storeId: 3 });
+    expect(error.stack).toContain('OrderNotFoundError: Order o-7 not found');
+    expect(OrderNotFoundError.name).toBe('OrderNotFoundError');
+    expect(new CheckoutClosedError().code).toBe('CHECKOUT_CLOSED_ERROR');
+    expect(new CheckoutClosedError()).not.toBeInstanceOf(OrderNotFoundError);
+    // @ts-expect-error orderId is required
+    expect(new OrderNotFoundError().message).toBe('Order {orderId} not found');
+  });
+
+  it('should log the message, the other fields and the causes', () => {
+    const logger = { error: jest.fn() };
+
+    new OrderNotFoundError({ orderId: 'o-7', storeId: 3 }, { cause: new NetworkError('Catalog unreachable') }).log(logger);
+    new CheckoutClosedError().log(logger);
+
+    expect(logger.error).toHaveBeenNthCalledWith(1, 'Order Not Found Error: Order o-7 not found (Store Id: 3); caused by NetworkError: Catalog unreachable');
+    expect(logger.error).toHaveBeenNthCalledWith(2, 'Checkout Closed Error: Checkout is closed');
+  });
+
+  it('should register the class for JSON and HTTP responses', () => {
+    const error = new OrderNotFoundError({ orderId: 'o-7' });
+
+    const rebuilt = CustomError.fromJSON(JSON.stringify(error));
+    expect(rebuilt).toBeInstanceOf(OrderNotFoundError);
+    expect((rebuilt as OrderNotFound).orderId).toBe('o-7');
+
+    expect(toProblemResponse(error, { production: true }).body).toEqual({
+      type: 'about:blank', title: 'Not Found', status: 404, detail: 'Order o-7 not found', code: 'SHOP_ORDER_NOT_FOUND',
+    });
+    expect(toProblemResponse(new CheckoutClosedError()).status).toBe(500);
+    expect(() => defineError({ name: 'MissingOrderError', code: 'SHOP_ORDER_NOT_FOUND', message: 'Missing' })).toThrow(
+      "Error code 'SHOP_ORDER_NOT_FOUND' is already registered to OrderNotFoundError"
+    );
+  });
+
+  it('should reject fields named like the fields of every error and copy values without validating them', () => {
+    expect(() => defineError({ name: 'BadError', fields: { code: schema.number(), cause: schema.string(), orderId: schema.string() }, message: 'Bad' })).toThrow(
+      'BadError cannot declare the reserved fields code, cause'
+    );
+    expect(() => defineError({ name: 'ShadowError', fields: { message: schema.string() }, message: 'Shadow' })).toThrow(TypeError);
+
+    const error = new OrderNotFoundError({ orderId: 42 as unknown as string });
+    expect(error.orderId).toBe(42);
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  ApiError,
+  AuthenticationError,
+  AuthorizationError,
+  DatabaseError,
+  Localizer,
+  Logger,
+  RateLimitError,
+  REDACTION_PATTERNS,
+  UnexpectedError,
+  ValidationError,
+  beverost,
+  errorHandler,
+  toProblemResponse
+} from '../src/index';
+
+describe('errorHandler', () => {
+  let server: Server;
+  let baseUrl: string;
+  let logger: ReturnType<typeof Logger.createTestLogger>;
+
+  const start = async (production: boolean) => {
+    logger = Logger.createTestLogger('Http');
+    const app = express();
+    app.use(beverost);
+    app.get('/validation', () => { throw new ValidationError('Invalid order', ['email', 'quantity']); });
+    app.get('/authentication', () => { throw new AuthenticationError('Token expired'); });
+    app.get('/authorization', () => { throw new AuthorizationError('Not allowed', 'invoices', 'delete'); });
+    app.get('/rate-limit', () => { throw new RateLimitError('Too many requests', 30); });
+    app.get('/api', () => { throw new ApiError(503, 'Upstream unavailable'); });
+    app.get('/database', () => { throw new DatabaseError('Deadlock', 'update'); });
+    app.get('/unknown', () => { throw new TypeError('Cannot read properties of undefined'); });
+    app.use(errorHandler({ logger, production, typeBaseUrl: 'https://errors.example.com/' }));
+
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('should answer with the status, headers and problem details of each error', async () => {
+    await start(false);
+
+    const validation = await fetch(`${baseUrl}/validation`, { headers: { 'X-Request-Id': 'r-1' } });
+    expect(validation.status).toBe(422);
+    expect(validation.headers.get('content-type')).toMatch(/^application\/problem\+json/);
+    expect(await validation.json()).toEqual({
+      type: 'https://errors.example.com/bev_validation',
+      title: 'Unprocessable Entity',
+      status: 422,
+      detail: 'Invalid order',
+      instance: '/validation',
+      code: 'BEV_VALIDATION',
+      requestId: 'r-1',
+      fields: ['email', 'quantity'],
+      stack: expect.stringContaining('ValidationError: Invalid order'),
+    });
+
+    const authentication = await fetch(`${baseUrl}/authentication`);
+    expect(authentication.status).toBe(401);
+    expect(authentication.headers.get('www-authenticate')).toBe('Bearer');
+
+    expect((await fetch(`${baseUrl}/authorization`)).status).toBe(403);
+
+    const rateLimit = await fetch(`${baseUrl}/rate-limit`);
+    expect(rateLimit.status).toBe(429);
+    expect(rateLimit.headers.get('retry-after')).toBe('30');
+    expect(await rateLimit.json()).toMatchObject({ retryAfter: 30, code: 'BEV_RATE_LIMIT' });
+
+    expect((await fetch(`${baseUrl}/api`)).status).toBe(503);
+    expect((await fetch(`${baseUrl}/database`)).status).toBe(500);
+  });
+
+  it('should log through each error\'s own log method', async () => {
+    await start(false);
+    await fetch(`${baseUrl}/rate-limit`, { headers: { 'X-Request-Id': 'r-2' } });
+    await fetch(`${baseUrl}/unknown`);
+
+    logger.expectLogged({ level: 'error', message: 'Rate Limit Error: Too many requests (Retry After: 30s)', meta: { requestId: 'r-2' } });
+    logger.expectLogged({ level: 'error', message: 'Cannot read properties of undefined', meta: { 'error.name': 'TypeError' } });
+  });
+
+  it('should hide stacks and unexpected messages in production', async () => {
+    await start(true);
+
+    const unknown = await fetch(`${baseUrl}/unknown`);
+    expect(unknown.status).toBe(500);
+    expect(await unknown.json()).toEqual({ type: 'about:blank', title: 'Internal Server Error', status: 500, instance: '/unknown', requestId: expect.any(String) });
+
+    expect(await (await fetch(`${baseUrl}/validation`)).json()).not.toHaveProperty('stack');
+  });
+
+  it('should apply status overrides by error code', () => {
+    const { status, body } = toProblemResponse(new DatabaseError('Timed out'), { statuses: { BEV_DATABASE: 503 }, production: true });
+    expect(status).toBe(503);
+    expect(body).toEqual({ type: 'about:blank', title: 'Service Unavailable', status: 503, code: 'BEV_DATABASE' });
+  });
+
+  it('should hide the messages of UnexpectedErrors and 5xx errors in production', () => {
+    expect(toProblemResponse(new UnexpectedError('Cannot read properties of undefined'), { production: true }).body).not.toHaveProperty('detail');
+    expect(toProblemResponse(new ApiError(502, 'Upstream 10.0.0.1 refused'), { production: true }).body).not.toHaveProperty('detail');
+    expect(toProblemResponse(new DatabaseError('Deadlock on orders'), { production: true, localizer: new Localizer() }).body.detail).toBe('The data could not be accessed');
+    expect(toProblemResponse(new AuthorizationError('Not allowed'), { production: true }).body.detail).toBe('Not allowed');
+  });
+
+  it('should redact validation issues with the logger\'s redaction', () => {
+    const redacting = Logger.createTestLogger('Http', { redact: { patterns: [REDACTION_PATTERNS.jwt] } });
+    const issue = { path: ['token'], rule: 'refine', expected: 'refine', received: 'string', message: 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.abc is expired' };
+    const { body } = toProblemResponse(new ValidationError('Invalid token', ['token'], { issues: [issue] }), { logger: redacting });
+    expect(body.issues).toEqual([{ ...issue, message: '[REDACTED] is expired' }]);
+  });
+});
@@ -0,0 +1,134 @@
+import { expect } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ApiService, DatabaseError, ErrorTracker, Logger, NetworkError, REDACTION_PATTERNS, errorHandler } from '../src/index';
+
+const failToLoad = (orderId: string) => new DatabaseError(`Failed to load order ${orderId}`, 'select');
+const failToSave = (orderId: string) => new DatabaseError(`Failed to save order ${orderId}`, 'update');
+
+describe('ErrorTracker', () => {
+  it('should group errors by class, code and stack frames rather than message', () => {
+    const tracker = new ErrorTracker();
+
+    const first = tracker.track(failToLoad('o-1'), { route: '/orders/o-1' });
+    expect(tracker.track(failToLoad('o-2'))).toBe(first);
+    const saving = tracker.track(failToSave('o-3'));
+    expect(saving).not.toBe(first);
+    tracker.track(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+    tracker.track('plain string');
+
+    const group = tracker.group(first)!;
+    expect(group).toMatchObject({ name: 'DatabaseError', code: 'BEV_DATABASE', message: 'Failed to load order o-2', count: 2 });
+    expect(group.frames[0]).toMatch(/^failToLoad \(tests[/\\]errortracker\.test\.ts\)$/);
+    expect(group.firstSeen.getTime()).toBeLessThanOrEqual(group.lastSeen.getTime());
+    expect(group.samples.map(sample => sample.error.message)).toEqual(['Failed to load order o-1', 'Failed to load order o-2']);
+    expect(group.samples[0]?.context).toEqual({ route: '/orders/o-1' });
+
+    expect(tracker.stats()).toEqual({ total: 5, groups: 4, evictedGroups: 0 });
+    expect(tracker.groups()[0]?.fingerprint).toBe(first);
+    expect(tracker.groups({ code: 'ECONNREFUSED' })).toHaveLength(1);
+    expect(tracker.groups({ name: 'UnexpectedError' })[0]?.message).toBe('plain string');
+    expect(tracker.groups({ sortBy: 'lastSeen', limit: 1 })[0]?.name).toBe('UnexpectedError');
+  });
+
+  it('should stay within its bounds', () => {
+    const tracker = new ErrorTracker({ maxGroups: 2, maxSamples: 2 });
+    const loading = tracker.track(failToLoad('o-1'));
+    tracker.track(failToLoad('o-2'));
+    tracker.track(failToLoad('o-3'));
+    tracker.track(failToSave('o-4'));
+    tracker.track(new NetworkError('Unreachable'));
+
+    expect(tracker.group(loading)).toBeUndefined();
+    expect(tracker.stats()).toEqual({ total: 5, groups: 2, evictedGroups: 1 });
+
+    const bounded = new ErrorTracker({ maxSamples: 2 });
+    const fingerprint = ['o-1', 'o-2', 'o-3'].map(id => bounded.track(failToLoad(id)))[0]!;
+    expect(bounded.group(fingerprint)!.samples.map(sample => sample.error.message)).toEqual(['Failed to load order o-2', 'Failed to load order o-3']);
+
+    bounded.group(fingerprint)!.samples.length = 0;
+    expect(bounded.group(fingerprint)!.samples).toHaveLength(2);
+    const [sample] = bounded.group(fingerprint)!.samples;
+    sample!.error.message = 'changed';
+    sample!.context = { changed: true };
+    bounded.groups()[0]!.samples[1]!.timestamp.setTime(0);
+    expect(bounded.group(fingerprint)!.samples[0]).toMatchObject({ error: { message: 'Failed to load order o-2' } });
+    expect(bounded.group(fingerprint)!.samples[0]!.context).toBeUndefined();
+    expect(bounded.group(fingerprint)!.samples[1]!.timestamp.getTime()).not.toBe(0);
+    bounded.reset();
+    expect(bounded.stats()).toEqual({ total: 0, groups: 0, evictedGroups: 0 });
+  });
+
+  it('should log periodic summaries of new errors', () => {
+    jest.useFakeTimers();
+    const logger = Logger.createTestLogger('Errors');
+    const tracker = new ErrorTracker({ logger, summaryIntervalMs: 60000, summaryLimit: 1 });
+
+    tracker.track(failToLoad('o-1'));
+    tracker.track(failToLoad('o-2'));
+    tracker.track(failToSave('o-3'));
+    jest.advanceTimersByTime(60000);
+    jest.advanceTimersByTime(60000);
+    tracker.track(failToSave('o-4'));
+    jest.advanceTimersByTime(60000);
+    tracker.stop();
+    jest.useRealTimers();
+
+    expect(logger.entries.map(entry => entry.message)).toEqual([
+      'Tracked 3 errors in 2 groups since the last summary',
+      'Tracked 1 errors in 1 groups since the last summary',
+    ]);
+    const summary = logger.expectLogged({ level: 'warn', message: 'Tracked 3 errors in 2 groups since the last summary' });
+    expect(summary.meta['errorGroups']).toEqual([expect.objectContaining({ name: 'DatabaseError', code: 'BEV_DATABASE', message: 'Failed to load order o-2', count: 2 })]);
+  });
+
+  it('should track errors from errorHandler and ApiService', async () => {
+    const tracker = new ErrorTracker();
+    const app = express();
+    app.get('/orders/:id', req => { throw failToLoad(String(req.params['id'])); });
+    app.use(errorHandler({ logger: { error: () => undefined } as unknown as Console, tracker }));
+    const server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    await fetch(`${baseUrl}/orders/o-1`);
+    await fetch(`${baseUrl}/orders/o-2`);
+    await new Promise(resolve => server.close(resolve));
+
+    const [routeErrors] = tracker.groups();
+    expect(routeErrors).toMatchObject({ name: 'DatabaseError', count: 2 });
+    expect(routeErrors?.samples[1]?.context).toEqual({ method: 'GET', url: '/orders/o-2' });
+
+    const apiService = new ApiService({ info: jest.fn(), error: jest.fn() } as unknown as Logger, 30000, tracker);
+    apiService.addEndpoint('catalog', 'Catalog', `${baseUrl}/catalog`);
+    await expect(apiService.get('catalog')).rejects.toThrow(NetworkError);
+    expect((await apiService.tryGet('missing')).ok).toBe(false);
+
+    expect(tracker.groups({ name: 'NetworkError' })[0]?.samples[0]?.context).toEqual({ endpointId: 'catalog', method: 'GET' });
+    expect(tracker.groups({ name: 'ApiError' })[0]?.samples[0]?.context).toMatchObject({ endpointId: 'missing' });
+  });
+
+  it('should count an error object once and redact its samples', () => {
+    const token = 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.abc-def';
+    const tracker = new ErrorTracker({ redact: { keys: ['password'], patterns: [REDACTION_PATTERNS.jwt] } });
+    const error = failToLoad(`o-1 with ${token}`);
+
+    const fingerprint = tracker.track(error, { endpointId: 'orders', password: 'hunter2' });
+    expect(tracker.track(error, { method: 'GET', url: '/orders/o-1' })).toBe(fingerprint);
+
+    const group = tracker.group(fingerprint)!;
+    expect(group.count).toBe(1);
+    expect(tracker.stats().total).toBe(1);
+    expect(group.message).toBe('Failed to load order o-1 with [REDACTED]');
+    expect(group.samples).toHaveLength(1);
+    expect(group.samples[0]?.error.message).toBe('Failed to load order o-1 with [REDACTED]');
+    expect(group.samples[0]?.context).toEqual({ endpointId: 'orders', password: '[REDACTED]', method: 'GET', url: '/orders/o-1' });
+    group.samples[0]!.context!['method'] = 'POST';
+    expect(tracker.group(fingerprint)!.samples[0]?.context?.['method']).toBe('GET');
+
+    const logged = new ErrorTracker({ logger: Logger.createTestLogger('Errors', { redact: { keys: ['password'] } }) });
+    expect(logged.group(logged.track(failToSave('o-2'), { password: 'hunter2' }))!.samples[0]?.context).toEqual({ password: '[REDACTED]' });
+  });
+});
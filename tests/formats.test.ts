@@ -0,0 +1,70 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import { CREATED, Logger, otelFormat, toJsonRecord } from '../src/index';
+
+describe('Structured output', () => {
+  const testLogDir = path.join(__dirname, 'test_format_logs');
+  const testLogFile = path.join(testLogDir, 'structured.log');
+  let logger: Logger;
+
+  const readRecords = async () => {
+    await logger.flush();
+    const content = await fs.promises.readFile(testLogFile, 'utf8');
+    return content.trim().split('\n').map(line => JSON.parse(line));
+  };
+
+  afterEach(async () => {
+    await logger?.close();
+    await fs.promises.rm(testLogDir, { recursive: true, force: true });
+  });
+
+  it('should map entries to stable field names', () => {
+    const error = new Error('boom');
+    const record = toJsonRecord({ level: 'error', message: 'Failed', timestamp: 'now', context: 'App', service: 'svc', error, userId: 1 });
+    expect(record).toEqual({
+      timestamp: 'now',
+      level: 'error',
+      context: 'App',
+      message: 'Failed',
+      service: 'svc',
+      error: expect.objectContaining({ name: 'Error', message: 'boom', stack: expect.any(String) }),
+      meta: { userId: 1 },
+    });
+  });
+
+  it('should write NDJSON to the files with a configurable service', async () => {
+    logger = new Logger('Orders', testLogFile, { recursive: true, output: { file: 'json' }, defaultMeta: { service: 'orders-api' } });
+    logger.info('First', { orderId: 1 });
+    logger.child({ context: 'Billing' }).warn('Second');
+
+    const records = await readRecords();
+    expect(records).toHaveLength(2);
+    expect(records[0]).toEqual({ timestamp: expect.any(String), level: 'info', context: 'Orders', message: 'First', service: 'orders-api', meta: { orderId: 1 } });
+    expect(records[1]).toMatchObject({ level: 'warn', context: 'Orders:Billing', message: 'Second' });
+  });
+
+  it('should switch to the OpenTelemetry log data model', async () => {
+    logger = new Logger('Orders', testLogFile, { recursive: true });
+    logger.setLogOutput('otel');
+    logger.error('Payment failed', { error: new TypeError('card declined'), traceId: 'abc', orderId: 2 });
+
+    const [record] = await readRecords();
+    expect(record).toMatchObject({
+      SeverityText: 'ERROR',
+      SeverityNumber: 17,
+      Body: 'Payment failed',
+      TraceId: 'abc',
+      Resource: { 'service.name': 'user-service' },
+      InstrumentationScope: { Name: 'Orders' },
+      Attributes: { orderId: 2, 'exception.type': 'TypeError', 'exception.message': 'card declined' },
+    });
+    expect(record.Timestamp).toMatch(/^\d+$/);
+  });
+
+  it('should take the OpenTelemetry timestamp from the entry rather than the clock', () => {
+    const render = (info: object) => JSON.parse((otelFormat().transform({ level: 'info', message: 'Buffered', ...info }) as any)[Symbol.for('message')]);
+    expect(render({ timestamp: '2024-01-01T00:00:00.000Z' }).Timestamp).toBe('1704067200000000000');
+    expect(render({ timestamp: 'unparsable', [CREATED]: 1704067200123 }).Timestamp).toBe('1704067200123000000');
+  });
+});
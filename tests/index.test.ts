@@ -17,9 +17,16 @@ import {
   FileNotFoundError,
   LogDirectoryNotFoundError,
   LogFileOperationError,
-  LoggerInitializationError
+  LoggerInitializationError,
+  rootCause,
+  RotatingFileTransport,
+  beverost,
+  runWithRequestContext,
+  getRequestContext,
+  setRequestContext
 } from '../src/index';
 import { transports } from 'winston';
+import TransportStream from 'winston-transport';
 import { ApiService } from '../src/api';
 
 describe('Logger', () => {
@@ -29,14 +36,13 @@ describe('Logger', () => {
 
   beforeEach(async () => {
     logger = new Logger('TestContext', testLogFile, { recursive: true });
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for file creation
+    await logger.flush();
   });
 
 afterEach(async () => {
     if (logger && (logger as any).logger) {
-        (logger as any).logger.close();
+        await logger.close();
     }
-    await new Promise(resolve => setTimeout(resolve, 50));
     if (fs.existsSync(testLogFile)) {
       await fs.promises.unlink(testLogFile);
     }
@@ -47,14 +53,14 @@ afterEach(async () => {
 
   it('should create a log file with recursive option', async () => {
     await logger.info('Test log message');
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for file write
+    await logger.flush();
     expect(fs.existsSync(testLogFile)).toBe(true);
   });
 
   it('should set log file path with recursive option', async () => {
     const newLogFile = path.join(testLogDir, 'subdir', 'new.log');
     await logger.setLogFilePath(newLogFile, { recursive: true });
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for directory creation
+    await logger.flush();
     await expect(fs.existsSync(path.dirname(newLogFile))).toBe(true);
   });
 
@@ -78,7 +84,7 @@ afterEach(async () => {
     await logger.error('Error message');
     await logger.debug('Debug message');
     await logger.verbose('Verbose message');
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for file write
+    await logger.flush();
 
     const logContent = await fs.promises.readFile(testLogFile, 'utf8');
     expect(logContent).toContain('INFO');
@@ -90,14 +96,14 @@ afterEach(async () => {
 
   it('should include context in log messages', async () => {
     await logger.info('Context test');
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for file write
+    await logger.flush();
     const logContent = await fs.promises.readFile(testLogFile, 'utf8');
     expect(logContent).toContain('[TestContext]');
   });
 
   it('should handle log without details', async () => {
     await logger.logWithoutDetails('No details log');
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for file write
+    await logger.flush();
     const logContent = await fs.promises.readFile(testLogFile, 'utf8');
     expect(logContent).toContain('No details log');
     expect(logContent).not.toContain('timestamp');
@@ -107,7 +113,7 @@ afterEach(async () => {
     logger.setLogLevel('error');
     await logger.info('This should not be logged');
     await logger.error('This should be logged');
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for file write
+    await logger.flush();
     const logContent = await fs.promises.readFile(testLogFile, 'utf8');
     expect(logContent).not.toContain('This should not be logged');
     expect(logContent).toContain('This should be logged');
@@ -124,19 +130,154 @@ afterEach(async () => {
   it('should set log format', async () => {
     logger.setLogFormat('{level}: {message}');
     await logger.info('Custom format test');
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for file write
+    await logger.flush();
     const logContent = await fs.promises.readFile(testLogFile, 'utf8');
     expect(logContent).toMatch(/INFO: Custom format test/);
   });
 
+  it('should create child loggers with nested context and bindings', async () => {
+    const child = logger.child({ context: 'Billing', tenantId: 't-42' });
+    const grandchild = child.child({ context: 'Invoices', invoiceId: 7 });
+    expect((child as any).logger).toBe((logger as any).logger);
+
+    child.info('Child entry');
+    grandchild.info('Grandchild entry', { tenantId: 't-43' });
+    await logger.flush();
+    const logContent = await fs.promises.readFile(testLogFile, 'utf8');
+    expect(logContent).toMatch(/\[TestContext:Billing\] Child entry .*"tenantId":"t-42"/);
+    expect(logContent).toMatch(/\[TestContext:Billing:Invoices\] Grandchild entry .*"tenantId":"t-43".*"invoiceId":7/);
+  });
+
+  it('should keep child settings apart and follow rebuilt transports', async () => {
+    const child = logger.child({ context: 'Secret' });
+    child.setRedaction({ keys: ['token'] });
+    logger.setLogFormat('{level}: {context|raw} {message}');
+    expect((child as any).logger).toBe((logger as any).logger);
+    expect(Object.prototype.hasOwnProperty.call(child, 'redactor')).toBe(true);
+    expect((logger as any).redactor).toBeUndefined();
+
+    child.info('Child entry', { token: 'abc' });
+    logger.info('Parent entry', { token: 'def' });
+    await logger.flush();
+    const logContent = await fs.promises.readFile(testLogFile, 'utf8');
+    expect(logContent).toMatch(/INFO: TestContext:Secret Child entry .*"token":"\[REDACTED\]"/);
+    expect(logContent).toMatch(/INFO: TestContext Parent entry .*"token":"def"/);
+  });
+
+  it('should keep the files and format on the logger the child was created from', async () => {
+    const child = logger.child({ context: 'Billing' });
+    const files = logger.getLogFiles();
+    const format = logger.getLogFormat();
+
+    expect(() => child.setLogFilePath(path.join(testLogDir, 'child.log'))).toThrow(LoggerInitializationError);
+    expect(() => child.setLogFileName('child.log')).toThrow(/setLogFileName cannot be called on a child logger/);
+    expect(() => child.setLogFormat('{message}')).toThrow(LoggerInitializationError);
+    expect(() => child.setTimestampFormat({ format: 'epoch' })).toThrow(LoggerInitializationError);
+    expect(() => child.setLogOutput('json')).toThrow(LoggerInitializationError);
+
+    expect(logger.getLogFiles()).toEqual(files);
+    expect(logger.getLogFormat()).toBe(format);
+    child.info('Child entry after rejected changes');
+    await logger.flush();
+    expect(await fs.promises.readFile(files.combined, 'utf8')).toMatch(/\[TestContext:Billing\] Child entry after rejected changes/);
+    expect(fs.existsSync(path.join(testLogDir, 'child.log'))).toBe(false);
+  });
+
+  it('should share the log level with child loggers', async () => {
+    const child = logger.child({ context: 'Quiet' });
+    logger.setLogLevel('error');
+    child.info('Child info should not be logged');
+    await logger.flush();
+    const logContent = await fs.promises.readFile(testLogFile, 'utf8');
+    expect(logContent).not.toContain('Child info should not be logged');
+  });
+
   it('should set log file name', async () => {
     const newFileName = 'new_log_file.log';
     logger.setLogFileName(newFileName);
     await logger.info('New file name test');
-    await new Promise(resolve => setTimeout(resolve, 100)); // Wait for file write
+    await logger.flush();
     const newFilePath = path.join(path.dirname(testLogFile), newFileName);
     expect(fs.existsSync(newFilePath)).toBe(true);
   });
+
+  it('should write every entry to disk before flush resolves', async () => {
+    for (let i = 0; i < 200; i++) {
+      logger.info(`Flushed entry ${i}`);
+    }
+    await logger.flush();
+    const logContent = await fs.promises.readFile(testLogFile, 'utf8');
+    expect(logContent.trim().split('\n')).toHaveLength(200);
+  });
+
+  it('should give up on a stalled transport after the flush timeout', async () => {
+    const stalled = new Logger('Stalled', path.join(testLogDir, 'stalled.log'), { flushTimeoutMs: 50 });
+    // A transport that never acknowledges an entry, like one whose connection hangs
+    const transport = new TransportStream({ log: () => undefined });
+    stalled.addTransport(transport);
+    stalled.info('Never acknowledged');
+    stalled.info('Queued behind it');
+
+    await expect(stalled.flush()).rejects.toThrow(LogFileOperationError);
+    await expect(stalled.flush()).rejects.toThrow('Log transports did not flush within 50ms');
+    stalled.removeTransport(transport);
+    await stalled.close();
+  });
+
+  it('should flush and close the files on close', async () => {
+    const rotated = new Logger('Rotated', path.join(testLogDir, 'rotated.log'), { rotation: { maxSize: '1m' } });
+    rotated.error('Before close');
+    logger.child({ context: 'Child' }).info('Before close');
+    await Promise.all([logger.close(), rotated.close()]);
+
+    expect(logger['logger'].transports).toHaveLength(0);
+    expect(await fs.promises.readFile(testLogFile, 'utf8')).toMatch(/\[TestContext:Child\] Before close/);
+    expect(await fs.promises.readFile(path.join(testLogDir, 'rotated.log'), 'utf8')).toMatch(/Before close/);
+    expect(await fs.promises.readFile(path.join(testLogDir, 'error.log'), 'utf8')).toMatch(/\[Rotated\] Before close/);
+  });
+
+  it('should close the previous files when the log file path changes', async () => {
+    const previous = logger['logger'];
+    const previousFiles = previous.transports.filter((transport: any) => transport instanceof RotatingFileTransport);
+    logger.info('First file');
+    logger.setLogFilePath(path.join(testLogDir, 'second.log'));
+    logger.info('Second file');
+    await logger.flush();
+
+    expect(previous.transports).toHaveLength(0);
+    expect(previousFiles).toHaveLength(2);
+    expect(previousFiles.every((transport: any) => transport.stream.closed)).toBe(true);
+    expect(await fs.promises.readFile(testLogFile, 'utf8')).toMatch(/First file/);
+    expect(await fs.promises.readFile(path.join(testLogDir, 'second.log'), 'utf8')).toMatch(/Second file/);
+  });
+
+  it('should only flush loggers that have not been closed', async () => {
+    const closed = new Logger('Closed', path.join(testLogDir, 'closed.log'));
+    await closed.close();
+    const closedFlush = jest.spyOn(closed, 'flush');
+    const liveFlush = jest.spyOn(logger, 'flush');
+
+    await Logger.flushAll();
+    expect(closedFlush).not.toHaveBeenCalled();
+    expect(liveFlush).toHaveBeenCalled();
+  });
+
+  it('should flush live loggers on SIGTERM when the exit hook is installed', async () => {
+    const uninstall = Logger.flushOnExit();
+    expect(Logger.flushOnExit()).toBe(uninstall);
+    const flush = jest.spyOn(logger, 'flush');
+    const keepAlive = jest.fn();
+    process.on('SIGTERM', keepAlive);
+    try {
+      process.emit('SIGTERM', 'SIGTERM');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(flush).toHaveBeenCalled();
+      expect(process.listeners('SIGTERM')).toEqual([keepAlive]);
+    } finally {
+      process.off('SIGTERM', keepAlive);
+      uninstall();
+    }
+  });
 });
 
 describe('CustomError', () => {
@@ -367,6 +508,37 @@ describe('ApiService', () => {
     expect(mockLogger.error).toHaveBeenCalledWith('Network error while fetching Test Endpoint', { endpointName: 'Test Endpoint' });
   });
 
+  it('should throw ParseError on an invalid JSON body and clear the timeout', async () => {
+    apiService.addEndpoint('test', 'Test Endpoint', 'https://api.example.com/test');
+    const syntaxError = new SyntaxError('Unexpected token < in JSON at position 0');
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockRejectedValueOnce(syntaxError),
+    });
+    const clearTimeoutSpy = jest.spyOn(global, 'clearTimeout');
+
+    const error = await apiService.fetch('test').catch(caught => caught);
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error).toMatchObject({ message: 'Invalid JSON response from Test Endpoint', source: 'https://api.example.com/test' });
+    expect(error.cause).toBe(syntaxError);
+    expect(mockLogger.error).toHaveBeenCalledWith('Invalid JSON response from Test Endpoint', { endpointName: 'Test Endpoint' });
+    expect(clearTimeoutSpy).toHaveBeenCalled();
+    clearTimeoutSpy.mockRestore();
+  });
+
+  it('should keep the underlying fetch error as the cause of a NetworkError', async () => {
+    apiService.addEndpoint('test', 'Test Endpoint', 'https://api.example.com/test');
+    const socketError = Object.assign(new Error('connect ECONNREFUSED 10.0.0.1:443'), { code: 'ECONNREFUSED' });
+    const fetchError = new TypeError('fetch failed', { cause: socketError });
+    (global.fetch as jest.Mock).mockRejectedValueOnce(fetchError);
+
+    const error = await apiService.fetch('test').catch(caught => caught);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.cause).toBe(fetchError);
+    expect(error.detail).toBe('connect ECONNREFUSED 10.0.0.1:443');
+    expect(rootCause(error)).toBe(socketError);
+  });
+
   it('should perform GET request', async () => {
     apiService.addEndpoint('test', 'Test Endpoint', 'https://api.example.com/test');
     const mockResponse = { data: 'test' };
@@ -428,4 +600,87 @@ describe('ApiService', () => {
     expect(result).toEqual(mockResponse);
     expect(global.fetch).toHaveBeenCalledWith('https://api.example.com/test', expect.objectContaining({ method: 'DELETE' }));
   });
-});
\ No newline at end of file
+
+  it('should return failures of the Result variants without throwing', async () => {
+    apiService.addEndpoint('test', 'Test Endpoint', 'https://api.example.com/test');
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValueOnce({ id: 1 }) })
+      .mockResolvedValueOnce({ ok: false, status: 409, statusText: 'Conflict' })
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    const created = await apiService.tryPost<{ id: number }>('test', { name: 'tea' });
+    expect(created.ok && created.value).toEqual({ id: 1 });
+
+    const conflict = await apiService.tryPut('test', { name: 'tea' });
+    expect(conflict.ok).toBe(false);
+    expect(!conflict.ok && conflict.error).toBeInstanceOf(ApiError);
+    expect(!conflict.ok && (conflict.error as ApiError).status).toBe(409);
+
+    const unreachable = await apiService.tryDelete('test');
+    expect(unreachable.match({ ok: () => 'deleted', err: error => error.name })).toBe('NetworkError');
+    expect((await apiService.tryGet('missing')).isErr()).toBe(true);
+  });
+});
+
+describe('Request context', () => {
+  const testLogDir = path.join(__dirname, 'test_context_logs');
+  let logger: Logger;
+  let logSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logger = new Logger('ContextTest', path.join(testLogDir, 'context.log'), { recursive: true });
+    logSpy = jest.spyOn((logger as any).logger, 'log');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await logger.close();
+    await fs.promises.rm(testLogDir, { recursive: true, force: true });
+  });
+
+  it('should merge the request context into log entries', () => {
+    runWithRequestContext({ requestId: 'req-1' }, () => {
+      setRequestContext({ userId: 'u-1' });
+      logger.info('Inside request', { extra: true });
+    });
+    logger.info('Outside request');
+
+    expect(logSpy).toHaveBeenNthCalledWith(1, expect.objectContaining({ requestId: 'req-1', userId: 'u-1', extra: true }));
+    expect(logSpy.mock.calls[1][0]).not.toHaveProperty('requestId');
+    expect(getRequestContext()).toBeUndefined();
+    expect(setRequestContext({ userId: 'u-2' })).toBe(false);
+  });
+
+  it('should keep the request context across awaits', async () => {
+    await runWithRequestContext({ requestId: 'req-2' }, async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      logger.warn('After await');
+    });
+    expect(logSpy).toHaveBeenCalledWith(expect.objectContaining({ level: 'warn', requestId: 'req-2' }));
+  });
+
+  it('should fill the request context in the beverost middleware', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const req: any = { method: 'GET', url: '/orders', get: (name: string) => (name === 'X-Request-Id' ? 'incoming-id' : undefined) };
+    const res: any = { setHeader: jest.fn() };
+
+    beverost(req, res, () => logger.info('Handling order'));
+
+    expect(req.requestId).toBe('incoming-id');
+    expect(res.setHeader).toHaveBeenCalledWith('X-Request-Id', 'incoming-id');
+    expect(logSpy).toHaveBeenCalledWith(expect.objectContaining({ requestId: 'incoming-id', method: 'GET', url: '/orders' }));
+  });
+
+  it('should leave the query string out and replace malformed request IDs in the beverost middleware', () => {
+    const consoleLog = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const req: any = { method: 'GET', url: '/callback?code=secret&state=x', get: () => 'bad id\r\nX-Injected: 1' };
+    const res: any = { setHeader: jest.fn() };
+
+    beverost(req, res, () => logger.info('Handling callback'));
+
+    expect(req.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(res.setHeader).toHaveBeenCalledWith('X-Request-Id', req.requestId);
+    expect(logSpy).toHaveBeenCalledWith(expect.objectContaining({ requestId: req.requestId, url: '/callback' }));
+    expect(consoleLog.mock.calls[0]?.[0]).not.toContain('secret');
+  });
+});
@@ -0,0 +1,72 @@
+import { expect } from '@jest/globals';
+import { LevelOverrides, Logger, LoggerInitializationError, MemoryTransport, loadConfig, loggerConfigSchema } from '../src/index';
+
+describe('Level overrides', () => {
+  const levels = ['fatal', 'error', 'warn', 'info', 'debug', 'trace'];
+
+  it('should select contexts by pattern, level and exclusion', () => {
+    const overrides = new LevelOverrides('Api*, Billing=trace,-Api:Health', levels);
+
+    expect(overrides.levelFor('ApiClient')).toBe('debug');
+    expect(overrides.levelFor('App:Billing')).toBe('trace');
+    expect(overrides.levelFor('Api:Health')).toBeUndefined();
+    expect(overrides.levelFor('Orders')).toBeUndefined();
+    expect(overrides.levelFor(undefined)).toBeUndefined();
+    expect(overrides.levels()).toEqual(['debug', 'trace']);
+  });
+
+  it('should reject empty patterns and unknown levels', () => {
+    expect(() => new LevelOverrides('Api=loud', levels)).toThrow(LoggerInitializationError);
+    expect(() => new LevelOverrides('Api=loud', levels)).toThrow("Invalid log level override 'Api=loud': unknown level 'loud'");
+    expect(() => new LevelOverrides('-=debug', levels)).toThrow('the pattern is empty');
+  });
+
+  it('should log selected contexts, including child contexts, below the minimum level', () => {
+    const memory = new MemoryTransport();
+    const logger = new Logger('App', undefined, { memory, levelOverrides: 'Billing,-App:Billing:Audit' });
+    const billing = logger.child({ context: 'Billing' });
+
+    logger.debug('hidden');
+    billing.debug('shown');
+    billing.trace('too verbose');
+    billing.child({ context: 'Audit' }).debug('excluded');
+    logger.info('always');
+
+    expect(memory.entries.map(entry => `${entry.context} ${entry.message}`)).toEqual(['App:Billing shown', 'App always']);
+    expect(billing.getLogLevel()).toBe('debug');
+    expect(logger.getLogLevel()).toBe('info');
+  });
+
+  it('should change the overrides at runtime for every logger sharing them', () => {
+    const logger = Logger.createTestLogger('App', { levelOverrides: undefined });
+    logger.setLogLevel('warn');
+    const orders = logger.child({ context: 'Orders' });
+
+    orders.info('before');
+    logger.setLevelOverrides('Orders=info');
+    expect(logger.getLevelOverrides()).toBe('Orders=info');
+    expect(orders.isLevelEnabled('info')).toBe(true);
+    orders.info('during');
+    logger.info('not selected');
+    logger.setLevelOverrides();
+    orders.info('after');
+
+    expect(logger.entries.map(entry => entry.message)).toEqual(['during']);
+    expect(() => logger.setLevelOverrides('Orders=loud')).toThrow(LoggerInitializationError);
+  });
+
+  it('should take the overrides from LOG_DEBUG through the configuration only', () => {
+    process.env['LOG_DEBUG'] = 'Worker*';
+    try {
+      const memory = new MemoryTransport();
+      new Logger('WorkerPool', undefined, { memory }).debug('ignored');
+      expect(memory.entries).toHaveLength(0);
+
+      const configured = new MemoryTransport();
+      Logger.fromConfig(loadConfig(loggerConfigSchema, { path: [] }), 'WorkerPool', { memory: configured }).debug('picked up');
+      expect(configured.entries.map(entry => entry.message)).toEqual(['picked up']);
+    } finally {
+      delete process.env['LOG_DEBUG'];
+    }
+  });
+});
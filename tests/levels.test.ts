@@ -0,0 +1,88 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ApiService, AuditLog, DEFAULT_LEVELS, Logger, LoggerInitializationError } from '../src/index';
+
+describe('Log levels', () => {
+  const testLogDir = path.join(__dirname, 'test_levels_logs');
+  const testLogFile = path.join(testLogDir, 'levels.log');
+  let logger: Logger;
+
+  afterEach(async () => {
+    await logger.close();
+    await fs.promises.rm(testLogDir, { recursive: true, force: true });
+  });
+
+  it('should provide trace, fatal, http and audit by default, ordered by priority', async () => {
+    logger = new Logger('Levels', testLogFile, { recursive: true });
+    expect(logger.getLevels()).toEqual(Object.keys(DEFAULT_LEVELS));
+
+    logger.setLogLevel('trace');
+    logger.trace('Tracing');
+    logger.http('GET /orders');
+    logger.audit('Role changed', { userId: 'u1' });
+    await logger.fatal('Out of memory');
+
+    const logContent = await fs.promises.readFile(testLogFile, 'utf8');
+    expect(logContent).toMatch(/\[TRACE\].*Tracing/);
+    expect(logContent).toMatch(/\[HTTP\].*GET \/orders/);
+    expect(logContent).toMatch(/\[AUDIT\].*Role changed/);
+    expect(await fs.promises.readFile(path.join(testLogDir, 'error.log'), 'utf8')).toMatch(/\[FATAL\].*Out of memory/);
+  });
+
+  it('should write audit entries whatever the log level', async () => {
+    logger = new Logger('Levels', testLogFile, { recursive: true });
+    logger.setLogLevel('warn');
+    expect(logger.isLevelEnabled('audit')).toBe(true);
+
+    logger.audit('Role changed', { userId: 'u1' });
+    logger.info('Below the level');
+    const audit = new AuditLog(logger, { filePath: path.join(testLogDir, 'audit.log') });
+    audit.record('user.login', { userId: 'u2' });
+    await audit.close();
+    await logger.flush();
+
+    const logContent = await fs.promises.readFile(testLogFile, 'utf8');
+    expect(logContent).toMatch(/\[AUDIT\].*Role changed/);
+    expect(logContent).toMatch(/\[AUDIT\].*user\.login/);
+    expect(logContent).not.toContain('Below the level');
+  });
+
+  it('should reject unknown levels instead of silently logging nothing', () => {
+    logger = new Logger('Levels', testLogFile, { recursive: true });
+    expect(() => logger.setLogLevel('warning' as any)).toThrow(LoggerInitializationError);
+    expect(() => logger.log('Typo', { level: 'eror' as any })).toThrow(/Unknown log level 'eror'/);
+  });
+
+  it('should add typed custom levels with generated methods and colors', async () => {
+    const custom = Logger.withLevels({ notice: { priority: 3.5, color: 'cyan' } }, 'Levels', testLogFile, { recursive: true });
+    logger = custom;
+    custom.setLogLevel('notice');
+    custom.notice('Configuration reloaded');
+    custom.child({ context: 'Child' }).notice('From child');
+    custom.info('Below the level');
+    new ApiService(custom);
+    await custom.flush();
+
+    const logContent = await fs.promises.readFile(testLogFile, 'utf8');
+    expect(logContent).toMatch(/\[NOTICE\].*\[Levels\] Configuration reloaded/);
+    expect(logContent).toMatch(/\[Levels:Child\] From child/);
+    expect(logContent).not.toContain('Below the level');
+
+    expect(() => Logger.withLevels({ flush: { priority: 3 } })).toThrow(LoggerInitializationError);
+    expect(() => Logger.withLevels({ 'not a name': { priority: 3 } })).toThrow(LoggerInitializationError);
+    expect(() => Logger.withLevels({ notice: { priority: NaN } })).toThrow(LoggerInitializationError);
+  });
+
+  it('should exit after flushing a fatal entry when exitOnFatal is set', async () => {
+    logger = new Logger('Levels', testLogFile, { recursive: true, exitOnFatal: 3 });
+    const exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    try {
+      await logger.fatal('Unrecoverable');
+      expect(exit).toHaveBeenCalledWith(3);
+      expect(await fs.promises.readFile(testLogFile, 'utf8')).toMatch(/Unrecoverable/);
+    } finally {
+      exit.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { expect } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ApiError, CustomError, DEFAULT_MESSAGES, Localizer, RateLimitError, defineError, errorHandler, schema, toProblemResponse } from '../src/index';
+
+const StockExhaustedError = defineError({
+  name: 'StockExhaustedError',
+  httpStatus: 409,
+  fields: { sku: schema.string() },
+  message: 'No stock left for {sku}',
+  messageKey: 'shop.stockExhausted',
+});
+
+const KeylessError = defineError({ name: 'KeylessError', message: 'Nothing to translate' });
+
+const catalogs = {
+  en: { 'shop.stockExhausted': 'Sorry, {sku} is sold out', 'shop.rateLimited': 'Please wait {seconds} seconds' },
+  de: { 'shop.stockExhausted': '{sku} ist leider ausverkauft', 'shop.rateLimited': 'Bitte warten Sie {seconds} Sekunden' },
+  'de-CH': { 'shop.rateLimited': 'Bitte warten Sie {seconds} Sekunden, merci' },
+};
+
+describe('Localizer', () => {
+  const localizer = new Localizer({ catalogs });
+
+  it('should follow the fallback chain of a locale', () => {
+    expect(localizer.fallbackChain('de-CH')).toEqual(['de-CH', 'de', 'en']);
+    expect(localizer.fallbackChain('en-GB')).toEqual(['en-GB', 'en']);
+    expect(localizer.translate('shop.rateLimited', { seconds: 30 }, 'de-CH')).toEqual({ text: 'Bitte warten Sie 30 Sekunden, merci', locale: 'de-CH' });
+    expect(localizer.translate('shop.stockExhausted', { sku: 'tea' }, 'de-CH')).toEqual({ text: 'tea ist leider ausverkauft', locale: 'de' });
+    expect(localizer.translate('shop.stockExhausted', { sku: 'tea' }, 'fr')).toEqual({ text: 'Sorry, tea is sold out', locale: 'en' });
+    expect(localizer.translate('shop.unknown')).toBeUndefined();
+  });
+
+  it('should negotiate the locale from Accept-Language', () => {
+    expect(localizer.negotiate('fr-FR, de-AT;q=0.8, en;q=0.5')).toBe('de-AT');
+    expect(localizer.negotiate('en;q=0.4, de-CH')).toBe('de-CH');
+    expect(localizer.negotiate('fr, ja;q=0.9')).toBe('en');
+    expect(localizer.negotiate(undefined)).toBe('en');
+  });
+
+  it('should accept catalogs added later and catalog functions', () => {
+    const later = new Localizer({ defaultLocale: 'de' });
+    later.addCatalog('de', { 'shop.stockExhausted': 'Ausverkauft: {sku}' });
+    later.addCatalog('fr', key => (key === 'shop.stockExhausted' ? 'Épuisé : {sku}' : undefined));
+
+    expect(later.translate('shop.stockExhausted', { sku: 'tea' }, 'fr-CA')?.text).toBe('Épuisé : tea');
+    expect(later.translate('shop.stockExhausted', { sku: 'tea' }, 'it')?.text).toBe('Ausverkauft: tea');
+  });
+
+  it('should keep messages and logs in the operator language', () => {
+    const error = new StockExhaustedError({ sku: 'tea' });
+    const limited = new RateLimitError('Rate limit hit by client c-9', 30, { messageKey: 'shop.rateLimited', messageParams: { seconds: 30 } });
+    const logger = { error: jest.fn() };
+
+    error.log(logger);
+    expect(logger.error).toHaveBeenCalledWith('Stock Exhausted Error: No stock left for tea');
+    expect(error).toMatchObject({ message: 'No stock left for tea', messageKey: 'shop.stockExhausted', messageParams: { sku: 'tea' } });
+    expect(localizer.localize(limited, 'de')?.text).toBe('Bitte warten Sie 30 Sekunden');
+    expect(localizer.localize(new Error('plain'), 'de')).toBeUndefined();
+
+    const rebuilt = CustomError.fromJSON(JSON.stringify(limited));
+    expect(localizer.localize(rebuilt, 'de-CH')?.text).toBe('Bitte warten Sie 30 Sekunden, merci');
+  });
+});
+
+describe('errorHandler with a localizer', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.get('/stock', () => { throw new StockExhaustedError({ sku: 'tea' }); });
+    app.get('/plain', () => { throw new RateLimitError('Rate limit hit by client c-9', 5); });
+    app.use(errorHandler({ logger: { error: () => undefined } as unknown as Console, localizer: new Localizer({ catalogs }) }));
+
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should answer in the language the client asked for', async () => {
+    const german = await fetch(`${baseUrl}/stock`, { headers: { 'Accept-Language': 'de-CH,de;q=0.9' } });
+    expect(german.status).toBe(409);
+    expect(german.headers.get('content-language')).toBe('de');
+    expect(german.headers.get('vary')).toContain('Accept-Language');
+    expect(await german.json()).toMatchObject({ detail: 'tea ist leider ausverkauft', code: 'STOCK_EXHAUSTED_ERROR' });
+
+    const english = await fetch(`${baseUrl}/stock`);
+    expect(await english.json()).toMatchObject({ detail: 'Sorry, tea is sold out' });
+
+    const plain = await fetch(`${baseUrl}/plain`, { headers: { 'Accept-Language': 'de' } });
+    expect(plain.headers.get('content-language')).toBe('en');
+    expect(await plain.json()).toMatchObject({ detail: 'Too many requests. Please try again later.' });
+  });
+
+  it('should translate built-in errors by their default keys and keep the message of errors without a key', () => {
+    const localizer = new Localizer({ catalogs: { de: { 'beverost.rateLimit': 'Bitte warten Sie {retryAfter} Sekunden' } } });
+
+    expect(localizer.localize(new RateLimitError('Rate limit hit by client c-9', 30), 'de')).toEqual({ text: 'Bitte warten Sie 30 Sekunden', locale: 'de' });
+    expect(localizer.localize(new ApiError(503, 'Upstream unavailable'))?.text).toBe('The request failed with status 503');
+    expect(localizer.translate('beverost.unexpected')?.text).toBe(DEFAULT_MESSAGES['beverost.unexpected']);
+    const { headers, body } = toProblemResponse(new KeylessError(), { localizer });
+    expect(headers['Content-Language']).toBeUndefined();
+    expect(body.detail).toBe('Nothing to translate');
+  });
+
+  it('should leave the detail alone without a localizer', () => {
+    expect(toProblemResponse(new StockExhaustedError({ sku: 'tea' })).body.detail).toBe('No stock left for tea');
+  });
+});
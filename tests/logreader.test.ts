@@ -0,0 +1,97 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Logger, LogReader, RotatingFileTransport } from '../src/index';
+
+describe('LogReader', () => {
+  const testLogDir = path.join(__dirname, 'test_reader_logs');
+  const testLogFile = path.join(testLogDir, 'reader.log');
+  let logger: Logger;
+
+  afterEach(async () => {
+    await logger.close();
+    await fs.promises.rm(testLogDir, { recursive: true, force: true });
+  });
+
+  it('should parse the text template back into records and filter them', async () => {
+    logger = new Logger('Orders', testLogFile, { recursive: true });
+    logger.info('Order placed', { orderId: 1, user: { id: 'u1' } });
+    logger.child({ context: 'Billing' }).warn('Card expiring', { orderId: 2 });
+    logger.error('Payment failed', { orderId: 3 });
+    await logger.flush();
+
+    const reader = new LogReader(logger);
+    const all = await reader.query();
+    expect(all.map(record => record.level)).toEqual(['info', 'warn', 'error']);
+    expect(all[0]).toMatchObject({ context: 'Orders', message: 'Order placed', service: 'user-service', meta: { orderId: 1 } });
+    expect(all[0]!.time).toBeInstanceOf(Date);
+
+    expect(await reader.query({ level: ['warn', 'error'], context: /Billing$/ })).toHaveLength(1);
+    expect(await reader.query({ meta: { 'user.id': 'u1' } })).toHaveLength(1);
+    expect(await reader.query({ from: new Date(Date.now() + 60000) })).toHaveLength(0);
+    expect(await reader.query({}, { file: 'error' })).toEqual([expect.objectContaining({ message: 'Payment failed' })]);
+  });
+
+  it('should read custom templates and JSON output', async () => {
+    logger = new Logger('Api', testLogFile, { recursive: true });
+    logger.setLogFormat('{timestamp} {level}{context}: {message}');
+    logger.info('Custom template');
+    await logger.flush();
+    expect(await new LogReader(logger).query()).toEqual([expect.objectContaining({ level: 'info', context: 'Api', message: 'Custom template' })]);
+
+    await logger.close();
+    logger = new Logger('Api', path.join(testLogDir, 'json.log'), { output: { file: 'json' } });
+    logger.warn('Structured', { attempt: 2 });
+    await logger.flush();
+    expect(await new LogReader(logger).query({ meta: { attempt: 2 } })).toEqual([expect.objectContaining({ level: 'warn', message: 'Structured' })]);
+  });
+
+  it('should keep characters split across two reads intact', async () => {
+    logger = new Logger('Tail', testLogFile, { recursive: true });
+    const rawFile = path.join(testLogDir, 'raw.log');
+    const line = Buffer.from(`${JSON.stringify({ level: 'info', message: 'Crème brûlée 🍮' })}\n`);
+    const split = line.indexOf(Buffer.from('🍮')) + 2;
+    await fs.promises.writeFile(rawFile, line.subarray(0, split));
+
+    const controller = new AbortController();
+    const received: string[] = [];
+    const tailing = (async () => {
+      for await (const record of new LogReader({ filePath: rawFile, output: 'json' }).tail({}, { signal: controller.signal, pollIntervalMs: 10, fromStart: true })) {
+        received.push(record.message);
+        controller.abort();
+      }
+    })();
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await fs.promises.appendFile(rawFile, line.subarray(split));
+    await tailing;
+    expect(received).toEqual(['Crème brûlée 🍮']);
+  });
+
+  it('should follow new entries across rotations', async () => {
+    logger = new Logger('Tail', testLogFile, { recursive: true, rotation: { maxSize: 300 } });
+    logger.info('Before tail');
+    await logger.flush();
+
+    const controller = new AbortController();
+    const received: string[] = [];
+    const tailing = (async () => {
+      for await (const record of new LogReader(logger).tail({ level: 'info' }, { signal: controller.signal, pollIntervalMs: 20 })) {
+        received.push(record.message);
+        if (received.length === 8) controller.abort();
+      }
+    })();
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    for (let i = 0; i < 8; i++) {
+      logger.info(`Tailed entry ${i}`);
+      logger.debug('Filtered by level');
+      await new Promise(resolve => setTimeout(resolve, 30));
+    }
+    await tailing;
+
+    const rotated = (logger as any).logger.transports.find((t: any) => t instanceof RotatingFileTransport);
+    await rotated.settle();
+    expect(received).toEqual(Array.from({ length: 8 }, (_, i) => `Tailed entry ${i}`));
+  });
+});
@@ -0,0 +1,124 @@
+import { expect } from '@jest/globals';
+import { ErrorTracker, Logger, ProcessHandlers, RateLimitError, installProcessHandlers } from '../src/index';
+
+describe('installProcessHandlers', () => {
+  let logger: ReturnType<typeof Logger.createTestLogger>;
+  let handlers: ProcessHandlers | undefined;
+  let exit: jest.SpyInstance;
+
+  const listenerAdded = (event: 'uncaughtException' | 'unhandledRejection', before: unknown[]) =>
+    process.listeners(event).find(listener => !before.includes(listener)) as (...args: unknown[]) => void;
+
+  const install = (options: Partial<Parameters<typeof installProcessHandlers>[0]> = {}) => {
+    const before = { exception: process.listeners('uncaughtException'), rejection: process.listeners('unhandledRejection') };
+    handlers = installProcessHandlers({ logger, ...options });
+    return {
+      uncaughtException: listenerAdded('uncaughtException', before.exception),
+      unhandledRejection: listenerAdded('unhandledRejection', before.rejection),
+    };
+  };
+
+  const exited = () => new Promise<void>(resolve => exit.mockImplementation(() => resolve()));
+
+  beforeEach(() => {
+    logger = Logger.createTestLogger('Process');
+    exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+  });
+
+  afterEach(() => {
+    handlers?.uninstall();
+    handlers = undefined;
+    jest.restoreAllMocks();
+  });
+
+  it('should log an uncaught exception, run the cleanup hooks in order, flush and exit with code 1', async () => {
+    const tracker = new ErrorTracker();
+    const { uncaughtException } = install({ tracker });
+    const steps: string[] = [];
+    const flushAll = jest.spyOn(Logger, 'flushAll');
+    handlers!.addCleanupHook('server', async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      steps.push('server');
+    });
+    handlers!.addCleanupHook('queue', () => { throw new Error('queue already closed'); });
+    handlers!.addCleanupHook('database', () => { steps.push('database'); });
+
+    const done = exited();
+    uncaughtException(new TypeError("Cannot read properties of undefined (reading 'id')"));
+    uncaughtException(new Error('second crash while shutting down'));
+    await done;
+
+    expect(steps).toEqual(['server', 'database']);
+    expect(flushAll).toHaveBeenCalled();
+    expect(exit).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(1);
+    logger.expectLogged({ level: 'error', message: "Cannot read properties of undefined (reading 'id')", meta: { origin: 'uncaughtException', 'error.name': 'TypeError' } });
+    logger.expectLogged({ level: 'error', message: 'second crash while shutting down' });
+    logger.expectLogged({ level: 'error', message: 'Shutting down after an uncaught exception', times: 1 });
+    logger.expectLogged({ level: 'error', message: "Cleanup hook 'queue' failed", meta: { 'error.message': 'queue already closed' } });
+    logger.expectLogged({ level: 'info', message: 'Exiting with code 1' });
+    expect(tracker.stats().total).toBe(2);
+  });
+
+  it('should log unhandled rejections through CustomError.log and keep running when asked to', () => {
+    const { unhandledRejection } = install({ exitOnUncaught: false });
+
+    unhandledRejection(new RateLimitError('Too many requests', 30));
+    unhandledRejection('connection lost');
+
+    logger.expectLogged({ level: 'error', message: 'Rate Limit Error: Too many requests (Retry After: 30s)' });
+    logger.expectLogged({ level: 'error', message: 'Unexpected Error: connection lost' });
+    logger.expectNotLogged({ message: /Shutting down/ });
+    expect(exit).not.toHaveBeenCalled();
+  });
+
+  it('should exit with code 1 after a crash during a graceful shutdown', async () => {
+    const { unhandledRejection } = install();
+    handlers!.addCleanupHook('queue', async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      unhandledRejection(new Error('queue drain failed'));
+    });
+
+    const done = exited();
+    void handlers!.shutdown(0);
+    await done;
+
+    expect(exit).toHaveBeenCalledTimes(1);
+    expect(exit).toHaveBeenCalledWith(1);
+    logger.expectLogged({ level: 'error', message: 'queue drain failed' });
+    logger.expectLogged({ level: 'info', message: 'Exiting with code 1' });
+    logger.expectNotLogged({ message: /Shutting down/ });
+  });
+
+  it('should exit when the cleanup hooks take longer than the timeout', async () => {
+    install({ shutdownTimeoutMs: 20 });
+    handlers!.addCleanupHook('stuck', () => new Promise(() => undefined));
+
+    const done = exited();
+    void handlers!.shutdown(0);
+    await done;
+
+    expect(exit).toHaveBeenCalledWith(0);
+    logger.expectLogged({ level: 'error', message: 'Shutdown timed out after 20ms, exiting' });
+  });
+
+  it('should send process warnings to logger.warn and install only once', () => {
+    install();
+    expect(installProcessHandlers({ logger })).toBe(handlers);
+    logger.expectNotLogged({ message: /already installed/ });
+    expect(installProcessHandlers({ logger: Logger.createTestLogger() })).toBe(handlers);
+    logger.expectLogged({ level: 'warn', message: 'Process handlers are already installed, ignoring the new options', times: 1 });
+
+    const warning = Object.assign(new Error('Possible EventEmitter memory leak detected. 11 listeners added'), { name: 'MaxListenersExceededWarning' });
+    process.emit('warning', warning);
+
+    logger.expectLogged({
+      level: 'warn',
+      message: 'Possible EventEmitter memory leak detected. 11 listeners added',
+      meta: { warning: 'MaxListenersExceededWarning' },
+    });
+
+    handlers!.uninstall();
+    expect(installProcessHandlers({ logger })).not.toBe(handlers);
+  });
+});
@@ -0,0 +1,79 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Logger, createRedactor, SENSITIVE_KEYS, REDACTION_PATTERNS } from '../src/index';
+
+describe('Redaction', () => {
+  it('should mask keys anywhere, case-insensitively', () => {
+    const redact = createRedactor({ keys: [...SENSITIVE_KEYS] });
+    const input = { user: { name: 'ann', Password: 'hunter2' }, headers: [{ Authorization: 'Basic abc' }] };
+    expect(redact(input)).toEqual({ user: { name: 'ann', Password: '[REDACTED]' }, headers: [{ Authorization: '[REDACTED]' }] });
+    expect(input.user.Password).toBe('hunter2');
+  });
+
+  it('should match dotted and wildcard paths and remove matches when asked', () => {
+    const redact = createRedactor({ paths: ['card.number', 'items.*.secret', 'tokens.*'], remove: true });
+    expect(redact({
+      card: { number: '4111', brand: 'visa' },
+      items: [{ id: 1, secret: 'a' }, { id: 2, secret: 'b' }],
+      tokens: ['x', 'y'],
+      number: 'kept',
+    })).toEqual({
+      card: { brand: 'visa' },
+      items: [{ id: 1 }, { id: 2 }],
+      tokens: [],
+      number: 'kept',
+    });
+  });
+
+  it('should mask value patterns and survive circular references', () => {
+    const redact = createRedactor({ patterns: [REDACTION_PATTERNS.cardNumber, REDACTION_PATTERNS.jwt], censor: '***' });
+    const input: any = { note: 'card 4111 1111 1111 1111 used', token: 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.abc-def' };
+    input.self = input;
+    const output = redact(input);
+    expect(output.note).toBe('card *** used');
+    expect(output.token).toBe('***');
+    expect(output.self).toBe(output);
+  });
+
+  it('should redact class instances, Maps and Headers', () => {
+    class Credentials {
+      constructor(public user: string, public password: string) {}
+    }
+    const redact = createRedactor({ keys: ['password', 'authorization', 'apiKey'], patterns: [REDACTION_PATTERNS.jwt] });
+    const error = Object.assign(new Error('Rejected eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.abc'), { apiKey: 'k-1' });
+    const output = redact({
+      credentials: new Credentials('ann', 'hunter2'),
+      error,
+      settings: new Map<string, unknown>([['apiKey', 'k-2'], ['region', 'eu']]),
+      headers: new Headers({ Authorization: 'Basic abc', Accept: 'text/plain' }),
+      at: new Date(0),
+    });
+
+    expect(output.credentials).toBeInstanceOf(Credentials);
+    expect(output.credentials).toEqual({ user: 'ann', password: '[REDACTED]' });
+    expect(output.error).toBeInstanceOf(Error);
+    expect(output.error.message).toBe('Rejected [REDACTED]');
+    expect((output.error as any).apiKey).toBe('[REDACTED]');
+    expect([...output.settings]).toEqual([['apiKey', '[REDACTED]'], ['region', 'eu']]);
+    expect(output.headers.get('authorization')).toBe('[REDACTED]');
+    expect(output.headers.get('accept')).toBe('text/plain');
+    expect(output.at).toEqual(new Date(0));
+    expect(error.apiKey).toBe('k-1');
+  });
+
+  it('should redact entries before they reach any transport', async () => {
+    const testLogDir = path.join(__dirname, 'test_redaction_logs');
+    const logger = new Logger('Redaction', path.join(testLogDir, 'redaction.log'), {
+      recursive: true,
+      redact: { keys: ['password'], patterns: [REDACTION_PATTERNS.bearerToken] },
+    });
+    const logSpy = jest.spyOn((logger as any).logger, 'log');
+
+    logger.child({ context: 'Auth', password: 'bound' }).warn('Login with Bearer abc.def', { password: 'secret' });
+
+    expect(logSpy).toHaveBeenCalledWith(expect.objectContaining({ message: 'Login with [REDACTED]', password: '[REDACTED]' }));
+    await logger.close();
+    fs.rmSync(testLogDir, { recursive: true, force: true });
+  });
+});
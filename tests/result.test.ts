@@ -0,0 +1,96 @@
+import { expect } from '@jest/globals';
+import {
+  CustomError,
+  Err,
+  FileNotFoundError,
+  NetworkError,
+  Ok,
+  ParseError,
+  RateLimitError,
+  Result,
+  UnexpectedError,
+  ValidationError,
+  attempt,
+  attemptAsync,
+  err,
+  normalizeError,
+  ok
+} from '../src/index';
+
+const parseQuantity = (text: string): Result<number, ValidationError> => {
+  const quantity = Number(text);
+  return Number.isInteger(quantity) && quantity > 0 ? ok(quantity) : err(new ValidationError(`Invalid quantity: ${text}`, ['quantity']));
+};
+
+describe('Result', () => {
+  it('should map, chain and unwrap successes', () => {
+    const result = parseQuantity('3').map(quantity => quantity * 2).flatMap(total => (total > 10 ? err(new RateLimitError('Too many')) : ok(total)));
+
+    expect(result).toBeInstanceOf(Ok);
+    expect(result.isOk()).toBe(true);
+    expect(result.unwrap()).toBe(6);
+    expect(result.unwrapOr(0)).toBe(6);
+    expect(result.match({ ok: total => `total ${total}`, err: error => error.code })).toBe('total 6');
+  });
+
+  it('should carry failures through map and flatMap', () => {
+    const mapper = jest.fn((quantity: number) => quantity * 2);
+    const result = parseQuantity('abc').map(mapper).flatMap(total => ok(total + 1));
+
+    expect(result).toBeInstanceOf(Err);
+    expect(mapper).not.toHaveBeenCalled();
+    expect(result.isErr()).toBe(true);
+    expect(!result.ok && result.error.fields).toEqual(['quantity']);
+    expect(result.unwrapOr(1)).toBe(1);
+    expect(() => result.unwrap()).toThrow('Invalid quantity: abc');
+    expect(result.mapErr(error => new RateLimitError(error.message)).match({ ok: String, err: error => error.code })).toBe('BEV_RATE_LIMIT');
+  });
+});
+
+describe('attempt', () => {
+  it('should return values and normalize thrown errors', () => {
+    expect(attempt(() => JSON.parse('{"a":1}')).unwrap()).toEqual({ a: 1 });
+
+    const invalid = attempt(() => JSON.parse('{'));
+    expect(!invalid.ok && invalid.error).toBeInstanceOf(ParseError);
+    expect(!invalid.ok && invalid.error.cause).toBeInstanceOf(SyntaxError);
+
+    const typed = attempt(() => { throw new Error('boom'); }, thrown => new RateLimitError(String(thrown)));
+    expect(!typed.ok && typed.error.retryAfter).toBeUndefined();
+  });
+
+  it('should normalize rejections of async functions', async () => {
+    const missing = await attemptAsync(() => import('fs').then(fs => fs.promises.readFile('/nonexistent/orders.json')));
+    expect(!missing.ok && missing.error).toBeInstanceOf(FileNotFoundError);
+    expect(!missing.ok && (missing.error as FileNotFoundError).path).toBe('/nonexistent/orders.json');
+
+    const rejected = await attemptAsync(() => Promise.reject('plain string'));
+    expect(!rejected.ok && rejected.error).toBeInstanceOf(UnexpectedError);
+    expect(!rejected.ok && rejected.error.message).toBe('plain string');
+  });
+});
+
+describe('normalizeError', () => {
+  it('should pick a suitable CustomError and keep the thrown value as the cause', () => {
+    const existing = new RateLimitError('Too many requests');
+    expect(normalizeError(existing)).toBe(existing);
+
+    const aborted = normalizeError(new DOMException('This operation was aborted', 'AbortError'));
+    expect(aborted).toBeInstanceOf(NetworkError);
+    expect(aborted.message).toBe('Operation was aborted');
+    expect(normalizeError(new DOMException('The operation timed out', 'TimeoutError')).message).toBe('Operation timed out');
+
+    const socketError = Object.assign(new Error('getaddrinfo ENOTFOUND api.example.com'), { code: 'ENOTFOUND' });
+    const fetchFailed = normalizeError(new TypeError('fetch failed', { cause: socketError }));
+    expect(fetchFailed).toBeInstanceOf(NetworkError);
+    expect((fetchFailed as NetworkError).detail).toBe('getaddrinfo ENOTFOUND api.example.com');
+
+    const bug = new TypeError("Cannot read properties of undefined (reading 'id')");
+    const unexpected = normalizeError(bug);
+    expect(unexpected).toBeInstanceOf(UnexpectedError);
+    expect(unexpected).toBeInstanceOf(CustomError);
+    expect(unexpected.code).toBe('BEV_UNEXPECTED');
+    expect(unexpected.cause).toBe(bug);
+    expect(normalizeError(42).message).toBe('Non-error value thrown: 42');
+  });
+});
@@ -0,0 +1,68 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  Logger,
+  listRotatedFiles,
+  parseSize,
+  parseAge,
+  LoggerInitializationError
+} from '../src/index';
+
+describe('Log rotation', () => {
+  const testLogDir = path.join(__dirname, 'test_rotation_logs');
+  const testLogFile = path.join(testLogDir, 'app.log');
+
+  afterEach(async () => {
+    await fs.promises.rm(testLogDir, { recursive: true, force: true });
+  });
+
+  it('should parse sizes and ages', () => {
+    expect(parseSize(512)).toBe(512);
+    expect(parseSize('10k')).toBe(10 * 1024);
+    expect(parseSize('1.5m')).toBe(1.5 * 1024 * 1024);
+    expect(parseAge('2h')).toBe(2 * 60 * 60 * 1000);
+    expect(parseAge('14d')).toBe(14 * 24 * 60 * 60 * 1000);
+    expect(() => parseSize('lots')).toThrow(LoggerInitializationError);
+    expect(() => parseAge('-1d')).toThrow(LoggerInitializationError);
+  });
+
+  it('should rotate by size and keep at most maxFiles rotated files', async () => {
+    const logger = new Logger('Rotation', testLogFile, { recursive: true, rotation: { maxSize: 200, maxFiles: 2 } });
+    for (let i = 0; i < 20; i++) {
+      logger.info(`Rotation entry number ${i}`);
+    }
+    await logger.close();
+
+    const rotated = listRotatedFiles(testLogFile);
+    expect(rotated).toHaveLength(2);
+    expect(fs.statSync(testLogFile).size).toBeLessThanOrEqual(200);
+    expect(fs.readFileSync(testLogFile, 'utf8')).toContain('Rotation entry number 19');
+  });
+
+  it('should gzip rotated files when compress is set', async () => {
+    const logger = new Logger('Rotation', testLogFile, { recursive: true, rotation: { maxSize: '1k', compress: true } });
+    for (let i = 0; i < 30; i++) {
+      logger.info(`Compressed entry number ${i}`);
+    }
+    await logger.close();
+
+    const rotated = listRotatedFiles(testLogFile);
+    expect(rotated.length).toBeGreaterThan(0);
+    expect(rotated.every(file => file.endsWith('.gz'))).toBe(true);
+  });
+
+  it('should rotate a file left over from a previous interval', async () => {
+    fs.mkdirSync(testLogDir, { recursive: true });
+    fs.writeFileSync(testLogFile, 'old entry\n');
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    fs.utimesSync(testLogFile, yesterday, yesterday);
+
+    const logger = new Logger('Rotation', testLogFile, { rotation: { interval: 'daily' } });
+    logger.info('Fresh entry');
+    await logger.close();
+
+    expect(listRotatedFiles(testLogFile)).toHaveLength(1);
+    expect(fs.readFileSync(testLogFile, 'utf8')).not.toContain('old entry');
+  });
+});
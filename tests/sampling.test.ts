@@ -0,0 +1,66 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Logger, LogSampler } from '../src/index';
+
+describe('LogSampler', () => {
+  let onSummary: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onSummary = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should sample levels by rate and never drop errors by default', () => {
+    const values = [0.05, 0.5, 0.95];
+    const sampler = new LogSampler({ '*': { sampleRate: 0.1 } }, onSummary, () => values.shift() ?? 1);
+    expect(sampler.accept('debug', 'App', 'a')).toBe(true);
+    expect(sampler.accept('debug', 'App', 'b')).toBe(false);
+    expect(sampler.accept('info', 'App', 'c')).toBe(false);
+    expect(sampler.accept('error', 'App', 'd')).toBe(true);
+  });
+
+  it('should collapse identical messages within the window', () => {
+    const sampler = new LogSampler({ error: { dedupeWindowMs: 1000 } }, onSummary);
+    const accepted = Array.from({ length: 533 }, () => sampler.accept('error', 'Api', 'Connection refused'));
+    expect(accepted.filter(Boolean)).toHaveLength(1);
+    expect(sampler.accept('error', 'Other', 'Connection refused')).toBe(true);
+
+    jest.advanceTimersByTime(1000);
+    expect(onSummary).toHaveBeenCalledWith('error', 'Connection refused (message repeated 532 times)', { context: 'Api', repeated: 532 });
+    expect(onSummary).toHaveBeenCalledTimes(1);
+    expect(sampler.accept('error', 'Api', 'Connection refused')).toBe(true);
+  });
+
+  it('should cap entries per second per context and report the suppressed count', () => {
+    const sampler = new LogSampler({ warn: { maxPerSecond: 2 } }, onSummary);
+    const accepted = Array.from({ length: 5 }, (_, i) => sampler.accept('warn', 'Billing', `entry ${i}`));
+    expect(accepted).toEqual([true, true, false, false, false]);
+    expect(sampler.accept('warn', 'Orders', 'entry')).toBe(true);
+
+    sampler.flush();
+    expect(onSummary).toHaveBeenCalledWith('warn', 'Suppressed 3 warn entries exceeding 2 per second', { context: 'Billing', suppressed: 3 });
+    expect(sampler.accept('warn', 'Billing', 'entry 5')).toBe(true);
+  });
+
+  it('should write summaries through the logger', async () => {
+    const testLogDir = path.join(__dirname, 'test_sampling_logs');
+    const logger = new Logger('Sampling', path.join(testLogDir, 'sampling.log'), { recursive: true, sampling: { '*': { dedupeWindowMs: 500 } } });
+    const logSpy = jest.spyOn((logger as any).logger, 'log');
+
+    logger.warn('Disk almost full');
+    logger.warn('Disk almost full');
+    logger.warn('Disk almost full');
+    jest.advanceTimersByTime(500);
+
+    expect(logSpy).toHaveBeenCalledTimes(2);
+    expect(logSpy).toHaveBeenLastCalledWith(expect.objectContaining({ level: 'warn', message: 'Disk almost full (message repeated 2 times)', context: 'Sampling', repeated: 2 }));
+    jest.useRealTimers();
+    await logger.close();
+    fs.rmSync(testLogDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from '@jest/globals';
+import { ApiError, Logger, RateLimitError, ValidationError, serializeError, serializeValue, toJsonRecord } from '../src/index';
+
+describe('Error serialization', () => {
+  it('should keep the name, message, stack and subclass fields of errors', () => {
+    expect(serializeError(new ApiError(503, 'Unavailable', 'r-1'))).toEqual({
+      name: 'ApiError',
+      message: 'Unavailable',
+      code: 'BEV_API',
+      stack: expect.stringContaining('ApiError: Unavailable'),
+      status: 503,
+      requestId: 'r-1',
+    });
+    expect(serializeError(new RateLimitError('Slow down', 30), { stack: false })).toEqual({ name: 'RateLimitError', message: 'Slow down', code: 'BEV_RATE_LIMIT', retryAfter: 30 });
+  });
+
+  it('should follow cause chains and aggregated errors', () => {
+    const cause = new ValidationError('Bad input', ['email']);
+    const error = new AggregateError([new Error('first', { cause }), 'not an error'], 'Batch failed');
+
+    expect(serializeError(error, { stack: false })).toEqual({
+      name: 'AggregateError',
+      message: 'Batch failed',
+      errors: [
+        { name: 'Error', message: 'first', cause: { name: 'ValidationError', message: 'Bad input', code: 'BEV_VALIDATION', fields: ['email'] } },
+        'not an error',
+      ],
+    });
+  });
+
+  it('should cap the depth and replace circular references', () => {
+    const node: Record<string, unknown> = { name: 'root' };
+    node['self'] = node;
+    const shared = { id: 1 };
+    const deep = new Error('deep', { cause: new Error('deeper', { cause: new Error('deepest') }) });
+
+    expect(serializeValue({ node, a: shared, b: shared }, { maxDepth: 1 })).toEqual({ node: { name: 'root', self: '[Circular]' }, a: { id: 1 }, b: { id: 1 } });
+    expect(serializeValue({ list: [[1]], error: deep }, { maxDepth: 2, stack: false })).toEqual({
+      list: [[1]],
+      error: { name: 'Error', message: 'deep', cause: { name: 'Error', message: 'deeper', cause: '[Error: deepest]' } },
+    });
+    expect(serializeValue({ list: [[1]] }, { maxDepth: 1 })).toEqual({ list: ['[Array]'] });
+  });
+
+  it('should serialize errors anywhere in the metadata of an entry', () => {
+    const logger = Logger.createTestLogger('Payments');
+    const error = new ApiError(502, 'Bad gateway');
+
+    logger.warn('Retrying', { attempts: [{ error }] });
+    logger.error(error, { orderId: 7 });
+
+    expect(logger.entries[0]!.meta['attempts']).toEqual([{ error: expect.objectContaining({ name: 'ApiError', message: 'Bad gateway', status: 502, stack: expect.any(String) }) }]);
+    logger.expectLogged({ level: 'error', message: 'Bad gateway', meta: { orderId: 7, 'error.name': 'ApiError', 'error.status': 502 } });
+  });
+
+  it('should serialize errors in JSON records written without Logger', () => {
+    const record = toJsonRecord({ level: 'error', message: 'Failed', error: new Error('boom', { cause: new RangeError('out of range') }) });
+    expect(JSON.parse(JSON.stringify(record)).error).toMatchObject({ name: 'Error', message: 'boom', cause: { name: 'RangeError', message: 'out of range' } });
+  });
+});
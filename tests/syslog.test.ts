@@ -0,0 +1,178 @@
+import { expect } from '@jest/globals';
+import * as net from 'net';
+import * as dgram from 'dgram';
+import { Logger, LoggerInitializationError, MemoryTransport, NetworkError, SyslogTransport } from '../src/index';
+
+describe('SyslogTransport', () => {
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 400 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  const startTcpServer = async (port = 0) => {
+    const received: string[] = [];
+    const sockets = new Set<net.Socket>();
+    const server = net.createServer(socket => {
+      sockets.add(socket);
+      socket.on('data', chunk => received.push(chunk.toString()));
+      socket.on('close', () => sockets.delete(socket));
+    });
+    await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+    const stop = async () => {
+      sockets.forEach(socket => socket.destroy());
+      await new Promise(resolve => server.close(resolve));
+    };
+    return { port: (server.address() as net.AddressInfo).port, received, stop };
+  };
+
+  const splitFrames = (data: string) => {
+    const frames: string[] = [];
+    while (data) {
+      const space = data.indexOf(' ');
+      const length = Number(data.slice(0, space));
+      frames.push(data.slice(space + 1, space + 1 + length));
+      data = data.slice(space + 1 + length);
+    }
+    return frames;
+  };
+
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = new Logger('Shipping', undefined, { memory: new MemoryTransport() });
+  });
+
+  afterEach(async () => {
+    await logger.close();
+  });
+
+  it('should send RFC 5424 messages over TCP with octet-counting framing', async () => {
+    const server = await startTcpServer();
+    const syslog = new SyslogTransport({ host: '127.0.0.1', port: server.port, protocol: 'tcp', facility: 'local0', hostname: 'web 1' });
+    logger.addTransport(syslog);
+
+    logger.error('Payment failed');
+    logger.info('Line one\nline two');
+    await waitFor(() => splitFrames(server.received.join('')).length === 2);
+    logger.removeTransport(syslog);
+    await syslog.close();
+    await server.stop();
+
+    const [error, info] = splitFrames(server.received.join(''));
+    expect(error).toMatch(new RegExp(`^<131>1 \\d{4}-\\d{2}-\\d{2}T[\\d:.]+Z web_1 user-service ${process.pid} Shipping - .*Payment failed`));
+    expect(info).toMatch(/^<134>1 .* - .*Line one\nline two/);
+  });
+
+  it('should queue entries while disconnected, drop the oldest and reconnect with backoff', async () => {
+    const probe = await startTcpServer();
+    await probe.stop();
+
+    const warnings: string[] = [];
+    const syslog = new SyslogTransport({ host: '127.0.0.1', port: probe.port, protocol: 'tcp', syntax: 'plain', maxQueueSize: 3, reconnect: { initialDelayMs: 10, maxDelayMs: 20 } });
+    syslog.on('warn', (warning: NetworkError) => warnings.push(warning.message));
+    logger.addTransport(syslog);
+    await waitFor(() => warnings.length > 0);
+
+    ['one', 'two', 'three'].forEach(message => logger.info(message));
+    await waitFor(() => warnings.length > 1);
+    expect(warnings).toEqual([
+      expect.stringMatching(new RegExp(`^Syslog TCP connection to 127.0.0.1:${probe.port} failed: .*ECONNREFUSED`)),
+      `Syslog queue is full (3 entries): dropping the oldest entries until 127.0.0.1:${probe.port} is reachable`,
+    ]);
+    const memory = (logger as any).memoryTransport as MemoryTransport;
+    expect(memory.find({ level: 'warn' }).map(entry => entry.message)).toEqual(warnings);
+
+    const server = await startTcpServer(probe.port);
+    await waitFor(() => server.received.join('').split('\n').length > 4);
+    await syslog.close();
+    await server.stop();
+
+    const lines = server.received.join('').trim().split('\n').map(line => line.replace(/^.*\] /, ''));
+    expect(lines).toEqual([
+      'two {"service":"user-service"}',
+      'three {"service":"user-service"}',
+      expect.stringMatching(/^Syslog queue is full/),
+      expect.stringMatching(/^Dropped 2 log entries while 127.0.0.1:\d+ was unreachable/),
+    ]);
+  });
+
+  it('should queue entries while the TCP socket is full and send them once it drains', async () => {
+    const server = await startTcpServer();
+    const warnings: string[] = [];
+    const syslog = new SyslogTransport({ host: '127.0.0.1', port: server.port, protocol: 'tcp', syntax: 'plain', maxQueueSize: 2 });
+    syslog.on('warn', (warning: NetworkError) => warnings.push(warning.message));
+    const send = (message: string) => syslog.log({ level: 'info', message, [Symbol.for('message')]: message }, () => undefined);
+    await waitFor(() => (syslog as any).connected);
+
+    // The collector does not keep up: the socket's buffer is full after the first entry
+    const socket = (syslog as any).socket as net.Socket;
+    const write = socket.write.bind(socket);
+    const spy = jest.spyOn(socket, 'write').mockImplementationOnce(((chunk: string) => {
+      write(chunk);
+      return false;
+    }) as any);
+    ['one', 'two', 'three', 'four'].forEach(send);
+    expect(spy).toHaveBeenCalledTimes(1);
+    await waitFor(() => warnings.length > 0);
+    expect(warnings).toEqual([`Syslog queue is full (2 entries): dropping the oldest entries until 127.0.0.1:${server.port} catches up`]);
+
+    socket.emit('drain');
+    await waitFor(() => server.received.join('').split('\n').length > 3);
+    await waitFor(() => warnings.length > 1);
+    await syslog.close();
+    await server.stop();
+
+    expect(server.received.join('').trim().split('\n')).toEqual(['one', 'three', 'four']);
+    expect(warnings[1]).toBe(`Dropped 1 log entry while 127.0.0.1:${server.port} did not keep up`);
+  });
+
+  it('should send one plain message per UDP datagram', async () => {
+    const server = dgram.createSocket('udp4');
+    const received: string[] = [];
+    server.on('message', message => received.push(message.toString()));
+    await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+
+    const syslog = new SyslogTransport({ host: '127.0.0.1', port: server.address().port, syntax: 'plain' });
+    logger.addTransport(syslog);
+    logger.warn('Disk almost full');
+    logger.info('Disk cleaned up');
+    await waitFor(() => received.length === 2);
+    await syslog.close();
+    await new Promise<void>(resolve => server.close(resolve));
+
+    expect(received).toEqual([expect.stringContaining('Disk almost full'), expect.stringContaining('Disk cleaned up')]);
+  });
+
+  it('should retry a UDP socket that cannot connect with backoff', async () => {
+    const server = dgram.createSocket('udp4');
+    const received: string[] = [];
+    server.on('message', message => received.push(message.toString()));
+    await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+
+    const connect = jest.spyOn(dgram.Socket.prototype, 'connect').mockImplementationOnce(function (this: dgram.Socket, _port: number, _host?: string, callback?: (error?: Error) => void) {
+      process.nextTick(() => callback?.(Object.assign(new Error('getaddrinfo ENOTFOUND collector'), { code: 'ENOTFOUND' })));
+    } as any);
+    const warnings: NetworkError[] = [];
+    const syslog = new SyslogTransport({ host: '127.0.0.1', port: server.address().port, syntax: 'plain', reconnect: { initialDelayMs: 10 } });
+    syslog.on('warn', (warning: NetworkError) => warnings.push(warning));
+    logger.addTransport(syslog);
+    logger.info('Queued while resolving');
+
+    await waitFor(() => received.length === 2);
+    const attempts = connect.mock.calls.length;
+    connect.mockRestore();
+    await syslog.close();
+    await new Promise<void>(resolve => server.close(resolve));
+
+    expect(attempts).toBe(2);
+    expect(warnings.map(warning => warning.message)).toEqual([expect.stringMatching(/^Syslog UDP connection to 127\.0\.0\.1:\d+ failed: getaddrinfo ENOTFOUND/)]);
+    expect(received).toEqual([expect.stringContaining('Queued while resolving'), expect.stringContaining('getaddrinfo ENOTFOUND')]);
+  });
+
+  it('should validate its options', () => {
+    expect(() => new SyslogTransport({ port: 70000 })).toThrow(LoggerInitializationError);
+    expect(() => new SyslogTransport({ facility: 'local9' as any })).toThrow('Unknown syslog facility: local9');
+    expect(() => new SyslogTransport({ maxQueueSize: 0 })).toThrow('Invalid syslog queue size: 0');
+  });
+});
@@ -0,0 +1,90 @@
+import { expect } from '@jest/globals';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ELAPSED, Logger, LoggerInitializationError, LogReader, compileLogTemplate, formatTimestamp } from '../src/index';
+
+describe('Log format templates', () => {
+  const testLogDir = path.join(__dirname, 'test_template_logs');
+  const testLogFile = path.join(testLogDir, 'template.log');
+
+  afterAll(async () => {
+    await fs.promises.rm(testLogDir, { recursive: true, force: true });
+  });
+
+  const entry = { level: 'warn', message: 'Disk low', timestamp: '2024-01-02 03:04:05', context: 'Storage', service: 'user-service', requestId: 'r-1', [ELAPSED]: 12 };
+
+  it('should render repeated tokens, modifiers and metadata paths', () => {
+    const template = compileLogTemplate('{level|lower|pad:6}|{level|raw|capitalize} {message|truncate:4} req={meta.requestId} +{elapsed}ms');
+    expect(template.render(entry)).toBe('warn  |Warn Disk req=r-1 +12ms {"service":"user-service"}');
+    expect(compileLogTemplate('{pid}').render({ level: 'info', message: '' })).toBe(String(process.pid));
+    expect(compileLogTemplate('{{{level}}} {context|raw}').render({ level: 'info', message: '', context: 'Api' })).toBe('{INFO} Api');
+  });
+
+  it('should drop conditional sections whose tokens have no value', () => {
+    const template = compileLogTemplate('[{level}]{? ({meta.requestId})?} {message}');
+    expect(template.render({ level: 'info', message: 'With', requestId: 'r-2' })).toBe('[INFO] (r-2) With');
+    expect(template.render({ level: 'info', message: 'Without' })).toBe('[INFO] Without');
+  });
+
+  it('should not repeat the fields printed by service and meta tokens in the trailing metadata', () => {
+    const template = compileLogTemplate('{service} {message}{? user={meta.user.id}?}{? ({meta.requestId} {meta.missing})?}');
+    const info = { level: 'info', message: 'Paid', service: 'billing', user: { id: 'u1', plan: 'pro' }, requestId: 'r-3', orderId: 7 };
+    expect(template.render(info)).toBe('billing Paid user=u1 {"user":{"plan":"pro"},"requestId":"r-3","orderId":7}');
+    expect(compileLogTemplate('{message} {meta.user.id}').render({ level: 'info', message: 'Only', user: { id: 'u2' } })).toBe('Only u2');
+  });
+
+  it('should reject invalid templates with LoggerInitializationError', async () => {
+    const logger = new Logger('Template', testLogFile, { recursive: true });
+    for (const template of ['{lvl}', '{level|shout}', '{message|pad}', '{level', 'a } b', '{? {message}', '{? {? {message} ?} ?}']) {
+      expect(() => logger.setLogFormat(template)).toThrow(LoggerInitializationError);
+    }
+    expect(logger.getLogFormat()).toBe('[{level}] - [{timestamp}]{context} {message}');
+    expect(() => logger.setTimestampFormat({ format: 'nothing' })).toThrow(LoggerInitializationError);
+    await logger.close();
+  });
+
+  it('should format timestamps as patterns, ISO 8601 and epoch milliseconds', () => {
+    const date = new Date(Date.UTC(2024, 0, 2, 3, 4, 5, 6));
+    expect(formatTimestamp(date, { format: 'YYYY-MM-DDTHH:mm:ss.SSSZ', utc: true })).toBe('2024-01-02T03:04:05.006Z');
+    expect(formatTimestamp(date, { format: 'iso' })).toBe('2024-01-02T03:04:05.006Z');
+    expect(formatTimestamp(date, { format: 'epoch' })).toBe(String(date.getTime()));
+    expect(formatTimestamp(date, { format: 'HH:mmZ' })).toMatch(/^\d{2}:\d{2}[+-]\d{2}:\d{2}$/);
+  });
+
+  describe('with LogReader', () => {
+    let logger: Logger;
+
+    afterEach(async () => {
+      await logger.close();
+      await fs.promises.rm(testLogDir, { recursive: true, force: true });
+    });
+
+    it('should read back entries written with a custom template and timestamp', async () => {
+      logger = new Logger(undefined, testLogFile, { recursive: true, timestamp: { format: 'iso' } });
+      logger.setLogFormat('{timestamp} {level|pad:7} {pid}{? [{context|raw}]?} {message} ({level|lower})');
+      logger.child({ context: 'Api' }).info('Started', { port: 3000 });
+      logger.warn('Unscoped');
+      await logger.flush();
+
+      const records = await new LogReader(logger).query();
+      expect(records).toEqual([
+        expect.objectContaining({ level: 'info', context: 'Api', message: 'Started', meta: { port: 3000 } }),
+        expect.objectContaining({ level: 'warn', message: 'Unscoped' }),
+      ]);
+      expect(records[0]!.time).toBeInstanceOf(Date);
+    });
+
+    it('should read back the fields printed by service and meta tokens', async () => {
+      logger = new Logger('Api', testLogFile, { recursive: true });
+      logger.setLogFormat('{level} {service} {message}{? req={meta.requestId}?}{? user={meta.user.id|truncate:2}?}');
+      logger.info('Handled', { requestId: 'r-4', user: { id: 'u-42' }, status: 200 });
+      logger.info('Background');
+      await logger.flush();
+
+      expect(await new LogReader(logger).query()).toEqual([
+        expect.objectContaining({ message: 'Handled', service: 'user-service', meta: { requestId: 'r-4', status: 200 } }),
+        expect.objectContaining({ message: 'Background', service: 'user-service', meta: {} }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { expect } from '@jest/globals';
+import { ApiError, ApiService, Logger, MemoryTransport } from '../src/index';
+
+describe('Test logger', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should capture structured entries in memory without files or console output', () => {
+    const logger = Logger.createTestLogger('Orders');
+    expect(logger['logger'].transports).toEqual([logger.memory]);
+
+    logger.debug('Loading order', { orderId: 1 });
+    logger.child({ context: 'Billing', tenantId: 't-1' }).warn('Card expiring');
+
+    expect(logger.entries).toEqual([
+      expect.objectContaining({ level: 'debug', message: 'Loading order', context: 'Orders', meta: { orderId: 1 } }),
+      expect.objectContaining({ level: 'warn', message: 'Card expiring', context: 'Orders:Billing', meta: { tenantId: 't-1' } }),
+    ]);
+    expect(logger.entries[0]!.timestamp).toEqual(expect.any(String));
+  });
+
+  it('should assert on captured entries and list them when an assertion fails', () => {
+    const logger = Logger.createTestLogger('Api');
+    logger.error('Request timeout', { request: { attempt: 2, url: 'https://example.com/orders' } });
+    logger.info('Retrying');
+
+    expect(logger.expectLogged({ level: 'error', message: /timeout/, meta: { 'request.attempt': 2, 'request.url': /orders$/ } }).message).toBe('Request timeout');
+    logger.expectLogged({ level: ['info', 'warn'], context: 'Api', times: 1 });
+    logger.expectNotLogged({ level: 'warn' });
+
+    expect(() => logger.expectLogged({ level: 'warn', message: 'Retrying' }))
+      .toThrow(/Expected at least one log entry matching \{ level: "warn", message: "Retrying" \}, found 0\.\nCaptured entries:\nERROR \[Api\] Request timeout/);
+    expect(() => logger.expectNotLogged({ message: /Retry/ })).toThrow('INFO [Api] Retrying');
+
+    logger.clear();
+    expect(logger.entries).toHaveLength(0);
+  });
+
+  it('should render entries for snapshots without timestamps and with sorted metadata', () => {
+    const logger = Logger.createTestLogger('Api');
+    new ApiError(504, 'Gateway timeout', 'r-1').log(logger);
+    logger.info('Done', { b: 2, a: { d: 4, c: 3 } });
+
+    expect(logger.snapshot()).toBe([
+      'ERROR [Api] API Error 504: Gateway timeout (Request ID: r-1)',
+      'INFO [Api] Done {"a":{"c":3,"d":4},"b":2}',
+    ].join('\n'));
+  });
+
+  it('should capture what ApiService logs', async () => {
+    const logger = Logger.createTestLogger();
+    const api = new ApiService(logger);
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 503, statusText: 'Service Unavailable' }));
+
+    api.addEndpoint('orders', 'Orders', 'https://api.example.com/orders');
+    await expect(api.fetch('orders')).rejects.toThrow(ApiError);
+
+    logger.expectLogged({ level: 'info', message: 'Added new endpoint: Orders (orders)' });
+    logger.expectLogged({ level: 'error', message: 'API request failed: Service Unavailable', meta: { status: 503 } });
+  });
+
+  it('should keep only the newest entries when maxEntries is set', () => {
+    const memory = new MemoryTransport({ maxEntries: 2 });
+    const logger = new Logger('Bounded', undefined, { memory });
+    ['one', 'two', 'three'].forEach(message => logger.info(message));
+    expect(memory.entries.map(entry => entry.message)).toEqual(['two', 'three']);
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from '@jest/globals';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { Infer, ValidatedRequest, ValidationError, errorHandler, schema, validate } from '../src/index';
+
+const createOrder = schema.object({
+  customerId: schema.string({ pattern: /^c_\w+$/ }),
+  items: schema.array(schema.object({ sku: schema.string({ min: 1 }), quantity: schema.number({ integer: true, min: 1 }) }), { min: 1 }),
+  payment: schema.enum(['card', 'invoice']),
+  note: schema.string({ max: 20 }).optional(),
+});
+
+describe('schema', () => {
+  it('should parse valid values and drop unknown properties', () => {
+    const order: Infer<typeof createOrder> = createOrder.parse({
+      customerId: 'c_42',
+      items: [{ sku: 'tea', quantity: 2, discount: 'all' }],
+      payment: 'card',
+      admin: true,
+    });
+
+    expect(order).toEqual({ customerId: 'c_42', items: [{ sku: 'tea', quantity: 2 }], payment: 'card' });
+    expect(order.note).toBeUndefined();
+  });
+
+  it('should report every issue with its path, rule and values', () => {
+    const result = createOrder.safeParse({ customerId: 42, items: [{ sku: 'tea', quantity: 1.5 }, { quantity: 0 }], payment: 'cash' }, 'Order');
+
+    expect(result.success).toBe(false);
+    const error = (result as { error: ValidationError }).error;
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fields).toEqual(['customerId', 'items[0].quantity', 'items[1].sku', 'items[1].quantity', 'payment']);
+    expect(error.issues).toEqual([
+      { path: ['customerId'], rule: 'type', expected: 'string', received: 'number', message: 'must be a string, received number' },
+      { path: ['items', 0, 'quantity'], rule: 'integer', expected: 'integer', received: 'number', message: 'must be an integer' },
+      { path: ['items', 1, 'sku'], rule: 'required', expected: 'string', received: 'undefined', message: 'is required' },
+      { path: ['items', 1, 'quantity'], rule: 'min', expected: 1, received: 'number', message: 'must be at least 1' },
+      { path: ['payment'], rule: 'enum', expected: ['card', 'invoice'], received: 'string', message: 'must be one of card, invoice' },
+    ]);
+    expect(error.message).toBe('Order is invalid: customerId must be a string, received number; items[0].quantity must be an integer; '
+      + 'items[1].sku is required; items[1].quantity must be at least 1; payment must be one of card, invoice');
+  });
+
+  it('should support coercion, defaults, nullable values and custom rules', () => {
+    const filters = schema.object({
+      page: schema.number({ coerce: true, min: 1 }).default(1),
+      archived: schema.boolean({ coerce: true }).optional(),
+      parent: schema.string().nullable(),
+      tag: schema.string({ trim: true }).refine(value => !value.includes(' '), 'must be a single word', 'word'),
+    });
+
+    expect(filters.parse({ page: '3', archived: 'false', parent: null, tag: ' urgent ' })).toEqual({ page: 3, archived: false, parent: null, tag: 'urgent' });
+    expect(filters.parse({ parent: 'p1', tag: 'a' })).toEqual({ page: 1, parent: 'p1', tag: 'a' });
+    expect(() => filters.parse({ page: 'abc', parent: 'p1', tag: 'two words' })).toThrow(
+      'Value is invalid: page must be a number, received string; tag must be a single word'
+    );
+    expect(() => schema.array(schema.string(), { max: 1 }).parse(['a', 'b'])).toThrow('Value is invalid: Value must have at most 1 items');
+  });
+});
+
+describe('validate', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const orderRoute = {
+    params: schema.object({ storeId: schema.number({ coerce: true, integer: true }) }),
+    query: schema.object({ dryRun: schema.boolean({ coerce: true }).default(false) }),
+    body: createOrder,
+  };
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/stores/:storeId/orders', validate(orderRoute), (req, res) => {
+      const { params, query, body } = (req as ValidatedRequest<typeof orderRoute>).validated;
+      res.json({ storeId: params.storeId, dryRun: query.dryRun, items: body.items.length, body: req.body });
+    });
+    app.use(errorHandler({ logger: { error: () => undefined } as unknown as Console, production: true }));
+
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const post = (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  it('should pass the parsed request parts to the route', async () => {
+    const response = await post('/stores/7/orders?dryRun=true', { customerId: 'c_1', items: [{ sku: 'tea', quantity: 1 }], payment: 'invoice', extra: 1 });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      storeId: 7,
+      dryRun: true,
+      items: 1,
+      body: { customerId: 'c_1', items: [{ sku: 'tea', quantity: 1 }], payment: 'invoice' },
+    });
+  });
+
+  it('should answer invalid requests with 422 and the issues of every part', async () => {
+    const response = await post('/stores/main/orders', { customerId: 'c_1', items: [], payment: 'card' });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      status: 422,
+      code: 'BEV_VALIDATION',
+      fields: ['params.storeId', 'body.items'],
+      issues: [
+        { path: ['params', 'storeId'], rule: 'type', expected: 'number', received: 'string' },
+        { path: ['body', 'items'], rule: 'min', expected: 1, received: 'array', message: 'must have at least 1 items' },
+      ],
+    });
+  });
+});